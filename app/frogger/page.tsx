@@ -4,6 +4,25 @@ import { useEffect, useMemo, useRef, useState, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { useRouter } from 'next/navigation';
 
+import { froggerDifficultyLabel } from '../../lib/frogger';
+import {
+  DEFAULT_LOCALE,
+  formatHighway,
+  formatNumber,
+  messagesFor,
+  readLocale,
+  type Locale,
+} from '../../lib/i18n';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  convertSpeed,
+  formatDistance,
+  formatSpeed,
+  readUnitSystem,
+  speedUnitLabel,
+  type UnitSystem,
+} from '../../lib/units';
+
 type GameParams = {
   name: string;
   highway: string;
@@ -49,8 +68,8 @@ function parseParams(sp: URLSearchParams): GameParams {
   const froggerIndex = typeof fi === 'number' && Number.isFinite(fi) ? clampNumber(fi, 0, 1) : null;
 
   return {
-    name: name || 'Unknown street',
-    highway: highway || 'Unknown type',
+    name,
+    highway,
     lanes,
     speedMph: speedMphClean,
     distToMarkedM: distClean,
@@ -58,21 +77,10 @@ function parseParams(sp: URLSearchParams): GameParams {
   };
 }
 
-function froggerDifficultyLabel(froggerIndex: number | null): string {
-  if (typeof froggerIndex !== 'number' || !Number.isFinite(froggerIndex)) return 'easy';
-  if (froggerIndex < 0.2) return 'easy';
-  if (froggerIndex < 0.4) return 'medium';
-  if (froggerIndex < 0.6) return 'hard';
-  return 'Ft. Lauderdale';
-}
-
-function formatRoadType(value: string): string {
+function formatRoadType(value: string, locale: Locale): string {
   const trimmed = (value ?? '').trim();
-  if (!trimmed) return 'Unknown';
-
-  // Turn things like "primary" or "living_street" into "Primary" / "Living Street".
-  const normalized = trimmed.replace(/_/g, ' ').replace(/\s{2,}/g, ' ');
-  return normalized.replace(/\b\w/g, (m) => m.toUpperCase());
+  if (!trimmed) return messagesFor(locale).frogger.unknownRoadType;
+  return formatHighway(trimmed, locale);
 }
 
 type Car = {
@@ -89,8 +97,10 @@ type SpawnState = {
   carSpeedPxPerSec: number;
 };
 
-function SpeedLimitSign({ speedMph }: { speedMph: number | null }) {
-  const speedText = typeof speedMph === 'number' && Number.isFinite(speedMph) ? String(Math.round(speedMph)) : '?';
+function SpeedLimitSign({ speedMph, units, locale }: { speedMph: number | null; units: UnitSystem; locale: Locale }) {
+  const t = messagesFor(locale);
+  const speedText =
+    typeof speedMph === 'number' && Number.isFinite(speedMph) ? String(Math.round(convertSpeed(speedMph, units))) : '?';
 
   return (
     <div
@@ -104,12 +114,12 @@ function SpeedLimitSign({ speedMph }: { speedMph: number | null }) {
         lineHeight: 1,
         userSelect: 'none',
       }}
-      aria-label="Speed limit"
+      aria-label={t.common.speedLimit}
     >
-      <div style={{ fontSize: 12, fontWeight: 900, letterSpacing: 0.8 }}>SPEED</div>
-      <div style={{ fontSize: 12, fontWeight: 900, letterSpacing: 0.8, marginTop: 2 }}>LIMIT</div>
+      <div style={{ fontSize: 12, fontWeight: 900, letterSpacing: 0.8 }}>{t.frogger.speedLimitSign[0]}</div>
+      <div style={{ fontSize: 12, fontWeight: 900, letterSpacing: 0.8, marginTop: 2 }}>{t.frogger.speedLimitSign[1]}</div>
       <div style={{ fontSize: 34, fontWeight: 900, marginTop: 6 }}>{speedText}</div>
-      <div style={{ fontSize: 12, fontWeight: 800, marginTop: 4 }}>MPH</div>
+      <div style={{ fontSize: 12, fontWeight: 800, marginTop: 4 }}>{speedUnitLabel(units).toUpperCase()}</div>
     </div>
   );
 }
@@ -121,6 +131,8 @@ function InfoList({
   froggerIndex,
   difficulty,
   attempts,
+  units,
+  locale,
 }: {
   lanes: number;
   roadType: string;
@@ -128,8 +140,11 @@ function InfoList({
   froggerIndex: number | null;
   difficulty: string;
   attempts: number;
+  units: UnitSystem;
+  locale: Locale;
 }) {
-  const speedText = typeof speedMph === 'number' && Number.isFinite(speedMph) ? `${Math.round(speedMph)} mph` : '—';
+  const t = messagesFor(locale).frogger;
+  const speedText = typeof speedMph === 'number' && Number.isFinite(speedMph) ? formatSpeed(speedMph, units, locale) : '—';
 
   return (
     <div
@@ -149,20 +164,20 @@ function InfoList({
       }}
     >
       <div>
-        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>Lanes:</span> {lanes}
+        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>{t.lanes}</span> {lanes}
       </div>
       <div className="speedInList">
-        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>Speed:</span> {speedText}
+        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>{t.speed}</span> {speedText}
       </div>
       <div>
-        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>Road type:</span> {roadType}
+        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>{t.roadType}</span> {roadType}
       </div>
       <div>
-        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>Frogger difficulty index:</span>{' '}
-        {typeof froggerIndex === 'number' ? froggerIndex.toFixed(2) : '—'} ({difficulty})
+        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>{t.froggerIndex}</span>{' '}
+        {typeof froggerIndex === 'number' ? formatNumber(froggerIndex, locale, 2) : '—'} ({difficulty})
       </div>
       <div>
-        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>Attempts:</span> {attempts}
+        <span style={{ color: 'rgba(0, 0, 0, 0.70)', fontWeight: 800 }}>{t.attempts}</span> {attempts}
       </div>
     </div>
   );
@@ -197,7 +212,7 @@ function abbreviateStreetDirections(name: string): string {
   return out.replace(/\s{2,}/g, ' ').trim();
 }
 
-function StreetNameSign({ name, className }: { name: string; className?: string }) {
+function StreetNameSign({ name, label, className }: { name: string; label: string; className?: string }) {
   const displayName = abbreviateStreetDirections(name);
   return (
     <div
@@ -224,15 +239,16 @@ function StreetNameSign({ name, className }: { name: string; className?: string
         boxShadow: '0 1px 0 rgba(0,0,0,0.10)',
         userSelect: 'none',
       }}
-      aria-label="Street name"
+      aria-label={label}
     >
       {displayName}
     </div>
   );
 }
 
-function DistanceArrowInline({ meters }: { meters: number }) {
-  const label = `${Math.round(meters)}m to nearest marked crosswalk`;
+function DistanceArrowInline({ meters, units, locale }: { meters: number; units: UnitSystem; locale: Locale }) {
+  const t = messagesFor(locale).frogger;
+  const label = t.toNearestCrosswalk(formatDistance(meters, units, locale));
   return (
     <div
       style={{
@@ -248,11 +264,11 @@ function DistanceArrowInline({ meters }: { meters: number }) {
         color: 'rgba(0, 0, 0, 0.80)',
         whiteSpace: 'nowrap',
       }}
-      aria-label="Distance to nearest marked crosswalk"
+      aria-label={t.distanceLabel}
       title={label}
     >
       <span>{label}</span>
-      <svg width="120" height="14" viewBox="0 0 120 14" role="img" aria-label="Distance arrow">
+      <svg width="120" height="14" viewBox="0 0 120 14" role="img" aria-label={t.distanceArrow}>
         <defs>
           <marker id="arrowHeadSmall" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
             <polygon points="0,0 8,4 0,8" fill="#111" />
@@ -270,6 +286,20 @@ function FroggerPage() {
 
   const params = useMemo(() => parseParams(searchParams), [searchParams]);
 
+  // Read after mount: the static export renders with the default.
+  const [units, setUnits] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  useEffect(() => {
+    setUnits(readUnitSystem());
+    setLocale(readLocale());
+  }, [searchParams]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const t = messagesFor(locale);
+
   const [isSmallScreen, setIsSmallScreen] = useState(false);
   useEffect(() => {
     const mq = window.matchMedia('(max-width: 640px)');
@@ -351,7 +381,7 @@ function FroggerPage() {
     const mph = typeof speedMph === 'number' && Number.isFinite(speedMph) ? speedMph : 25;
     const base = clampNumber(1.6 - mph / 80, 0.7, 1.6);
     // Adjust by road type
-    let roadType = (params.highway || '').toLowerCase();
+    const roadType = (params.highway || '').toLowerCase();
     let typeMult = 1;
     if (roadType.includes('residential')) typeMult = 6;
     else if (roadType.includes('tertiary')) typeMult = 3;
@@ -464,7 +494,7 @@ function FroggerPage() {
     };
 
     window.addEventListener('keydown', onKeyDown, { passive: false });
-    return () => window.removeEventListener('keydown', onKeyDown as any);
+    return () => window.removeEventListener('keydown', onKeyDown);
   }, [status]);
 
   useEffect(() => {
@@ -473,6 +503,7 @@ function FroggerPage() {
 
     const laneH = laneHRef.current;
     const safeHLocal = safeH;
+    const text = t.frogger;
 
     const tick = (t: number) => {
       const ctx = canvas.getContext('2d');
@@ -644,7 +675,7 @@ function FroggerPage() {
           const pad = 14;
           const x = canvas.width - pad;
           ctx.font = '900 16px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif';
-          ctx.fillText('Starting in', x, 12);
+          ctx.fillText(text.startingIn, x, 12);
           ctx.font = '900 44px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif';
           ctx.fillText(String(secs), x, 32);
           ctx.restore();
@@ -678,12 +709,12 @@ function FroggerPage() {
       if (status === 'hit') {
         ctx.fillStyle = '#e53935';
         ctx.font = 'bold 16px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif';
-        ctx.fillText('Hit! Press any key to restart.', 14, canvas.height - 18);
+        ctx.fillText(text.hit, 14, canvas.height - 18);
       }
       if (status === 'won') {
         ctx.fillStyle = '#4caf50';
         ctx.font = 'bold 16px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif';
-        ctx.fillText('Made it! Press any key to play again.', 14, canvas.height - 18);
+        ctx.fillText(text.won, 14, canvas.height - 18);
       }
 
       animationRef.current = window.requestAnimationFrame(tick);
@@ -695,7 +726,7 @@ function FroggerPage() {
       animationRef.current = null;
       lastTRef.current = null;
     };
-  }, [params.lanes, params.speedMph, status, safeH]);
+  }, [params.lanes, params.speedMph, status, safeH, t]);
 
   const onBack = () => {
     if (typeof window !== 'undefined') {
@@ -703,7 +734,7 @@ function FroggerPage() {
       const url = new URL(window.location.origin + '/');
       // Use lat/lng from frogger params (not just searchParams)
       if (params && typeof params === 'object') {
-        if (params.name && params.name !== 'Unknown street') {
+        if (params.name) {
           // If lat/lng are present in searchParams, use those
           const lat = searchParams.get('lat');
           const lng = searchParams.get('lng');
@@ -728,8 +759,8 @@ function FroggerPage() {
     restartGame();
   };
 
-  const difficulty = froggerDifficultyLabel(params.froggerIndex);
-  const roadType = formatRoadType(params.highway);
+  const difficulty = t.difficulty[froggerDifficultyLabel(params.froggerIndex)];
+  const roadType = formatRoadType(params.highway, locale);
 
   return (
     <div
@@ -798,10 +829,10 @@ function FroggerPage() {
                       lineHeight: 1.1,
                       textDecoration: 'none',
                     }}
-                    aria-label="Back to map"
+                    aria-label={t.frogger.backToMap}
                   >
                     <i className="fa-solid fa-arrow-left" aria-hidden="true" />
-                    Back to map
+                    {t.frogger.backToMap}
                   </a>
                 );
               })()}
@@ -824,19 +855,19 @@ function FroggerPage() {
                   fontWeight: 800,
                   lineHeight: 1.1,
                 }}
-                aria-label="Reset"
+                aria-label={t.frogger.reset}
               >
                 <i className="fa-solid fa-rotate-right" aria-hidden="true" />
-                Reset
+                {t.frogger.reset}
               </button>
             </div>
-            <StreetNameSign name={params.name} className="streetSign" />
+            <StreetNameSign name={params.name || t.frogger.unknownStreet} label={t.frogger.streetName} className="streetSign" />
           </div>
           
 
           <div className="infoTop" style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
             <div className="speedSign">
-              <SpeedLimitSign speedMph={params.speedMph} />
+              <SpeedLimitSign speedMph={params.speedMph} units={units} locale={locale} />
             </div>
             <InfoList
               lanes={params.lanes}
@@ -845,6 +876,8 @@ function FroggerPage() {
               froggerIndex={params.froggerIndex}
               difficulty={difficulty}
               attempts={attempts}
+              units={units}
+              locale={locale}
             />
           </div>
         </div>
@@ -865,7 +898,7 @@ function FroggerPage() {
               border: '1px solid rgba(0, 0, 0, 0.12)',
               background: '#f8f8f8',
             }}
-            aria-label="Frogger game"
+            aria-label={t.frogger.game}
           />
         </div>
 
@@ -881,11 +914,11 @@ function FroggerPage() {
           }}
         >
           <div className="instructions" style={{ fontSize: 14, fontWeight: 700, color: 'rgba(0, 0, 0, 0.75)' }}>
-            Goal: reach the top sidewalk. Controls: arrow keys / WASD.
+            {t.frogger.instructions}
           </div>
           {typeof params.distToMarkedM === 'number' ? (
             <div className="distanceArrow">
-              <DistanceArrowInline meters={params.distToMarkedM} />
+              <DistanceArrowInline meters={params.distToMarkedM} units={units} locale={locale} />
             </div>
           ) : null}
         </div>
@@ -898,10 +931,12 @@ function FroggerPage() {
             froggerIndex={params.froggerIndex}
             difficulty={difficulty}
             attempts={attempts}
+            units={units}
+            locale={locale}
           />
         </div>
 
-        <div className="touchControls" aria-label="Touch controls">
+        <div className="touchControls" aria-label={t.frogger.touchControls}>
           <button
             type="button"
             className="touchBtn"
@@ -920,7 +955,7 @@ function FroggerPage() {
               userSelect: 'none',
               touchAction: 'manipulation',
             }}
-            aria-label="Move up"
+            aria-label={t.frogger.moveUp}
           >
             ↑
           </button>
@@ -944,7 +979,7 @@ function FroggerPage() {
                 userSelect: 'none',
                 touchAction: 'manipulation',
               }}
-              aria-label="Move left"
+              aria-label={t.frogger.moveLeft}
             >
               ←
             </button>
@@ -967,7 +1002,7 @@ function FroggerPage() {
                 userSelect: 'none',
                 touchAction: 'manipulation',
               }}
-              aria-label="Move down"
+              aria-label={t.frogger.moveDown}
             >
               ↓
             </button>
@@ -990,7 +1025,7 @@ function FroggerPage() {
                 userSelect: 'none',
                 touchAction: 'manipulation',
               }}
-              aria-label="Move right"
+              aria-label={t.frogger.moveRight}
             >
               →
             </button>
@@ -1171,7 +1206,7 @@ function FroggerPage() {
 
 export default function PageWrapper() {
   return (
-    <Suspense fallback={<div>Loading...</div>}>
+    <Suspense fallback={<div>{messagesFor(DEFAULT_LOCALE).frogger.loading}</div>}>
       <FroggerPage />
     </Suspense>
   );
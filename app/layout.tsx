@@ -1,8 +1,14 @@
 import './globals.css';
 
+import { DEFAULT_REGION_ID, getRegion } from '../lib/regions';
+
+// Static export renders one HTML shell, so metadata comes from the deployment's default region.
+// The map updates document.title when the visitor switches regions.
+const defaultRegion = getRegion(DEFAULT_REGION_ID);
+
 export const metadata = {
-  title: 'San Antonio Crosswalk Accessibility Map',
-  description: 'San Antonio basemap + overlays from PMTiles',
+  title: defaultRegion.metadata.title,
+  description: defaultRegion.metadata.description,
 };
 
 export default function RootLayout({
@@ -25,15 +31,15 @@ export default function RootLayout({
         />
         {/* Open Graph / Facebook */}
         <meta property="og:type" content="website" />
-        <meta property="og:title" content="San Antonio Crosswalk Accessibility Map" />
-        <meta property="og:description" content="Explore San Antonio's best and sketchiest pedestrian infrastructure." />
+        <meta property="og:title" content={defaultRegion.metadata.title} />
+        <meta property="og:description" content={defaultRegion.metadata.description} />
         <meta property="og:image" content="/image.jpg" />
         <meta property="og:url" content="https://michaelthoreau.github.io/pedestrian-sketchiness-map/" />
 
         {/* Twitter */}
         <meta name="twitter:card" content="summary_large_image" />
-        <meta name="twitter:title" content="San Antonio Crosswalk Accessibility Map" />
-        <meta name="twitter:description" content="San Antonio Seattle's best and sketchiest pedestrian infrastructure." />
+        <meta name="twitter:title" content={defaultRegion.metadata.title} />
+        <meta name="twitter:description" content={defaultRegion.metadata.description} />
         <meta name="twitter:image" content="/image.jpg" />
 
       </head>
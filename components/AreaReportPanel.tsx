@@ -0,0 +1,201 @@
+'use client';
+
+import type { AreaReport } from '../lib/areaReport';
+import { FROGGER_DIFFICULTIES, type FroggerDifficulty } from '../lib/frogger';
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+import { formatDistance, formatLength, type UnitSystem } from '../lib/units';
+
+export type AreaTool = 'polygon' | 'rectangle';
+
+export type AreaStatus = 'drawing' | 'computing' | 'done' | 'error';
+
+// Same colors as the Frogger Index buckets in the legend.
+const DIFFICULTY_SWATCH: Record<FroggerDifficulty, string> = {
+  easy: 'green',
+  medium: 'yellow',
+  hard: 'red',
+  'Ft. Lauderdale': 'darkred',
+};
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: 8,
+  padding: '8px 10px',
+  border: '1px solid rgba(0, 0, 0, 0.12)',
+  borderRadius: 8,
+  color: 'inherit',
+  background: 'rgba(255, 255, 255, 0.92)',
+  fontSize: 12,
+  fontWeight: 600,
+  lineHeight: 1.2,
+  cursor: 'pointer',
+};
+
+const tableStyle: React.CSSProperties = {
+  width: '100%',
+  borderCollapse: 'collapse',
+  fontSize: 12,
+};
+
+const tableKeyStyle: React.CSSProperties = {
+  padding: '3px 6px 3px 0',
+  verticalAlign: 'top',
+  color: 'rgba(0, 0, 0, 0.75)',
+  whiteSpace: 'nowrap',
+};
+
+const tableValueStyle: React.CSSProperties = {
+  padding: '3px 0',
+  verticalAlign: 'top',
+};
+
+// Tiles cap distances at 500m.
+function formatMedian(meters: number | null, units: UnitSystem, locale: Locale): string {
+  if (meters === null) return '—';
+  return meters >= 500 ? `${formatDistance(500, units, locale)}+` : formatDistance(meters, units, locale);
+}
+
+function drawingHint(tool: AreaTool, vertexCount: number, locale: Locale): string {
+  const t = messagesFor(locale).area;
+  if (tool === 'rectangle') {
+    return vertexCount === 0 ? t.rectangleFirst : t.rectangleSecond;
+  }
+  if (vertexCount < 3) return t.polygonStart;
+  return t.polygonMore;
+}
+
+export default function AreaReportPanel({
+  status,
+  tool,
+  vertexCount,
+  report,
+  unmarkedThreshold,
+  error,
+  units,
+  locale,
+  onToolChange,
+  onFinish,
+  onClear,
+  onClose,
+  onExport,
+}: {
+  status: AreaStatus;
+  tool: AreaTool;
+  vertexCount: number;
+  report: AreaReport | null;
+  unmarkedThreshold: number;
+  error: string | null;
+  units: UnitSystem;
+  locale: Locale;
+  onToolChange: (tool: AreaTool) => void;
+  onFinish: () => void;
+  onClear: () => void;
+  onClose: () => void;
+  onExport: (format: 'geojson' | 'csv') => void;
+}) {
+  const t = messagesFor(locale);
+  return (
+    <div className="map-overlay map-overlay--info" aria-label={t.area.title} aria-live="polite">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 700 }}>{t.area.title}</div>
+
+        <div style={{ display: 'flex', gap: 8 }} role="group" aria-label={t.area.shape}>
+          {(['polygon', 'rectangle'] as const).map((shape) => (
+            <button
+              key={shape}
+              type="button"
+              aria-pressed={tool === shape}
+              style={{ ...buttonStyle, padding: '4px 10px', background: tool === shape ? '#e3f2fd' : buttonStyle.background }}
+              onClick={() => onToolChange(shape)}
+            >
+              {t.area[shape]}
+            </button>
+          ))}
+        </div>
+
+        {status === 'drawing' ? <div>{drawingHint(tool, vertexCount, locale)}</div> : null}
+        {status === 'computing' ? <div>{t.area.computing}</div> : null}
+        {status === 'error' ? <div style={{ color: '#b71c1c', fontWeight: 600 }}>{error}</div> : null}
+
+        {status === 'done' && report ? (
+          <>
+            <table style={tableStyle}>
+              <tbody>
+                {FROGGER_DIFFICULTIES.map((d) => (
+                  <tr key={d}>
+                    <td style={tableKeyStyle}>
+                      <span className={`legend-line legend-line--${DIFFICULTY_SWATCH[d]}`} style={{ marginRight: 6 }} />
+                      {t.difficulty[d]}
+                    </td>
+                    <td style={tableValueStyle}>
+                      <strong>{formatLength(report.metersByDifficulty[d], units, locale)}</strong>
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td style={tableKeyStyle}>{t.area.totalRoad}</td>
+                  <td style={tableValueStyle}>
+                    <strong>{formatLength(report.totalMeters, units, locale)}</strong>
+                  </td>
+                </tr>
+                <tr>
+                  <td style={tableKeyStyle}>{t.area.unmarkedAbove(formatNumber(unmarkedThreshold, locale, 2))}</td>
+                  <td style={tableValueStyle}>
+                    <strong>{report.unmarkedCrossingsAboveThreshold}</strong>
+                  </td>
+                </tr>
+                <tr>
+                  <td style={tableKeyStyle}>{t.area.medianDistance}</td>
+                  <td style={tableValueStyle}>
+                    <strong>{formatMedian(report.medianDistToCrossingMeters, units, locale)}</strong>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+
+            {report.worstStreets.length > 0 ? (
+              <div>
+                <div style={{ fontSize: 13, fontWeight: 700 }}>{t.area.worstStreets}</div>
+                <ol style={{ margin: '4px 0 0', paddingLeft: 18, fontSize: 12 }}>
+                  {report.worstStreets.map((s) => (
+                    <li key={`${s.name}-${s.froggerIndex}`}>
+                      {s.name ?? t.common.unnamedRoad} — <strong>{formatNumber(s.froggerIndex, locale, 2)}</strong> (
+                      {formatLength(s.lengthMeters, units, locale)})
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ) : null}
+
+            <div style={{ display: 'flex', gap: 8 }}>
+              <button type="button" style={buttonStyle} onClick={() => onExport('geojson')}>
+                {t.common.exportGeoJson}
+              </button>
+              <button type="button" style={buttonStyle} onClick={() => onExport('csv')}>
+                {t.common.exportCsv}
+              </button>
+            </div>
+
+            <div style={{ fontSize: 11, color: 'rgba(0, 0, 0, 0.6)' }}>{t.area.note}</div>
+          </>
+        ) : null}
+
+        <div style={{ display: 'flex', gap: 8 }}>
+          {status === 'drawing' && tool === 'polygon' ? (
+            <button type="button" style={buttonStyle} onClick={onFinish} disabled={vertexCount < 3}>
+              {t.area.finish}
+            </button>
+          ) : null}
+          <button type="button" style={buttonStyle} onClick={onClear}>
+            {t.common.startOver}
+          </button>
+          <button type="button" style={buttonStyle} onClick={onClose}>
+            {t.common.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import type { FeatureInfo } from './FeatureInfoPanel';
+import { froggerDifficultyLabel } from '../lib/frogger';
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+import type { SpeedUnit } from '../lib/maxspeed';
+import type { TileBuild } from '../lib/regions';
+import { formatDistance, formatMaxspeed, type UnitSystem } from '../lib/units';
+
+export type CompareSide = {
+  info: FeatureInfo;
+  // Raw tile properties, for placing the street in the legend.
+  properties: Record<string, unknown>;
+};
+
+// The street under the clicked point in each build; null when that build has nothing there.
+export type CompareSelection = {
+  before: CompareSide | null;
+  after: CompareSide | null;
+};
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: 8,
+  padding: '8px 10px',
+  border: '1px solid rgba(0, 0, 0, 0.12)',
+  borderRadius: 8,
+  color: 'inherit',
+  background: 'rgba(255, 255, 255, 0.92)',
+  fontSize: 12,
+  fontWeight: 600,
+  lineHeight: 1.2,
+  cursor: 'pointer',
+};
+
+const tableStyle: React.CSSProperties = {
+  width: '100%',
+  borderCollapse: 'collapse',
+  fontSize: 12,
+};
+
+const tableKeyStyle: React.CSSProperties = {
+  padding: '3px 6px 3px 0',
+  verticalAlign: 'top',
+  color: 'rgba(0, 0, 0, 0.75)',
+  whiteSpace: 'nowrap',
+};
+
+const tableValueStyle: React.CSSProperties = {
+  padding: '3px 6px 3px 0',
+  verticalAlign: 'top',
+};
+
+const changedStyle: React.CSSProperties = {
+  ...tableValueStyle,
+  background: '#fff8e1',
+};
+
+type Row = {
+  label: string;
+  format: (info: FeatureInfo) => string;
+};
+
+function buildRows(units: UnitSystem, maxspeedUnit: SpeedUnit, locale: Locale): Row[] {
+  const t = messagesFor(locale);
+  return [
+    { label: t.compare.street, format: (info) => info.title },
+    {
+      label: t.compare.froggerIndex,
+      format: (info) =>
+        typeof info.froggerIndex === 'number'
+          ? `${formatNumber(info.froggerIndex, locale, 2)} (${t.difficulty[froggerDifficultyLabel(info.froggerIndex)]})`
+          : '—',
+    },
+    {
+      label: t.compare.toMarkedCrossing,
+      // Tiles cap distances at 500m.
+      format: (info) =>
+        typeof info.distanceMeters === 'number'
+          ? `${formatDistance(info.distanceMeters, units, locale)}${info.distanceMeters >= 500 ? '+' : ''}`
+          : '—',
+    },
+    { label: t.common.lanes, format: (info) => (typeof info.lanes === 'number' ? String(info.lanes) : '—') },
+    { label: t.common.speedLimit, format: (info) => (info.maxspeed ? formatMaxspeed(info.maxspeed, units, locale, maxspeedUnit) : '—') },
+  ];
+}
+
+function BuildSelect({
+  label,
+  value,
+  builds,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  builds: readonly TileBuild[];
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label style={{ display: 'flex', flexDirection: 'column', gap: 2, fontSize: 11, fontWeight: 600 }}>
+      {label}
+      <select value={value} onChange={(evt) => onChange(evt.target.value)}>
+        {builds.map((b) => (
+          <option key={b.id} value={b.id}>
+            {b.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default function ComparePanel({
+  builds,
+  beforeId,
+  afterId,
+  selection,
+  units,
+  maxspeedUnit,
+  locale,
+  onBuildsChange,
+  onClose,
+}: {
+  builds: readonly TileBuild[];
+  beforeId: string;
+  afterId: string;
+  selection: CompareSelection | null;
+  units: UnitSystem;
+  // The region's unit for bare `maxspeed` numbers (`bareMaxspeedUnit`).
+  maxspeedUnit: SpeedUnit;
+  locale: Locale;
+  onBuildsChange: (beforeId: string, afterId: string) => void;
+  onClose: () => void;
+}) {
+  const t = messagesFor(locale);
+  const labelOf = (id: string) => builds.find((b) => b.id === id)?.label ?? id;
+
+  return (
+    <div className="map-overlay map-overlay--info" aria-label={t.compare.title} aria-live="polite">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 700 }}>{t.compare.title}</div>
+
+        <div style={{ display: 'flex', gap: 12 }}>
+          <BuildSelect label={t.compare.before} value={beforeId} builds={builds} onChange={(id) => onBuildsChange(id, afterId)} />
+          <BuildSelect label={t.compare.after} value={afterId} builds={builds} onChange={(id) => onBuildsChange(beforeId, id)} />
+        </div>
+
+        {!selection ? <div>{t.compare.hint}</div> : null}
+
+        {selection && !selection.before && !selection.after ? <div>{t.compare.nothingHere}</div> : null}
+
+        {selection && (selection.before || selection.after) ? (
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th />
+                <th style={{ ...tableValueStyle, textAlign: 'left' }}>{labelOf(beforeId)}</th>
+                <th style={{ ...tableValueStyle, textAlign: 'left' }}>{labelOf(afterId)}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {buildRows(units, maxspeedUnit, locale).map((row) => {
+                const before = selection.before ? row.format(selection.before.info) : t.compare.notInBuild;
+                const after = selection.after ? row.format(selection.after.info) : t.compare.notInBuild;
+                const style = before !== after ? changedStyle : tableValueStyle;
+                return (
+                  <tr key={row.label}>
+                    <td style={tableKeyStyle}>{row.label}</td>
+                    <td style={style}>{before}</td>
+                    <td style={style}>
+                      <strong>{after}</strong>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : null}
+
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button type="button" style={buttonStyle} onClick={onClose}>
+            {t.common.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
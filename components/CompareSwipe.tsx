@@ -0,0 +1,113 @@
+'use client';
+
+import maplibregl, { type StyleSpecification } from 'maplibre-gl';
+import { useEffect, useRef, useState } from 'react';
+
+import { messagesFor, type Locale } from '../lib/i18n';
+
+// Before/after swipe. The "before" build is a second, non-interactive map drawn over the
+// left part of the main map (which shows the "after" build). It follows the main map's
+// camera, and pointer events pass through it, so panning and clicking still hit the main map.
+
+const KEYBOARD_STEP = 0.05;
+
+function clamp(position: number): number {
+  return Math.max(0, Math.min(1, position));
+}
+
+export default function CompareSwipe({
+  map,
+  style,
+  beforeLabel,
+  afterLabel,
+  locale,
+  onBeforeMapChange,
+}: {
+  map: maplibregl.Map;
+  style: StyleSpecification;
+  beforeLabel: string;
+  afterLabel: string;
+  locale: Locale;
+  // Called with the "before" map once its style has loaded, and with null when it is removed.
+  onBeforeMapChange: (before: maplibregl.Map | null) => void;
+}) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const beforeContainerRef = useRef<HTMLDivElement | null>(null);
+  const [position, setPosition] = useState(0.5);
+  // The parent passes a new callback each render; only a new map or style rebuilds the before map.
+  const onBeforeMapChangeRef = useRef(onBeforeMapChange);
+  onBeforeMapChangeRef.current = onBeforeMapChange;
+
+  useEffect(() => {
+    if (!beforeContainerRef.current) return;
+
+    const cameraOf = () => ({
+      center: map.getCenter(),
+      zoom: map.getZoom(),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+    });
+
+    const before = new maplibregl.Map({
+      container: beforeContainerRef.current,
+      style,
+      ...cameraOf(),
+      interactive: false,
+      attributionControl: false,
+    });
+
+    const sync = () => before.jumpTo(cameraOf());
+    map.on('move', sync);
+    before.on('load', () => onBeforeMapChangeRef.current(before));
+
+    return () => {
+      map.off('move', sync);
+      onBeforeMapChangeRef.current(null);
+      before.remove();
+    };
+  }, [map, style]);
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(clamp((clientX - rect.left) / rect.width));
+  };
+
+  const percent = `${(position * 100).toFixed(2)}%`;
+
+  return (
+    <div ref={containerRef} className="compare-swipe">
+      <div ref={beforeContainerRef} className="compare-swipe__before" style={{ clipPath: `inset(0 calc(100% - ${percent}) 0 0)` }} />
+      <div className="compare-swipe__divider" style={{ left: percent }}>
+        <span className="compare-swipe__label compare-swipe__label--before">{beforeLabel}</span>
+        <button
+          type="button"
+          className="compare-swipe__handle"
+          role="slider"
+          aria-label={messagesFor(locale).compare.swipeLabel(beforeLabel, afterLabel)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(position * 100)}
+          aria-valuetext={`${Math.round(position * 100)}% ${beforeLabel}`}
+          onPointerDown={(evt) => {
+            evt.currentTarget.setPointerCapture(evt.pointerId);
+          }}
+          onPointerMove={(evt) => {
+            if (evt.currentTarget.hasPointerCapture(evt.pointerId)) moveTo(evt.clientX);
+          }}
+          onKeyDown={(evt) => {
+            if (evt.key === 'ArrowLeft') setPosition((p) => clamp(p - KEYBOARD_STEP));
+            else if (evt.key === 'ArrowRight') setPosition((p) => clamp(p + KEYBOARD_STEP));
+            else if (evt.key === 'Home') setPosition(0);
+            else if (evt.key === 'End') setPosition(1);
+            else return;
+            evt.preventDefault();
+          }}
+        >
+          ◀ ▶
+        </button>
+        <span className="compare-swipe__label compare-swipe__label--after">{afterLabel}</span>
+      </div>
+    </div>
+  );
+}
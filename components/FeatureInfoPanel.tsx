@@ -3,6 +3,14 @@
 import type maplibregl from 'maplibre-gl';
 import { useEffect, useRef, useState } from 'react';
 
+import FroggerBreakdown, { type FroggerComponents } from './FroggerBreakdown';
+import InferredAttributeNote, { INFERRED_MARK, inferredValueStyle } from './InferredAttributeNote';
+import { froggerDifficultyLabel } from '../lib/frogger';
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+import type { ReportTarget } from '../lib/issueReports';
+import { parseMaxspeed, type SpeedUnit } from '../lib/maxspeed';
+import { formatDistance, formatMaxspeed, formatSpeed, type UnitSystem } from '../lib/units';
+
 type ActionLink = {
   href: string;
   label: string;
@@ -17,10 +25,26 @@ export type FeatureInfo = {
   froggerIndex?: number | null;
   lanes?: number | null;
   maxspeed?: string | null;
+  // Parsed from the OSM tags by the analysis (lib/maxspeed.ts).
+  speedMph?: number | null;
+  // Estimated by the analysis because the way has no tag (lib/roadInference.ts).
+  lanesInferred?: boolean;
+  speedInferred?: boolean;
   lngLat: maplibregl.LngLat;
   zoom?: number;
+  froggerComponents?: FroggerComponents | null;
+  // OSM way id; highlights the street on the map.
+  osmId?: string | null;
+  // The street's OSM way id and the segment's index along it: stable across analysis runs,
+  // unlike `osmId`. Used by share links and the "improve this in OSM" link.
+  roadOsmId?: string | null;
+  segmentNo?: number | null;
+  // Marked crosswalk the distance was measured to; ringed and joined to the street on the map.
+  nearestMarkedCrosswalkId?: string | null;
   actions: ActionLink[];
   reportIssueUrl?: string | null;
+  // Prefill for the in-app report form.
+  reportTarget?: ReportTarget | null;
 };
 
 const buttonStyle: React.CSSProperties = {
@@ -40,6 +64,16 @@ const buttonStyle: React.CSSProperties = {
   whiteSpace: 'nowrap',
 };
 
+const linkButtonStyle: React.CSSProperties = {
+  padding: 0,
+  border: 0,
+  background: 'none',
+  color: '#0645ad',
+  font: 'inherit',
+  textDecoration: 'underline',
+  cursor: 'pointer',
+};
+
 const iconStyle: React.CSSProperties = {
   width: 16,
   height: 16,
@@ -80,14 +114,6 @@ const tableValueStyle: React.CSSProperties = {
   verticalAlign: 'top',
 };
 
-function maybeParseSpeedMph(value: string | null | undefined): number | null {
-  if (!value) return null;
-  const match = value.match(/(\d+(?:\.\d+)?)/);
-  if (!match) return null;
-  const num = Number(match[1]);
-  return Number.isFinite(num) ? num : null;
-}
-
 function buildFroggerHref(params: {
   name: string | null;
   highway: string | null;
@@ -97,6 +123,8 @@ function buildFroggerHref(params: {
   froggerIndex: number | null;
   lngLat?: maplibregl.LngLat;
   zoom?: number;
+  units: UnitSystem;
+  locale: Locale;
 }): string {
   const sp = new URLSearchParams();
   if (params.name) sp.set('name', params.name);
@@ -105,6 +133,8 @@ function buildFroggerHref(params: {
   if (typeof params.speedMph === 'number' && Number.isFinite(params.speedMph)) sp.set('speed', String(params.speedMph));
   if (typeof params.distToMarkedM === 'number' && Number.isFinite(params.distToMarkedM)) sp.set('dist', String(params.distToMarkedM));
   if (typeof params.froggerIndex === 'number' && Number.isFinite(params.froggerIndex)) sp.set('fi', String(params.froggerIndex));
+  sp.set('units', params.units);
+  sp.set('lang', params.locale);
   // Add lat/lng/z if available
   if (params.lngLat && typeof params.lngLat.lat === 'number' && typeof params.lngLat.lng === 'number') {
     sp.set('lat', params.lngLat.lat.toFixed(6));
@@ -130,25 +160,27 @@ function formatMaybeNumber(value: unknown): number | null {
   return Number.isFinite(num) ? num : null;
 }
 
-function froggerDifficultyLabel(froggerIndex: number): string {
-  if (!Number.isFinite(froggerIndex)) return 'easy';
-  if (froggerIndex < 0.2) return 'easy';
-  if (froggerIndex < 0.4) return 'medium';
-  if (froggerIndex < 0.6) return 'hard';
-  // Spec defines 0.6–0.8 = Ft. Lauderdale; indexes above 0.8 are also Ft. Lauderdale.
-  // Treat anything >=0.6 as this top bucket.
-  return 'Ft. Lauderdale';
-}
-
 export default function FeatureInfoPanel({
   info,
   onShare,
-  unitIndex,
+  onReport,
+  units,
+  maxspeedUnit,
+  locale,
+  jokeUnitIndex = 0,
 }: {
   info: FeatureInfo;
   onShare: () => Promise<boolean>;
-  unitIndex: number;
+  // Opens the in-app report form; the Google Form link (if configured) stays as a fallback.
+  onReport?: () => void;
+  units: UnitSystem;
+  // The region's unit for bare `maxspeed` numbers (`bareMaxspeedUnit`).
+  maxspeedUnit: SpeedUnit;
+  locale: Locale;
+  // The legend's "Change units" easter egg (see `distanceUnitFor`).
+  jokeUnitIndex?: number;
 }) {
+  const t = messagesFor(locale);
   const [tooltip, setTooltip] = useState<'hidden' | 'copy' | 'copied' | 'failed'>('hidden');
   const resetTimerRef = useRef<number | null>(null);
 
@@ -168,28 +200,14 @@ export default function FeatureInfoPanel({
 
   const lanes = formatMaybeNumber(info.lanes);
   const dist = formatMaybeNumber(info.distanceMeters);
-
-  // Unit conversion logic
-  let distDisplay: string | null = null;
-  let unitLabel = '';
-  if (typeof dist === 'number') {
-    if (unitIndex === 0 || unitIndex === 3) {
-      distDisplay = Math.round(dist).toString();
-      unitLabel = 'm';
-    } else if (unitIndex === 1) {
-      distDisplay = Math.round(dist * 3.28084).toString();
-      unitLabel = 'ft';
-    } else if (unitIndex === 2) {
-      // Football fields: 110m each, 1 decimal place
-      distDisplay = (dist / 110).toFixed(1);
-      unitLabel = 'football fields';
-    } else if (unitIndex === 4) {
-      // Bald eagles: 2m each, 1 decimal place
-      distDisplay = (dist / 2).toFixed(1);
-      unitLabel = 'bald eagles';
-    }
-  }
-  const speedMph = formatMaybeNumber(info.maxspeed) ?? maybeParseSpeedMph(info.maxspeed);
+  // The raw tag first, so tiles built before unit-aware parsing still show the right speed;
+  // the exported speed_mph covers limits implied by other tags (source:maxspeed).
+  const speedMph = parseMaxspeed(info.maxspeed, maxspeedUnit)?.mph ?? formatMaybeNumber(info.speedMph);
+  const speedLabel = info.maxspeed
+    ? formatMaxspeed(info.maxspeed, units, locale, maxspeedUnit)
+    : speedMph !== null
+      ? formatSpeed(speedMph, units, locale)
+      : null;
   const froggerHref = buildFroggerHref({
     name: info.title ?? null,
     highway: info.highwayType ?? null,
@@ -199,10 +217,12 @@ export default function FeatureInfoPanel({
     froggerIndex: typeof info.froggerIndex === 'number' && Number.isFinite(info.froggerIndex) ? info.froggerIndex : null,
     lngLat: info.lngLat,
     zoom: typeof info.zoom === 'number' ? info.zoom : undefined,
+    units,
+    locale,
   });
 
   return (
-    <div className="map-overlay map-overlay--info" aria-label="Selected street">
+    <div className="map-overlay map-overlay--info" aria-label={t.info.selectedStreet}>
       <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
           <div style={{ fontSize: 14, fontWeight: 700 }}>{info.title}</div>
@@ -212,8 +232,8 @@ export default function FeatureInfoPanel({
               onClick={onShareClick}
               onMouseEnter={() => setTooltip('copy')}
               onMouseLeave={() => setTooltip('hidden')}
-              aria-label="Copy link"
-              title="Copy link"
+              aria-label={t.common.copyLink}
+              title={t.common.copyLink}
               style={iconButtonStyle}
             >
               <i className="fa-solid fa-share-nodes" aria-hidden="true" />
@@ -235,43 +255,59 @@ export default function FeatureInfoPanel({
                 transition: 'opacity 120ms ease-out, transform 120ms ease-out',
               }}
             >
-              {tooltip === 'copied' ? 'Copied!' : tooltip === 'failed' ? 'Copy failed' : 'Copy link'}
+              {tooltip === 'copied' ? t.common.copied : tooltip === 'failed' ? t.common.copyFailed : t.common.copyLink}
             </div>
           </div>
         </div>
         {/* Frogger Score Row */}
         <div style={{ fontSize: 13, fontWeight: 600, color: '#1b5e20', margin: '2px 0 2px 0' }}>
-          Frogger Difficulty Index: <span style={{ fontWeight: 900 }}>{typeof info.froggerIndex === 'number' && Number.isFinite(info.froggerIndex) ? info.froggerIndex.toFixed(2) : '—'}</span>
+          {t.info.froggerIndex} <span style={{ fontWeight: 900 }}>{typeof info.froggerIndex === 'number' && Number.isFinite(info.froggerIndex) ? formatNumber(info.froggerIndex, locale, 2) : '—'}</span>
         </div>
+        {info.froggerComponents ? <FroggerBreakdown components={info.froggerComponents} highway={info.highwayType} locale={locale} /> : null}
 
         <table style={tableStyle}>
           <tbody>
-            {typeof distDisplay === 'string' ? (
+            {typeof dist === 'number' ? (
               <tr>
-                <td style={tableKeyStyle}>Dist to marked crossing</td>
+                <td style={tableKeyStyle}>{t.info.distToMarked}</td>
                 <td style={tableValueStyle}>
-                  <strong>{distDisplay}{unitIndex === 2 || unitIndex === 4 ? '' : unitLabel}</strong>{unitIndex === 2 || unitIndex === 4 ? ` ${unitLabel}` : ''}
+                  <strong>{formatDistance(dist, units, locale, jokeUnitIndex)}</strong>
                 </td>
               </tr>
             ) : null}
             {typeof lanes === 'number' ? (
               <tr>
-                <td style={tableKeyStyle}>Lanes</td>
+                <td style={tableKeyStyle}>{t.common.lanes}</td>
                 <td style={tableValueStyle}>
-                  <strong>{lanes}</strong>
+                  {info.lanesInferred ? (
+                    <strong style={inferredValueStyle} title={t.info.inferredTitle}>
+                      {INFERRED_MARK} {lanes}
+                    </strong>
+                  ) : (
+                    <strong>{lanes}</strong>
+                  )}
                 </td>
               </tr>
             ) : null}
-            {info.maxspeed ? (
+            {speedLabel ? (
               <tr>
-                <td style={tableKeyStyle}>Speed limit</td>
+                <td style={tableKeyStyle}>{t.common.speedLimit}</td>
                 <td style={tableValueStyle}>
-                  <strong>{info.maxspeed}</strong>
+                  {info.speedInferred ? (
+                    <strong style={inferredValueStyle} title={t.info.inferredTitle}>
+                      {INFERRED_MARK} {speedLabel}
+                    </strong>
+                  ) : (
+                    <strong>{speedLabel}</strong>
+                  )}
                 </td>
               </tr>
             ) : null}
           </tbody>
         </table>
+        {(info.lanesInferred && typeof lanes === 'number') || (info.speedInferred && speedLabel) ? (
+          <InferredAttributeNote roadOsmId={info.roadOsmId} lngLat={info.lngLat} locale={locale} />
+        ) : null}
 
         {/* Big Try Crossing Button */}
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', margin: '12px 0 4px 0' }}>
@@ -291,12 +327,12 @@ export default function FeatureInfoPanel({
               border: '2px solid #1b5e20',
               transition: 'background 0.2s',
             }}
-            aria-label="Try crossing here"
+            aria-label={t.info.tryCrossing}
           >
-            Try crossing here*
+            {t.info.tryCrossing}*
           </a>
           <div style={{ fontSize: 13, color: '#1b5e20', fontWeight: 700, marginTop: 2 }}>
-            *Frogger Difficulty: {froggerDifficultyLabel(typeof info.froggerIndex === 'number' && Number.isFinite(info.froggerIndex) ? info.froggerIndex : 0)}
+            {t.info.difficultyFootnote(t.difficulty[froggerDifficultyLabel(typeof info.froggerIndex === 'number' && Number.isFinite(info.froggerIndex) ? info.froggerIndex : 0)])}
           </div>
         </div>
 
@@ -315,11 +351,18 @@ export default function FeatureInfoPanel({
           ))}
         </div>
 
-        {info.reportIssueUrl ? (
-          <div style={{ marginTop: 4, fontSize: 12 }}>
-            <a href={info.reportIssueUrl} target="_blank" rel="noopener noreferrer">
-              Report an issue
-            </a>
+        {onReport || info.reportIssueUrl ? (
+          <div style={{ marginTop: 4, fontSize: 12, display: 'flex', gap: 12 }}>
+            {onReport ? (
+              <button type="button" style={linkButtonStyle} onClick={onReport}>
+                {t.info.reportIssue}
+              </button>
+            ) : null}
+            {info.reportIssueUrl ? (
+              <a href={info.reportIssueUrl} target="_blank" rel="noopener noreferrer">
+                {onReport ? t.info.googleForm : t.info.reportIssue}
+              </a>
+            ) : null}
           </div>
         ) : null}
       </div>
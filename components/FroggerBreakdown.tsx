@@ -0,0 +1,105 @@
+'use client';
+
+// Per-factor view of the Frogger Index, from the component scores exported with the tiles.
+// Weights and the hard-zero rule come from lib/frogger.ts, the same source as the SQL.
+
+import { FROGGER_WEIGHTS, FROGGER_WEIGHT_TOTAL, isHardZeroHighway, type FroggerFactor } from '../lib/frogger';
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+
+export type FroggerComponents = {
+  speed: number | null;
+  lanes: number | null;
+  volume: number | null;
+  distance: number | null;
+};
+
+const ADDITIVE_FACTORS: readonly FroggerFactor[] = ['speed', 'lanes', 'volume'];
+
+const rowStyle: React.CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '118px 1fr 34px',
+  alignItems: 'center',
+  gap: 6,
+  fontSize: 11,
+};
+
+const trackStyle: React.CSSProperties = {
+  height: 8,
+  borderRadius: 4,
+  background: 'rgba(0, 0, 0, 0.08)',
+  overflow: 'hidden',
+};
+
+function FactorRow({
+  label,
+  weightLabel,
+  score,
+  locale,
+}: {
+  label: string;
+  weightLabel: string;
+  score: number | null;
+  locale: Locale;
+}) {
+  const pct = typeof score === 'number' && Number.isFinite(score) ? Math.max(0, Math.min(1, score)) * 100 : 0;
+  return (
+    <div style={rowStyle}>
+      <span style={{ color: 'rgba(0, 0, 0, 0.75)', whiteSpace: 'nowrap' }}>
+        {label} <span style={{ color: 'rgba(0, 0, 0, 0.5)' }}>{weightLabel}</span>
+      </span>
+      <span
+        style={trackStyle}
+        role="meter"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={1}
+        aria-valuenow={typeof score === 'number' ? score : undefined}
+      >
+        <span style={{ display: 'block', width: `${pct}%`, height: '100%', background: '#1b5e20' }} />
+      </span>
+      <strong style={{ textAlign: 'right' }}>{typeof score === 'number' && Number.isFinite(score) ? formatNumber(score, locale, 2) : '—'}</strong>
+    </div>
+  );
+}
+
+export default function FroggerBreakdown({
+  components,
+  highway,
+  locale,
+}: {
+  components: FroggerComponents;
+  highway: string | null;
+  locale: Locale;
+}) {
+  const t = messagesFor(locale).breakdown;
+  const isHardZero = isHardZeroHighway(highway);
+  const weight = (value: number) => formatNumber(value, locale, 1);
+
+  return (
+    <details style={{ fontSize: 12 }}>
+      <summary style={{ cursor: 'pointer', fontWeight: 600 }}>{t.whyThisScore}</summary>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4, marginTop: 6 }}>
+        {ADDITIVE_FACTORS.map((key) => (
+          <FactorRow
+            key={key}
+            label={t.factors[key]}
+            weightLabel={`×${weight(FROGGER_WEIGHTS[key])}`}
+            score={components[key]}
+            locale={locale}
+          />
+        ))}
+        <FactorRow label={t.farFromCrossing} weightLabel={t.multiplier} score={components.distance} locale={locale} />
+        <div style={{ fontSize: 11, color: 'rgba(0, 0, 0, 0.6)', marginTop: 2 }}>
+          {isHardZero
+            ? t.hardZero
+            : t.formula(
+                weight(FROGGER_WEIGHTS.speed),
+                weight(FROGGER_WEIGHTS.lanes),
+                weight(FROGGER_WEIGHTS.volume),
+                weight(FROGGER_WEIGHT_TOTAL),
+              )}
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useRef, useState } from 'react';
+
+import { froggerDifficultyLabel } from '../lib/frogger';
+import type { HazardItem } from '../lib/hazards';
+import { formatNumber, messagesFor, type Locale, type Messages } from '../lib/i18n';
+import { formatSpeed, type UnitSystem } from '../lib/units';
+
+const itemStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'flex-start',
+  gap: 2,
+  width: '100%',
+  padding: '6px 8px',
+  border: '1px solid transparent',
+  borderRadius: 6,
+  background: 'transparent',
+  color: 'inherit',
+  font: 'inherit',
+  textAlign: 'left',
+  cursor: 'pointer',
+};
+
+function itemTitle(item: HazardItem, t: Messages): string {
+  const name = item.name ?? t.common.unnamedRoad;
+  return item.kind === 'crossing' ? t.map.unmarkedCrossingOn(name) : name;
+}
+
+function itemDetails(item: HazardItem, units: UnitSystem, locale: Locale): string {
+  const t = messagesFor(locale);
+  const parts = [`${t.difficulty[froggerDifficultyLabel(item.froggerIndex)]} (${formatNumber(item.froggerIndex, locale, 2)})`];
+  if (item.lanes !== null) parts.push(t.common.laneCount(item.lanes));
+  if (item.speedMph !== null) parts.push(formatSpeed(item.speedMph, units, locale));
+  return parts.join(' · ');
+}
+
+// Keyboard: Tab reaches the list, arrow keys / Home / End move between items, Enter or
+// Space selects. Only one item is tabbable at a time (roving tabindex).
+export default function HazardList({
+  items,
+  selectedKey,
+  units,
+  locale,
+  onSelect,
+  onClose,
+}: {
+  items: HazardItem[];
+  selectedKey: string | null;
+  units: UnitSystem;
+  locale: Locale;
+  onSelect: (item: HazardItem) => void;
+  onClose: () => void;
+}) {
+  const t = messagesFor(locale);
+  const [focusIndex, setFocusIndex] = useState(0);
+  const buttonRefs = useRef<Array<HTMLButtonElement | null>>([]);
+  const activeIndex = Math.min(focusIndex, Math.max(0, items.length - 1));
+
+  const focusItem = (index: number) => {
+    const next = Math.max(0, Math.min(items.length - 1, index));
+    setFocusIndex(next);
+    buttonRefs.current[next]?.focus();
+  };
+
+  const onKeyDown = (evt: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    if (evt.key === 'ArrowDown') focusItem(index + 1);
+    else if (evt.key === 'ArrowUp') focusItem(index - 1);
+    else if (evt.key === 'Home') focusItem(0);
+    else if (evt.key === 'End') focusItem(items.length - 1);
+    else return;
+    evt.preventDefault();
+  };
+
+  return (
+    <section className="map-overlay map-overlay--list" aria-labelledby="hazard-list-title">
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
+        <h2 id="hazard-list-title" style={{ margin: 0, fontSize: 14 }}>
+          {t.hazards.title}
+        </h2>
+        <button type="button" className="legend-button" onClick={onClose}>
+          {t.common.close}
+        </button>
+      </div>
+      <div aria-live="polite" style={{ fontSize: 11, color: 'rgba(0, 0, 0, 0.6)', margin: '4px 0' }}>
+        {items.length === 0 ? t.hazards.empty : t.hazards.count(items.length)}
+      </div>
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {items.map((item, index) => {
+          const isSelected = item.key === selectedKey;
+          const title = itemTitle(item, t);
+          const details = itemDetails(item, units, locale);
+          return (
+            <li key={item.key}>
+              <button
+                ref={(el) => {
+                  buttonRefs.current[index] = el;
+                }}
+                type="button"
+                tabIndex={index === activeIndex ? 0 : -1}
+                aria-current={isSelected ? 'true' : undefined}
+                aria-label={`${title}. ${details.replace(/ · /g, ', ')}`}
+                style={{
+                  ...itemStyle,
+                  background: isSelected ? '#e8f5e9' : itemStyle.background,
+                  borderColor: isSelected ? '#1b5e20' : 'transparent',
+                }}
+                onFocus={() => setFocusIndex(index)}
+                onKeyDown={(evt) => onKeyDown(evt, index)}
+                onClick={() => onSelect(item)}
+              >
+                <span style={{ fontWeight: 700 }}>{title}</span>
+                <span style={{ fontSize: 11, color: 'rgba(0, 0, 0, 0.7)' }}>{details}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+// Lanes and speed limits the analysis estimated because the road has no tag for them
+// (lib/roadInference.ts). The panels show those values with `inferredValueStyle` and this
+// note, which links to the OSM editor so someone can add the real value.
+
+import type maplibregl from 'maplibre-gl';
+
+import { messagesFor, type Locale } from '../lib/i18n';
+
+export const inferredValueStyle: React.CSSProperties = {
+  fontStyle: 'italic',
+  fontWeight: 600,
+  color: '#8a5a00',
+  borderBottom: '1px dotted currentColor',
+  cursor: 'help',
+};
+
+export const INFERRED_MARK = '≈';
+
+function osmEditUrl(roadOsmId: string | null | undefined, lngLat: maplibregl.LngLat): string {
+  if (roadOsmId) return `https://www.openstreetmap.org/edit?way=${encodeURIComponent(roadOsmId)}`;
+  return `https://www.openstreetmap.org/edit#map=19/${lngLat.lat}/${lngLat.lng}`;
+}
+
+export default function InferredAttributeNote({
+  roadOsmId,
+  lngLat,
+  locale,
+}: {
+  roadOsmId?: string | null;
+  lngLat: maplibregl.LngLat;
+  locale: Locale;
+}) {
+  const t = messagesFor(locale).info;
+  return (
+    <div style={{ fontSize: 11, color: 'rgba(0, 0, 0, 0.65)' }}>
+      <span style={{ ...inferredValueStyle, borderBottom: 'none', cursor: 'inherit' }}>{INFERRED_MARK}</span>{' '}
+      {t.inferredNote}{' '}
+      <a href={osmEditUrl(roadOsmId, lngLat)} target="_blank" rel="noopener noreferrer" style={{ color: '#1b5e20', fontWeight: 600 }}>
+        {t.improveInOsm}
+      </a>
+    </div>
+  );
+}
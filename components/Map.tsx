@@ -2,34 +2,177 @@
 
 import 'maplibre-gl/dist/maplibre-gl.css';
 
-import maplibregl, { type StyleSpecification } from 'maplibre-gl';
+import maplibregl, { type StyleSpecification, type VectorSourceSpecification } from 'maplibre-gl';
 import { useEffect, useMemo, useRef, useState } from 'react';
 import * as pmtiles from 'pmtiles';
 
+import AreaReportPanel, { type AreaStatus, type AreaTool } from './AreaReportPanel';
+import ComparePanel, { type CompareSelection, type CompareSide } from './ComparePanel';
+import CompareSwipe from './CompareSwipe';
 import FeatureInfoPanel, { type FeatureInfo } from './FeatureInfoPanel';
+import HazardList from './HazardList';
+import NearestCrossingPanel, { type NearestCrossingStatus } from './NearestCrossingPanel';
+import type { FroggerComponents } from './FroggerBreakdown';
+import ReportIssuePanel from './ReportIssuePanel';
+import RoutePanel, { type RoutePlan, type RouteStatus } from './RoutePanel';
+import SearchBox from './SearchBox';
+import SharedFeatureMissingPanel from './SharedFeatureMissingPanel';
 import UnmarkedCrossingInfoPanel, { type UnmarkedCrossingInfo } from './UnmarkedCrossingInfoPanel';
-
-const SEATTLE_CENTER: [number, number] = [-122.3321, 47.6062];
-const SF_CENTER: [number, number] = [-122.4194, 37.7749];
-const DEFAULT_ZOOM = 13;
+import WhatIfPanel from './WhatIfPanel';
+import {
+  DEFAULT_REGION_ID,
+  REGIONS,
+  getRegion,
+  parseRegionIdFromUrl,
+  resolveTileUrl,
+  type RegionId,
+} from '../lib/regions';
+import {
+  DEFAULT_UNMARKED_FROGGER_THRESHOLD,
+  STREET_METRICS,
+  STREET_METRIC_IDS,
+  CHANGE_KINDS,
+  buildChangeColorExpression,
+  buildLegendBucketFilter,
+  buildLineColorExpression,
+  buildUnmarkedCrossingFilter,
+  legendBucketFor,
+  type LegendBucket,
+  type LegendBucketId,
+  type StreetMetric,
+  type StreetMetricId,
+} from '../lib/sketchinessLegend';
+import {
+  buildRoutingGraph,
+  findRoute,
+  lowExposureCost,
+  nearestNode,
+  shortestPathCost,
+} from '../lib/routing';
+import { buildAreaReport, type AreaReport } from '../lib/areaReport';
+import {
+  downloadFile,
+  isFeatureInRing,
+  mergeTileFeatures,
+  toCsv,
+  toGeoJson,
+  type CsvColumn,
+} from '../lib/exportFeatures';
+import {
+  OFFICIAL_FROGGER_WEIGHTS,
+  formatFroggerWeightsParam,
+  froggerDifficultyLabel,
+  isOfficialFroggerWeights,
+  parseFroggerWeightsParam,
+  type FroggerWeights,
+} from '../lib/frogger';
+import { buildHazardList, type HazardItem } from '../lib/hazards';
+import { findNearestCrossings, type NearestCrossingResult } from '../lib/nearestCrossing';
+import { haversineMeters, representativePoint, ringBounds, type LngLatTuple } from '../lib/geo';
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_NAMES,
+  formatHighway,
+  formatNumber,
+  messagesFor,
+  readLocale,
+  saveLocale,
+  type Locale,
+  type Messages,
+} from '../lib/i18n';
+import { listReports, type ReportTarget } from '../lib/issueReports';
+import { bareMaxspeedUnit } from '../lib/maxspeed';
+import { loadSearchIndex, searchIndexFileFor, type SearchEntry } from '../lib/searchIndex';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  UNIT_SYSTEMS,
+  convertSpeed,
+  distanceUnitFor,
+  readUnitSystem,
+  saveUnitSystem,
+  speedUnitLabel,
+  type UnitSystem,
+} from '../lib/units';
 
 const SKETCHINESS_LAYER_IDS = ['sketchiness-lines-out', 'sketchiness-lines-in'] as const;
 
+const SKETCHINESS_SELECTED_LAYER_ID = 'sketchiness-selected';
+const UNMARKED_CROSSINGS_LAYER_ID = 'unmarked-crossings';
+const UNMARKED_CROSSINGS_SELECTED_LAYER_ID = 'unmarked-crossings-selected';
+const UNMARKED_CROSSING_ICON_ID = 'unmarked-crossing-warning';
+const MARKED_CROSSINGS_LAYER_ID = 'marked-crossings';
+const MARKED_CROSSINGS_SELECTED_LAYER_ID = 'marked-crossings-selected';
+const MARKED_CROSSING_ICON_ID = 'marked-crossing-zebra';
+const CHANGES_LAYER_IDS = ['changes-halo', 'changes-points'] as const;
+
+// Icons are rasterized once per map by `addCrossingIcons`.
+
+// Red warning triangle on a white disc.
+const UNMARKED_CROSSING_ICON_SVG =
+  '<svg viewBox="-2.4 -2.4 28.80 28.80" width="40" height="40" fill="none" xmlns="http://www.w3.org/2000/svg">'
+  + '<rect x="-2.4" y="-2.4" width="28.80" height="28.80" rx="14.4" fill="#ffffff"></rect>'
+  + '<path opacity="0.1" d="M10.2501 5.147L3.64909 17.0287C2.9085 18.3618 3.87244 20 5.39741 20H18.5994C20.1243 20 21.0883 18.3618 20.3477 17.0287L13.7467 5.147C12.9847 3.77538 11.0121 3.77538 10.2501 5.147Z" fill="#ff0000"></path>'
+  + '<path d="M12 10V13" stroke="#ff0000" stroke-width="2" stroke-linecap="round"></path>'
+  + '<path d="M12 16V15.9888" stroke="#ff0000" stroke-width="2" stroke-linecap="round"></path>'
+  + '<path d="M10.2515 5.147L3.65056 17.0287C2.90997 18.3618 3.8739 20 5.39887 20H18.6008C20.1258 20 21.0897 18.3618 20.3491 17.0287L13.7482 5.147C12.9861 3.77538 11.0135 3.77538 10.2515 5.147Z" stroke="#ff0000" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>'
+  + '</svg>';
+
+// Green zebra stripes on a white disc; smaller than the warning so hazards stand out.
+const MARKED_CROSSING_ICON_SVG =
+  '<svg viewBox="0 0 24 24" width="32" height="32" xmlns="http://www.w3.org/2000/svg">'
+  + '<circle cx="12" cy="12" r="11" fill="#ffffff" stroke="#1b5e20" stroke-width="1.5"></circle>'
+  + '<rect x="6" y="6.5" width="2.4" height="11" rx="0.6" fill="#1b5e20"></rect>'
+  + '<rect x="10.8" y="6.5" width="2.4" height="11" rx="0.6" fill="#1b5e20"></rect>'
+  + '<rect x="15.6" y="6.5" width="2.4" height="11" rx="0.6" fill="#1b5e20"></rect>'
+  + '</svg>';
+
+const REPORT_ISSUE_URL_TEMPLATE = process.env.NEXT_PUBLIC_REPORT_ISSUE_URL_TEMPLATE;
+
+// Opt-in: serve the basemap and glyphs from MapTiler instead of the self-hosted files.
+const MAPTILER_KEY = process.env.NEXT_PUBLIC_MAPTILER_KEY;
+
+const OSM_ATTRIBUTION = '<a href="https://www.openstreetmap.org/copyright" target="_blank">&copy; OpenStreetMap contributors</a>';
+
+// What a click on the map does: select features, pick route endpoints or draw a report area.
+type MapMode = 'browse' | 'route' | 'area' | 'nearest' | 'compare' | 'whatif';
+
 type ViewportParams = {
   lat: number;
   lng: number;
   zoom: number;
 };
 
+// Share links name the feature (`feature=street|crossing&id=…`) so it can be looked up by id
+// once its tile loads. Links without it fall back to whatever renders at lat/lng. Streets are
+// `id=<road_osm_id>&seg=<segment_no>`, which survive re-analysis; links from before `seg`
+// carry the per-run `osm_id` row number instead.
+type SharedFeatureRef = {
+  kind: 'street' | 'crossing';
+  id: number;
+  segmentNo?: number;
+};
+
 type PinnedParams = {
   lngLat: maplibregl.LngLat;
   zoom?: number;
+  feature: SharedFeatureRef | null;
 };
 
-function buildUnmarkedCrossingTitle(roadName: string | null): string {
+const SHARED_FEATURE_LAYERS = {
+  street: { sourceLayer: 'streets', idKey: 'road_osm_id' },
+  crossing: { sourceLayer: 'unmarked_crossings', idKey: 'point_osm_id' },
+} as const;
+
+const SHARE_URL_KEYS = ['pin', 'feature', 'id', 'seg'] as const;
+
+// What-if Frogger Index weights; absent means the official weights.
+const WEIGHTS_URL_KEY = 'weights';
+
+function buildUnmarkedCrossingTitle(roadName: string | null, t: Messages): string {
   const trimmed = (roadName ?? '').trim();
-  if (!trimmed) return 'Unmarked crossing';
-  return `Unmarked crossing on ${trimmed}`;
+  if (!trimmed) return t.map.unmarkedCrossing;
+  return t.map.unmarkedCrossingOn(trimmed);
 }
 
 function parseInitialViewportFromUrl(): ViewportParams | null {
@@ -72,12 +215,36 @@ function parsePinnedParamsFromUrl(): PinnedParams | null {
   const zoomRaw = params.get('z') ?? params.get('zoom');
   const zoom = zoomRaw ? Number(zoomRaw) : undefined;
 
+  const kind = params.get('feature');
+  const idRaw = params.get('id');
+  const id = idRaw ? Number(idRaw) : NaN;
+  const segRaw = params.get('seg');
+  const segmentNo = segRaw ? Number(segRaw) : NaN;
+  let feature: SharedFeatureRef | null = null;
+  if ((kind === 'street' || kind === 'crossing') && Number.isFinite(id)) {
+    feature = kind === 'street' && Number.isFinite(segmentNo) ? { kind, id, segmentNo } : { kind, id };
+  }
+
   return {
     lngLat: new maplibregl.LngLat(lng, lat),
     zoom: typeof zoom === 'number' && Number.isFinite(zoom) ? zoom : undefined,
+    feature,
   };
 }
 
+// Searches every loaded tile, not just what's rendered, so overlapping features and
+// features under panels are still found.
+function findSharedFeature(map: maplibregl.Map, ref: SharedFeatureRef): maplibregl.MapGeoJSONFeature | null {
+  const { sourceLayer, idKey } = SHARED_FEATURE_LAYERS[ref.kind];
+  const matches = (props: Record<string, unknown>, key: string, value: number) => props[key] != null && Number(props[key]) === value;
+  const feature = map.querySourceFeatures('sketchiness', { sourceLayer }).find((f) => {
+    const props = (f.properties ?? {}) as Record<string, unknown>;
+    if (ref.kind === 'street' && ref.segmentNo === undefined) return matches(props, 'osm_id', ref.id);
+    return matches(props, idKey, ref.id) && (ref.segmentNo === undefined || matches(props, 'segment_no', ref.segmentNo));
+  });
+  return (feature as maplibregl.MapGeoJSONFeature | undefined) ?? null;
+}
+
 function setUrlViewport({ lat, lng, zoom }: ViewportParams) {
   if (typeof window === 'undefined') return;
 
@@ -90,13 +257,40 @@ function setUrlViewport({ lat, lng, zoom }: ViewportParams) {
   window.history.replaceState(null, '', url.toString());
 }
 
+// Switching regions drops the old viewport/pin so the new map opens on the region's default view.
+function setUrlRegion(regionId: RegionId) {
+  if (typeof window === 'undefined') return;
+
+  const url = new URL(window.location.href);
+  url.searchParams.set('region', regionId);
+  for (const key of ['lat', 'lng', 'z', 'zoom', ...SHARE_URL_KEYS]) {
+    url.searchParams.delete(key);
+  }
+
+  window.history.replaceState(null, '', url.toString());
+}
+
+function parseFroggerWeightsFromUrl(): FroggerWeights | null {
+  if (typeof window === 'undefined') return null;
+  return parseFroggerWeightsParam(new URLSearchParams(window.location.search).get(WEIGHTS_URL_KEY));
+}
+
+function setUrlFroggerWeights(weights: FroggerWeights) {
+  if (typeof window === 'undefined') return;
+
+  const url = new URL(window.location.href);
+  if (isOfficialFroggerWeights(weights)) url.searchParams.delete(WEIGHTS_URL_KEY);
+  else url.searchParams.set(WEIGHTS_URL_KEY, formatFroggerWeightsParam(weights));
+  window.history.replaceState(null, '', url.toString());
+}
+
 function clearUrlPin() {
   if (typeof window === 'undefined') return;
 
   const url = new URL(window.location.href);
-  if (!url.searchParams.has('pin')) return;
+  if (!SHARE_URL_KEYS.some((key) => url.searchParams.has(key))) return;
 
-  url.searchParams.delete('pin');
+  for (const key of SHARE_URL_KEYS) url.searchParams.delete(key);
   window.history.replaceState(null, '', url.toString());
 }
 
@@ -112,21 +306,399 @@ function buildReportIssueUrl(template: string, lngLat: maplibregl.LngLat, zoom?:
     .replaceAll('{zoom}', encodeURIComponent(zoomStr));
 }
 
-function buildBasicOpenMapTilesStyle(pmtilesUrl: string, sketchinessUrl: string): StyleSpecification {
+function parseScore(value: unknown): number | null {
+  const num = typeof value === 'number' ? value : value != null ? Number(value) : Number.NaN;
+  return Number.isFinite(num) ? num : null;
+}
+
+// Boolean tile props (`lanes_inferred`, ...) can come back as strings or 0/1 depending on the exporter.
+function parseFlag(value: unknown): boolean {
+  return value === true || value === 'true' || value === 1;
+}
+
+// Streets carry `speed_score`, ...; unmarked crossings the same names with a `frogger_` prefix.
+function parseFroggerComponents(props: Record<string, unknown>, prefix: '' | 'frogger_'): FroggerComponents | null {
+  const components = {
+    speed: parseScore(props[`${prefix}speed_score`]),
+    lanes: parseScore(props[`${prefix}lanes_score`]),
+    volume: parseScore(props[`${prefix}volume_score`]),
+    distance: parseScore(props[`${prefix}distance_from_crosswalk_score`]),
+  };
+  // Tiles exported before the components were added have none of them.
+  return Object.values(components).some((v) => v !== null) ? components : null;
+}
+
+// OSM ids carried by each layer. Streets' `osm_id` is the tiles' per-segment row number, so
+// it's left out; the way id is `road_osm_id` (tiles exported before it was added have none).
+const REPORT_ID_KEYS: Record<ReportTarget['layer'], readonly string[]> = {
+  streets: ['road_osm_id', 'nearest_marked_crosswalk_id'],
+  unmarked_crossings: ['point_osm_id', 'frogger_road_osm_id'],
+};
+
+function buildReportTarget(
+  layer: ReportTarget['layer'],
+  props: Record<string, unknown>,
+  coordinates: maplibregl.LngLat,
+  zoom: number,
+  title: string,
+): ReportTarget {
+  const idKeys = REPORT_ID_KEYS[layer];
+  const osmIds: Record<string, string> = {};
+  const properties: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(props)) {
+    if (idKeys.includes(key)) {
+      if (value != null) osmIds[key] = String(value);
+    } else if (key !== 'osm_id') {
+      properties[key] = value;
+    }
+  }
+
+  return {
+    layer,
+    title,
+    osmIds,
+    properties,
+    lngLat: [coordinates.lng, coordinates.lat],
+    zoom,
+  };
+}
+
+function buildFeatureInfoFromProps(
+  props: maplibregl.GeoJSONFeature['properties'],
+  coordinates: maplibregl.LngLat,
+  zoom: number,
+  locale: Locale,
+): FeatureInfo | null {
+  if (!props) return null;
+
+  const t = messagesFor(locale);
+  const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+  let displayName = props.name;
+  const highwayType = props.highway ? capitalize(props.highway) : t.map.unknownHighwayType;
+  const isResidential = props.highway === 'residential' || props.highway === 'living_street';
+
+  if (!displayName) {
+    displayName = t.map.roadOfType(props.highway ? formatHighway(props.highway, locale) : t.map.unknownHighwayType);
+  }
+
+  const distanceMeters =
+    typeof props.dist_to_crossing_meters === 'number' ? Math.round(props.dist_to_crossing_meters) : null;
+
+  const froggerIndexRaw = (props as Record<string, unknown>).frogger_index;
+  const froggerIndex = typeof froggerIndexRaw === 'number' ? froggerIndexRaw : froggerIndexRaw != null ? Number(froggerIndexRaw) : null;
+
+  const lanesRaw = (props as Record<string, unknown>).lanes;
+  const lanes = typeof lanesRaw === 'number' ? lanesRaw : lanesRaw != null ? Number(lanesRaw) : null;
+
+  const maxspeed = typeof (props as Record<string, unknown>).maxspeed === 'string' ? ((props as Record<string, unknown>).maxspeed as string) : null;
+
+  const latLng = `${coordinates.lat},${coordinates.lng}`;
+  const streetViewUrl = `https://www.google.com/maps/@?api=1&map_action=pano&viewpoint=${encodeURIComponent(latLng)}`;
+
+  const osmViewUrl = `https://www.openstreetmap.org/?mlat=${encodeURIComponent(
+    String(coordinates.lat),
+  )}&mlon=${encodeURIComponent(String(coordinates.lng))}#map=19/${encodeURIComponent(
+    String(coordinates.lat),
+  )}/${encodeURIComponent(String(coordinates.lng))}`;
+
+  const googleFaviconUrl = 'https://www.google.com/s2/favicons?domain=google.com&sz=32';
+  const osmFaviconUrl = 'https://www.google.com/s2/favicons?domain=openstreetmap.org&sz=32';
+
+  const reportIssueUrl = REPORT_ISSUE_URL_TEMPLATE ? buildReportIssueUrl(REPORT_ISSUE_URL_TEMPLATE, coordinates, zoom) : null;
+
+  return {
+    title: displayName,
+    highwayType,
+    isResidential,
+    distanceMeters,
+    froggerIndex: typeof froggerIndex === 'number' && Number.isFinite(froggerIndex) ? froggerIndex : null,
+    lanes: typeof lanes === 'number' && Number.isFinite(lanes) ? lanes : null,
+    maxspeed,
+    speedMph: parseScore((props as Record<string, unknown>).speed_mph),
+    lanesInferred: parseFlag((props as Record<string, unknown>).lanes_inferred),
+    speedInferred: parseFlag((props as Record<string, unknown>).speed_inferred),
+    froggerComponents: parseFroggerComponents(props as Record<string, unknown>, ''),
+    osmId: props.osm_id != null ? String(props.osm_id) : null,
+    roadOsmId: props.road_osm_id != null ? String(props.road_osm_id) : null,
+    segmentNo: parseScore((props as Record<string, unknown>).segment_no),
+    nearestMarkedCrosswalkId: props.nearest_marked_crosswalk_id != null ? String(props.nearest_marked_crosswalk_id) : null,
+    lngLat: coordinates,
+    actions: [
+      { href: streetViewUrl, label: 'Street View', iconUrl: googleFaviconUrl },
+      { href: osmViewUrl, label: 'OSM', iconUrl: osmFaviconUrl },
+    ],
+    reportIssueUrl,
+    reportTarget: buildReportTarget('streets', props as Record<string, unknown>, coordinates, zoom, displayName),
+    zoom,
+  } satisfies FeatureInfo;
+}
+
+function buildUnmarkedCrossingInfoFromProps(
+  props: maplibregl.GeoJSONFeature['properties'],
+  coordinates: maplibregl.LngLat,
+  zoom: number,
+  locale: Locale,
+): UnmarkedCrossingInfo | null {
+  if (!props) return null;
+
+  const googleFaviconUrl = 'https://www.google.com/s2/favicons?domain=google.com&sz=32';
+  const osmFaviconUrl = 'https://www.google.com/s2/favicons?domain=openstreetmap.org&sz=32';
+
+  const latLng = `${coordinates.lat},${coordinates.lng}`;
+  const streetViewUrl = `https://www.google.com/maps/@?api=1&map_action=pano&viewpoint=${encodeURIComponent(latLng)}`;
+  const osmViewUrl = `https://www.openstreetmap.org/?mlat=${encodeURIComponent(
+    String(coordinates.lat),
+  )}&mlon=${encodeURIComponent(String(coordinates.lng))}#map=19/${encodeURIComponent(
+    String(coordinates.lat),
+  )}/${encodeURIComponent(String(coordinates.lng))}`;
+
+  const reportIssueUrl = REPORT_ISSUE_URL_TEMPLATE
+    ? buildReportIssueUrl(REPORT_ISSUE_URL_TEMPLATE, coordinates, zoom)
+    : null;
+
+  const p = props as Record<string, unknown>;
+
+  const idRaw = p.point_osm_id;
+  const id = typeof idRaw === 'number' ? idRaw : Number(idRaw);
+  if (!Number.isFinite(id)) return null;
+
+  const froggerIndexRaw = p.frogger_index;
+  const froggerIndex = typeof froggerIndexRaw === 'number' ? froggerIndexRaw : Number(froggerIndexRaw);
+
+  const lanesRaw = p.frogger_lanes;
+  const lanes = typeof lanesRaw === 'number' ? lanesRaw : lanesRaw != null ? Number(lanesRaw) : null;
+
+  const distRaw = p.frogger_dist_to_marked_crosswalk_m;
+  const distanceToMarkedCrosswalkMeters =
+    typeof distRaw === 'number' ? distRaw : distRaw != null ? Number(distRaw) : null;
+
+  const maxspeed = typeof p.frogger_maxspeed === 'string' ? p.frogger_maxspeed : null;
+  const roadName = typeof p.frogger_road_name === 'string' ? p.frogger_road_name : null;
+  const roadHighway = typeof p.frogger_road_highway === 'string' ? p.frogger_road_highway : null;
+
+  const speedMphRaw = p.frogger_speed_mph;
+  const speedMph = typeof speedMphRaw === 'number' ? speedMphRaw : speedMphRaw != null ? Number(speedMphRaw) : null;
+
+  const title = buildUnmarkedCrossingTitle(roadName, messagesFor(locale));
+
+  return {
+    id,
+    title,
+    roadName,
+    lngLat: coordinates,
+    froggerIndex: Number.isFinite(froggerIndex) ? froggerIndex : 0,
+    lanes: Number.isFinite(lanes as number) ? (lanes as number) : null,
+    maxspeed,
+    speedMph: Number.isFinite(speedMph as number) ? (speedMph as number) : null,
+    lanesInferred: parseFlag(p.frogger_lanes_inferred),
+    speedInferred: parseFlag(p.frogger_speed_inferred),
+    roadOsmId: p.frogger_road_osm_id != null ? String(p.frogger_road_osm_id) : null,
+    distanceToMarkedCrosswalkMeters: Number.isFinite(distanceToMarkedCrosswalkMeters as number)
+      ? (distanceToMarkedCrosswalkMeters as number)
+      : null,
+    roadHighway,
+    froggerComponents: parseFroggerComponents(p, 'frogger_'),
+    actions: [
+      { href: streetViewUrl, label: 'Street View', iconUrl: googleFaviconUrl },
+      { href: osmViewUrl, label: 'OSM', iconUrl: osmFaviconUrl },
+    ],
+    reportIssueUrl,
+    reportTarget: buildReportTarget('unmarked_crossings', p, coordinates, zoom, title),
+    zoom,
+  } satisfies UnmarkedCrossingInfo;
+}
+
+type ExportFormat = 'geojson' | 'csv';
+
+// OSM ids only: the tiles' street `osm_id` is a per-run row number that can't be joined
+// against OSM. A crossing's `roadOsmId` is the way it crosses.
+type ExportRow = {
+  layer: 'streets' | 'unmarked_crossings';
+  roadOsmId: string | null;
+  segmentNo: number | null;
+  pointOsmId: string | null;
+  name: string | null;
+  highway: string | null;
+  distanceMeters: number | null;
+  maxspeed: string | null;
+  speedMph: number | null;
+  lanes: number | null;
+  lanesInferred: boolean;
+  speedInferred: boolean;
+  froggerIndex: number | null;
+  components: FroggerComponents | null;
+  lngLat: maplibregl.LngLat;
+};
+
+// CSV rows reuse the info panel parsers so spreadsheets show the same numbers as the map.
+function buildExportRow(feature: GeoJSON.Feature, layer: ExportRow['layer']): ExportRow | null {
+  const point = feature.geometry ? representativePoint(feature.geometry) : null;
+  if (!point) return null;
+
+  const lngLat = new maplibregl.LngLat(point[0], point[1]);
+  const props = (feature.properties ?? {}) as Record<string, unknown>;
+
+  if (layer === 'unmarked_crossings') {
+    const info = buildUnmarkedCrossingInfoFromProps(props, lngLat, 0, DEFAULT_LOCALE);
+    if (!info) return null;
+    return {
+      layer,
+      roadOsmId: info.roadOsmId ?? null,
+      segmentNo: null,
+      pointOsmId: String(info.id),
+      name: info.roadName ?? null,
+      highway: info.roadHighway ?? null,
+      distanceMeters: info.distanceToMarkedCrosswalkMeters ?? null,
+      maxspeed: info.maxspeed ?? null,
+      speedMph: info.speedMph ?? null,
+      lanes: info.lanes ?? null,
+      lanesInferred: info.lanesInferred ?? false,
+      speedInferred: info.speedInferred ?? false,
+      froggerIndex: info.froggerIndex,
+      components: info.froggerComponents ?? null,
+      lngLat,
+    };
+  }
+
+  const info = buildFeatureInfoFromProps(props, lngLat, 0, DEFAULT_LOCALE);
+  if (!info) return null;
+  return {
+    layer,
+    roadOsmId: info.roadOsmId ?? null,
+    segmentNo: info.segmentNo ?? null,
+    pointOsmId: null,
+    name: typeof props.name === 'string' ? props.name : null,
+    highway: typeof props.highway === 'string' ? props.highway : null,
+    distanceMeters: info.distanceMeters ?? null,
+    maxspeed: info.maxspeed ?? null,
+    speedMph: parseScore(props.speed_mph),
+    lanes: info.lanes ?? null,
+    lanesInferred: info.lanesInferred ?? false,
+    speedInferred: info.speedInferred ?? false,
+    froggerIndex: info.froggerIndex ?? null,
+    components: info.froggerComponents ?? null,
+    lngLat,
+  };
+}
+
+const EXPORT_CSV_COLUMNS: CsvColumn<ExportRow>[] = [
+  { header: 'layer', value: (r) => r.layer },
+  { header: 'road_osm_id', value: (r) => r.roadOsmId },
+  { header: 'segment_no', value: (r) => r.segmentNo },
+  { header: 'point_osm_id', value: (r) => r.pointOsmId },
+  { header: 'name', value: (r) => r.name },
+  { header: 'highway', value: (r) => r.highway },
+  { header: 'dist_to_marked_crossing_m', value: (r) => r.distanceMeters },
+  { header: 'maxspeed', value: (r) => r.maxspeed },
+  { header: 'speed_mph', value: (r) => r.speedMph },
+  { header: 'speed_inferred', value: (r) => r.speedInferred },
+  { header: 'lanes', value: (r) => r.lanes },
+  { header: 'lanes_inferred', value: (r) => r.lanesInferred },
+  { header: 'frogger_index', value: (r) => r.froggerIndex },
+  { header: 'frogger_difficulty', value: (r) => (r.froggerIndex === null ? null : froggerDifficultyLabel(r.froggerIndex)) },
+  { header: 'speed_score', value: (r) => r.components?.speed },
+  { header: 'lanes_score', value: (r) => r.components?.lanes },
+  { header: 'volume_score', value: (r) => r.components?.volume },
+  { header: 'distance_from_crosswalk_score', value: (r) => r.components?.distance },
+  { header: 'lat', value: (r) => r.lngLat.lat.toFixed(6) },
+  { header: 'lng', value: (r) => r.lngLat.lng.toFixed(6) },
+];
+
+// Without a drawn area this is what is on screen (so legend filters apply); with one, every
+// analyzed street and unmarked crossing inside it. Used by export and the hazard list.
+function collectSketchinessFeatures(map: maplibregl.Map, ring: readonly LngLatTuple[] | null, unmarkedThreshold: number) {
+  const streets = ring
+    ? map.querySourceFeatures('sketchiness', { sourceLayer: 'streets' }).filter((f) => isFeatureInRing(f, ring))
+    : map.queryRenderedFeatures({ layers: [...SKETCHINESS_LAYER_IDS] });
+  // Crossing symbols declutter, so read the source rather than only the placed icons.
+  const bounds = map.getBounds();
+  const crossings = map
+    .querySourceFeatures('sketchiness', {
+      sourceLayer: 'unmarked_crossings',
+      filter: buildUnmarkedCrossingFilter(ring ? Number.NEGATIVE_INFINITY : unmarkedThreshold),
+    })
+    .filter((f) =>
+      ring
+        ? isFeatureInRing(f, ring)
+        : f.geometry.type === 'Point' && bounds.contains(f.geometry.coordinates as LngLatTuple),
+    );
+
+  return {
+    streets: mergeTileFeatures(streets, (f) => JSON.stringify(f.properties ?? {})),
+    crossings: mergeTileFeatures(crossings, (f) => String(f.properties?.point_osm_id)),
+  };
+}
+
+function collectHazardItems(map: maplibregl.Map, unmarkedThreshold: number): HazardItem[] {
+  const { streets, crossings } = collectSketchinessFeatures(map, null, unmarkedThreshold);
+  return buildHazardList(streets, crossings);
+}
+
+function exportFeatures(
+  map: maplibregl.Map,
+  ring: readonly LngLatTuple[] | null,
+  unmarkedThreshold: number,
+  format: ExportFormat,
+  filenameBase: string,
+) {
+  const { streets, crossings } = collectSketchinessFeatures(map, ring, unmarkedThreshold);
+
+  if (format === 'geojson') {
+    const features = [
+      // Streets keep road_osm_id/segment_no; their `osm_id` is only the export's row number.
+      ...streets.map((f) => {
+        const properties: GeoJSON.GeoJsonProperties = { layer: 'streets', ...f.properties };
+        delete properties.osm_id;
+        return { ...f, properties };
+      }),
+      ...crossings.map((f) => ({ ...f, properties: { layer: 'unmarked_crossings', ...f.properties } })),
+    ];
+    downloadFile(`${filenameBase}.geojson`, toGeoJson(features), 'application/geo+json');
+    return;
+  }
+
+  const rows = [
+    ...streets.map((f) => buildExportRow(f, 'streets')),
+    ...crossings.map((f) => buildExportRow(f, 'unmarked_crossings')),
+  ].filter((row): row is ExportRow => row !== null);
+  downloadFile(`${filenameBase}.csv`, toCsv(rows, EXPORT_CSV_COLUMNS), 'text/csv;charset=utf-8');
+}
+
+// By default the basemap comes from the region's Planetiler PMTiles (OpenMapTiles schema)
+// and labels use the glyph ranges bundled in public/fonts (see scripts/fetch-fonts.sh).
+function buildBasemapSource(pmtilesUrl: string, glyphsUrl: string): { glyphs: string; omtiles: VectorSourceSpecification } {
+  if (MAPTILER_KEY) {
+    const key = encodeURIComponent(MAPTILER_KEY);
+    return {
+      glyphs: `https://api.maptiler.com/fonts/{fontstack}/{range}.pbf?key=${key}`,
+      omtiles: {
+        type: 'vector',
+        url: `https://api.maptiler.com/tiles/v3/tiles.json?key=${key}`,
+        attribution: `<a href="https://www.maptiler.com/copyright/" target="_blank">&copy; MapTiler</a> ${OSM_ATTRIBUTION}`,
+      },
+    };
+  }
+
+  return {
+    glyphs: glyphsUrl,
+    omtiles: {
+      type: 'vector',
+      url: `pmtiles://${pmtilesUrl}`,
+      attribution: `<a href="https://openmaptiles.org/" target="_blank">&copy; OpenMapTiles</a> ${OSM_ATTRIBUTION}`,
+    },
+  };
+}
+
+function buildBasicOpenMapTilesStyle(pmtilesUrl: string, sketchinessUrl: string, glyphsUrl: string): StyleSpecification {
+  const basemap = buildBasemapSource(pmtilesUrl, glyphsUrl);
+
   const SKETCHINESS_CAP_SWITCH_ZOOM = 15;
 
   const sketchinessLinePaint = {
     'line-width': ['interpolate', ['linear'], ['zoom'], 10, 2, 15, 5, 20, 12],
-    // Residential streets are always green; other roads scale by distance.
-    'line-color': [
-      'case',
-      ['any',
-        ['==', ['get', 'highway'], 'residential'],
-        ['==', ['get', 'highway'], 'living_street'],
-      ],
-      '#4caf50',
-      ['interpolate', ['linear'], ['get', 'dist_to_crossing_meters'], 0, '#4caf50', 100, '#fdd835', 200, '#e53935', 500, '#b71c1c'],
-    ],
+    // Recolored by `applySketchinessLayerStyle` when the metric switcher changes.
+    'line-color': buildLineColorExpression(STREET_METRICS.distance),
     // Differentiate marked vs unmarked crossings.
     // If nearest crossing is unmarked, render as dashed.
     'line-opacity': 0.8,
@@ -134,18 +706,32 @@ function buildBasicOpenMapTilesStyle(pmtilesUrl: string, sketchinessUrl: string)
 
   return {
     version: 8,
-    name: 'MapTiler Streets + Sketchiness',
-    glyphs: 'https://api.maptiler.com/fonts/{fontstack}/{range}.pbf?key=X9vdtkgWljJC5TAQyTee',
+    name: 'OpenMapTiles + Sketchiness',
+    glyphs: basemap.glyphs,
     sources: {
-      omtiles: {
-        type: 'vector',
-        url: 'https://api.maptiler.com/tiles/v3/tiles.json?key=X9vdtkgWljJC5TAQyTee',
-        attribution:
-          '<a href="https://www.maptiler.com/copyright/" target="_blank">&copy; MapTiler</a> <a href="https://www.openstreetmap.org/copyright" target="_blank">&copy; OpenStreetMap contributors</a>',
-      },
+      omtiles: basemap.omtiles,
       sketchiness: {
         type: 'vector',
         url: `pmtiles://${sketchinessUrl}`,
+        // Lets the selected street/crossing be highlighted with feature-state. Streets share
+        // their way's id, so selecting one segment outlines the whole way.
+        promoteId: { streets: 'road_osm_id', unmarked_crossings: 'point_osm_id', marked_crossings: 'point_osm_id' },
+      },
+      routes: {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
+      },
+      area: {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
+      },
+      nearest: {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
+      },
+      connector: {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
       },
     },
     layers: [
@@ -231,6 +817,33 @@ function buildBasicOpenMapTilesStyle(pmtilesUrl: string, sketchinessUrl: string)
           'line-opacity': 0.7,
         },
       },
+      // Outline under the selected street (all segments of the OSM way).
+      {
+        id: SKETCHINESS_SELECTED_LAYER_ID,
+        type: 'line',
+        source: 'sketchiness',
+        'source-layer': 'streets',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#111111',
+          'line-width': ['interpolate', ['linear'], ['zoom'], 10, 6, 15, 10, 20, 18],
+          'line-opacity': ['case', ['boolean', ['feature-state', 'selected'], false], 0.6, 0],
+        },
+      },
+      // "What changed" halo under the streets (hidden until toggled; see `setChangesVisible`).
+      {
+        id: 'changes-halo',
+        type: 'line',
+        source: 'sketchiness',
+        'source-layer': 'changes',
+        filter: ['in', ['geometry-type'], ['literal', ['LineString', 'MultiLineString']]],
+        layout: { visibility: 'none', 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': buildChangeColorExpression(),
+          'line-width': ['interpolate', ['linear'], ['zoom'], 10, 8, 15, 14, 20, 24],
+          'line-opacity': 0.55,
+        },
+      },
       // Sketchiness Layer
       {
         id: 'sketchiness-lines-out',
@@ -257,20 +870,170 @@ function buildBasicOpenMapTilesStyle(pmtilesUrl: string, sketchinessUrl: string)
         paint: sketchinessLinePaint,
       },
 
-      // Unmarked crossings hit-test layer (DOM markers are rendered separately).
-      // Keep this invisible but queryable so we can place Font Awesome markers for
-      // currently-visible points.
+      // Marked crosswalks (the points street distances are measured to). The selected
+      // street's nearest one is ringed and joined to it by `connector` (see `setConnectorData`).
+      {
+        id: 'connector-line',
+        type: 'line',
+        source: 'connector',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#1b5e20',
+          'line-width': 2,
+          'line-dasharray': [2, 2],
+        },
+      },
+      {
+        id: MARKED_CROSSINGS_SELECTED_LAYER_ID,
+        type: 'circle',
+        source: 'sketchiness',
+        'source-layer': 'marked_crossings',
+        paint: {
+          'circle-radius': ['interpolate', ['linear'], ['zoom'], 10, 9, 16, 12, 20, 15],
+          'circle-color': '#ffffff',
+          'circle-stroke-color': '#1b5e20',
+          'circle-stroke-width': 3,
+          'circle-opacity': ['case', ['boolean', ['feature-state', 'selected'], false], 1, 0],
+          'circle-stroke-opacity': ['case', ['boolean', ['feature-state', 'selected'], false], 1, 0],
+        },
+      },
+      {
+        id: MARKED_CROSSINGS_LAYER_ID,
+        type: 'symbol',
+        source: 'sketchiness',
+        'source-layer': 'marked_crossings',
+        minzoom: 14,
+        layout: {
+          'icon-image': MARKED_CROSSING_ICON_ID,
+          'icon-size': ['interpolate', ['linear'], ['zoom'], 14, 0.75, 16, 1, 20, 1.25],
+          'icon-padding': 1,
+        },
+      },
+
+      {
+        id: 'changes-points',
+        type: 'circle',
+        source: 'sketchiness',
+        'source-layer': 'changes',
+        filter: ['==', ['geometry-type'], 'Point'],
+        layout: { visibility: 'none' },
+        paint: {
+          'circle-radius': ['interpolate', ['linear'], ['zoom'], 10, 8, 16, 13, 20, 16],
+          'circle-color': 'rgba(0, 0, 0, 0)',
+          'circle-stroke-color': buildChangeColorExpression(),
+          'circle-stroke-width': 4,
+        },
+      },
+
+      // Unmarked crossings. Symbols collide with each other, so dense areas declutter on
+      // the GPU; higher Frogger Index crossings are placed first and win.
       {
-        id: 'unmarked-crossings-hit',
+        id: UNMARKED_CROSSINGS_SELECTED_LAYER_ID,
         type: 'circle',
         source: 'sketchiness',
         'source-layer': 'unmarked_crossings',
-        filter: ['>', ['get', 'frogger_index'], 0.2],
+        filter: buildUnmarkedCrossingFilter(DEFAULT_UNMARKED_FROGGER_THRESHOLD),
+        paint: {
+          'circle-radius': ['interpolate', ['linear'], ['zoom'], 10, 11, 16, 14, 20, 17],
+          'circle-color': '#ffffff',
+          'circle-stroke-color': '#e53935',
+          'circle-stroke-width': 2,
+          'circle-opacity': ['case', ['boolean', ['feature-state', 'selected'], false], 1, 0],
+          'circle-stroke-opacity': ['case', ['boolean', ['feature-state', 'selected'], false], 1, 0],
+        },
+      },
+      {
+        id: UNMARKED_CROSSINGS_LAYER_ID,
+        type: 'symbol',
+        source: 'sketchiness',
+        'source-layer': 'unmarked_crossings',
+        filter: buildUnmarkedCrossingFilter(DEFAULT_UNMARKED_FROGGER_THRESHOLD),
+        layout: {
+          'icon-image': UNMARKED_CROSSING_ICON_ID,
+          'icon-size': ['interpolate', ['linear'], ['zoom'], 10, 0.75, 16, 1, 20, 1.25],
+          'icon-padding': 2,
+          'symbol-sort-key': ['-', ['to-number', ['get', 'frogger_index'], 0]],
+        },
+      },
+
+      // Walking routes (see `computeRoutePlan`). Shortest underneath, lower-exposure on top.
+      {
+        id: 'route-shortest',
+        type: 'line',
+        source: 'routes',
+        filter: ['==', ['get', 'kind'], 'shortest'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#616161',
+          'line-width': ['interpolate', ['linear'], ['zoom'], 10, 3, 16, 6],
+          'line-dasharray': [1.5, 1.5],
+          'line-opacity': 0.9,
+        },
+      },
+      {
+        id: 'route-safer',
+        type: 'line',
+        source: 'routes',
+        filter: ['==', ['get', 'kind'], 'safer'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#1565c0',
+          'line-width': ['interpolate', ['linear'], ['zoom'], 10, 4, 16, 8],
+          'line-opacity': 0.85,
+        },
+      },
+
+      // Area being drawn or reported on (see `setAreaData`).
+      {
+        id: 'area-fill',
+        type: 'fill',
+        source: 'area',
+        filter: ['==', ['geometry-type'], 'Polygon'],
+        paint: { 'fill-color': '#1565c0', 'fill-opacity': 0.08 },
+      },
+      {
+        id: 'area-outline',
+        type: 'line',
+        source: 'area',
+        filter: ['in', ['geometry-type'], ['literal', ['Polygon', 'LineString']]],
+        paint: { 'line-color': '#1565c0', 'line-width': 2, 'line-dasharray': [2, 1] },
+      },
+      {
+        id: 'area-vertices',
+        type: 'circle',
+        source: 'area',
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': 4,
+          'circle-color': '#ffffff',
+          'circle-stroke-color': '#1565c0',
+          'circle-stroke-width': 2,
+        },
+      },
+
+      // Line from the user's location to the nearest marked crossing (see `setNearestData`).
+      {
+        id: 'nearest-line',
+        type: 'line',
+        source: 'nearest',
+        filter: ['==', ['geometry-type'], 'LineString'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#1b5e20',
+          'line-width': ['interpolate', ['linear'], ['zoom'], 10, 2, 16, 4],
+          'line-dasharray': [1, 1.5],
+        },
+      },
+      {
+        id: 'nearest-target',
+        type: 'circle',
+        source: 'nearest',
+        filter: ['==', ['geometry-type'], 'Point'],
         paint: {
-          'circle-radius': ['interpolate', ['linear'], ['zoom'], 10, 6, 16, 10, 20, 14],
-          'circle-color': '#000000',
-          'circle-opacity': 0.0,
-          'circle-stroke-width': 0,
+          'circle-radius': 8,
+          'circle-color': 'rgba(0, 0, 0, 0)',
+          'circle-stroke-color': '#1b5e20',
+          'circle-stroke-width': 3,
         },
       },
 
@@ -332,11 +1095,272 @@ function buildBasicOpenMapTilesStyle(pmtilesUrl: string, sketchinessUrl: string)
   } as StyleSpecification;
 }
 
+function applySketchinessLayerStyle(
+  map: maplibregl.Map,
+  metric: StreetMetric,
+  hiddenBuckets: ReadonlySet<LegendBucketId>,
+  unmarkedThreshold: number,
+  froggerWeights: FroggerWeights,
+) {
+  if (!map.getLayer(UNMARKED_CROSSINGS_LAYER_ID)) return;
+
+  const lineColor = buildLineColorExpression(metric, froggerWeights);
+  const bucketFilter = buildLegendBucketFilter(metric, hiddenBuckets, froggerWeights);
+  for (const layerId of SKETCHINESS_LAYER_IDS) {
+    map.setPaintProperty(layerId, 'line-color', lineColor);
+    map.setFilter(layerId, bucketFilter);
+  }
+  const crossingFilter = buildUnmarkedCrossingFilter(unmarkedThreshold);
+  map.setFilter(UNMARKED_CROSSINGS_LAYER_ID, crossingFilter);
+  map.setFilter(UNMARKED_CROSSINGS_SELECTED_LAYER_ID, crossingFilter);
+}
+
+function setChangesVisible(map: maplibregl.Map, visible: boolean) {
+  for (const layerId of CHANGES_LAYER_IDS) {
+    if (map.getLayer(layerId)) map.setLayoutProperty(layerId, 'visibility', visible ? 'visible' : 'none');
+  }
+}
+
+function addSvgIcon(map: maplibregl.Map, id: string, svg: string, size: number) {
+  const image = new Image(size, size);
+  image.onload = () => {
+    try {
+      if (!map.hasImage(id)) map.addImage(id, image, { pixelRatio: 2 });
+    } catch {
+      // The map was removed (region switch) before the image decoded.
+    }
+  };
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+function addCrossingIcons(map: maplibregl.Map) {
+  addSvgIcon(map, UNMARKED_CROSSING_ICON_ID, UNMARKED_CROSSING_ICON_SVG, 40);
+  addSvgIcon(map, MARKED_CROSSING_ICON_ID, MARKED_CROSSING_ICON_SVG, 32);
+}
+
+function setSelectedFeature(
+  map: maplibregl.Map,
+  sourceLayer: 'streets' | 'unmarked_crossings' | 'marked_crossings',
+  id: string | number | null,
+) {
+  if (!map.getSource('sketchiness')) return;
+  map.removeFeatureState({ source: 'sketchiness', sourceLayer });
+  if (id !== null) map.setFeatureState({ source: 'sketchiness', sourceLayer, id }, { selected: true });
+}
+
+// Endpoints further than this from any loaded street can't be routed sensibly.
+const ROUTE_MAX_SNAP_METERS = 300;
+
+// Below this tile zoom tippecanoe drops streets (`--drop-densest-as-needed`), so the graph
+// would have holes.
+const ROUTE_MIN_TILE_ZOOM = 14;
+
+// Builds the routing graph from the `streets` features in the currently loaded tiles, so
+// both endpoints must be on screen (the caller fits the map to them first). Only the
+// deepest loaded zoom is used: tiles of other zooms still in the cache cover the same
+// streets with coarser geometry.
+function computeRoutePlan(
+  map: maplibregl.Map,
+  start: maplibregl.LngLat,
+  end: maplibregl.LngLat,
+  t: Messages,
+): RoutePlan | string {
+  const loaded = map.querySourceFeatures('sketchiness', { sourceLayer: 'streets' });
+  const tileZoom = loaded.reduce((max, f) => Math.max(max, f._z), -1);
+  if (tileZoom < ROUTE_MIN_TILE_ZOOM) {
+    return t.map.routeTooLong;
+  }
+  const graph = buildRoutingGraph(loaded.filter((f) => f._z === tileZoom));
+
+  const startPoint: LngLatTuple = [start.lng, start.lat];
+  const endPoint: LngLatTuple = [end.lng, end.lat];
+  const startNode = nearestNode(graph, startPoint);
+  const endNode = nearestNode(graph, endPoint);
+
+  if (
+    startNode === null ||
+    endNode === null ||
+    haversineMeters(startPoint, graph.nodes[startNode]) > ROUTE_MAX_SNAP_METERS ||
+    haversineMeters(endPoint, graph.nodes[endNode]) > ROUTE_MAX_SNAP_METERS
+  ) {
+    return t.map.routeSnapTooFar;
+  }
+
+  const shortest = findRoute(graph, startNode, endNode, shortestPathCost);
+  const safer = findRoute(graph, startNode, endNode, lowExposureCost);
+  if (!shortest || !safer) {
+    return t.map.routeNotConnected;
+  }
+
+  return { shortest, safer };
+}
+
+function setRouteData(map: maplibregl.Map, plan: RoutePlan | null) {
+  const source = map.getSource('routes') as maplibregl.GeoJSONSource | undefined;
+  if (!source) return;
+
+  source.setData({
+    type: 'FeatureCollection',
+    features: plan
+      ? [
+          { type: 'Feature', properties: { kind: 'shortest' }, geometry: { type: 'LineString', coordinates: plan.shortest.coordinates } },
+          { type: 'Feature', properties: { kind: 'safer' }, geometry: { type: 'LineString', coordinates: plan.safer.coordinates } },
+        ]
+      : [],
+  });
+}
+
+// Draws the area outline; `closed` once the shape is finished.
+function setAreaData(map: maplibregl.Map, vertices: readonly LngLatTuple[], closed: boolean) {
+  const source = map.getSource('area') as maplibregl.GeoJSONSource | undefined;
+  if (!source) return;
+
+  const features: GeoJSON.Feature[] = vertices.map((coordinates) => ({
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'Point', coordinates },
+  }));
+  if (closed && vertices.length >= 3) {
+    features.push({ type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [[...vertices, vertices[0]]] } });
+  } else if (vertices.length >= 2) {
+    features.push({ type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: [...vertices] } });
+  }
+
+  source.setData({ type: 'FeatureCollection', features });
+}
+
+function setNearestData(map: maplibregl.Map, result: NearestCrossingResult | null) {
+  const source = map.getSource('nearest') as maplibregl.GeoJSONSource | undefined;
+  if (!source) return;
+
+  const marked = result?.marked;
+  source.setData({
+    type: 'FeatureCollection',
+    features: marked
+      ? [
+          { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: [result.origin, marked.lngLat] } },
+          { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: marked.lngLat } },
+        ]
+      : [],
+  });
+}
+
+// Joins the selected street to its nearest marked crosswalk, if that crosswalk's tile is loaded.
+// Returns false when it isn't, so the caller can retry once more tiles arrive.
+function setConnectorData(map: maplibregl.Map, info: FeatureInfo | null): boolean {
+  const source = map.getSource('connector') as maplibregl.GeoJSONSource | undefined;
+  if (!source) return false;
+
+  const crosswalkId = info?.nearestMarkedCrosswalkId;
+  const crosswalk = crosswalkId
+    ? map
+        .querySourceFeatures('sketchiness', { sourceLayer: 'marked_crossings' })
+        .find((f) => String(f.properties?.point_osm_id) === crosswalkId && f.geometry.type === 'Point')
+    : undefined;
+
+  source.setData({
+    type: 'FeatureCollection',
+    features:
+      info && crosswalk?.geometry.type === 'Point'
+        ? [
+            {
+              type: 'Feature',
+              properties: {},
+              geometry: { type: 'LineString', coordinates: [[info.lngLat.lng, info.lngLat.lat], crosswalk.geometry.coordinates] },
+            },
+          ]
+        : [],
+  });
+  return !crosswalkId || !!crosswalk;
+}
+
+// Also limited to loaded tiles; the geolocate control zooms to the user before this runs.
+function computeNearestCrossings(map: maplibregl.Map, origin: LngLatTuple): NearestCrossingResult {
+  const marked = map.querySourceFeatures('sketchiness', { sourceLayer: 'marked_crossings' });
+  const unmarked = map.querySourceFeatures('sketchiness', { sourceLayer: 'unmarked_crossings' });
+  return findNearestCrossings(origin, marked, unmarked);
+}
+
+type AreaFeatures = {
+  streets: GeoJSON.Feature[];
+  crossings: GeoJSON.Feature[];
+};
+
+// Like `computeRoutePlan`, this only sees loaded tiles, so the caller fits the map to the area
+// first. The result is kept with the report, so later recomputes don't depend on the viewport.
+function collectAreaFeatures(map: maplibregl.Map): AreaFeatures {
+  return {
+    streets: map.querySourceFeatures('sketchiness', { sourceLayer: 'streets' }),
+    crossings: map.querySourceFeatures('sketchiness', { sourceLayer: 'unmarked_crossings' }),
+  };
+}
+
+function computeAreaReport(
+  { streets, crossings }: AreaFeatures,
+  ring: readonly LngLatTuple[],
+  unmarkedThreshold: number,
+  t: Messages,
+): AreaReport | string {
+  const report = buildAreaReport(streets, crossings, ring, unmarkedThreshold);
+  if (report.totalMeters <= 0) return t.map.areaEmpty;
+  return report;
+}
+
+// Double-clicking to finish a polygon also fires two clicks at the same spot.
+function dedupeVertices(vertices: readonly LngLatTuple[]): LngLatTuple[] {
+  const same = (a: LngLatTuple, b: LngLatTuple) => a[0].toFixed(6) === b[0].toFixed(6) && a[1].toFixed(6) === b[1].toFixed(6);
+  const out = vertices.filter((v, i) => i === 0 || !same(v, vertices[i - 1]));
+  while (out.length > 1 && same(out[0], out[out.length - 1])) out.pop();
+  return out;
+}
+
+// Speed buckets are defined in mph; metric labels are derived from the same bounds.
+function cursorForMode(mode: MapMode, overFeature: boolean): string {
+  if (mode === 'browse' || mode === 'compare') return overFeature ? 'pointer' : '';
+  return mode === 'nearest' || mode === 'whatif' ? '' : 'crosshair';
+}
+
+function formatSpeedBucketLabel(bucket: LegendBucket, units: UnitSystem, locale: Locale): string {
+  const t = messagesFor(locale).legend;
+  if (units === 'imperial' || bucket.isUnknown) return t.bucketLabels.speed?.[bucket.id] ?? '';
+
+  const fmt = (mph: number) => formatNumber(convertSpeed(mph, units), locale);
+  const label = speedUnitLabel(units);
+  if (bucket.max === null) return t.speedOver(fmt(bucket.min), label);
+  if (bucket.min === 0) return t.speedUnder(fmt(bucket.max), label);
+  return t.speedRange(fmt(bucket.min), fmt(bucket.max), label);
+}
+
+// `legendUnitIndex` is the "Change units" easter egg on top of the real unit setting.
+function formatLegendBucketLabel(
+  metric: StreetMetric,
+  bucket: LegendBucket,
+  units: UnitSystem,
+  locale: Locale,
+  legendUnitIndex: number,
+): string {
+  if (metric.id === 'speed') return formatSpeedBucketLabel(bucket, units, locale);
+  if (metric.id === 'frogger') {
+    const fmt = (value: number) => (value === 0 ? '0' : formatNumber(value, locale, 1));
+    const range = bucket.max === null ? `${fmt(bucket.min)}+` : `${fmt(bucket.min)}–${fmt(bucket.max)}`;
+    return `${messagesFor(locale).legend.bucketLabels.frogger?.[bucket.id] ?? ''} (${range})`;
+  }
+  if (metric.id !== 'distance') return messagesFor(locale).legend.bucketLabels[metric.id]?.[bucket.id] ?? '';
+
+  const unit = distanceUnitFor(units, locale, legendUnitIndex);
+  const fmt = (meters: number) => (meters === 0 ? '0' : formatNumber(meters / unit.metersPer, locale, unit.digits));
+  const range =
+    bucket.max === null
+      ? `${fmt(bucket.min)}${unit.suffix}+`
+      : `${fmt(bucket.min)}–${fmt(bucket.max)}${unit.suffix}`;
+
+  return bucket.includesResidential ? messagesFor(locale).legend.toCrossingAndResidential(range) : range;
+}
+
 export default function Map() {
   const mapContainerRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<maplibregl.Map | null>(null);
   const markerRef = useRef<maplibregl.Marker | null>(null);
-  const unmarkedCrossingMarkersRef = useRef<Map<number, maplibregl.Marker>>(new globalThis.Map());
   const selectedUnmarkedIdRef = useRef<number | null>(null);
   const previouslyHadSelectionRef = useRef(false);
   const unitsRejectTimeoutRef = useRef<number | null>(null);
@@ -347,37 +1371,217 @@ export default function Map() {
   const [legendUnitIndex, setLegendUnitIndex] = useState(0);
   const [showLegendButton, setShowLegendButton] = useState(true);
   const [unitsRejected, setUnitsRejected] = useState(false);
+  const [metricId, setMetricId] = useState<StreetMetricId>('distance');
+  const [hiddenBuckets, setHiddenBuckets] = useState<ReadonlySet<LegendBucketId>>(() => new Set());
+  const [unmarkedThreshold, setUnmarkedThreshold] = useState(DEFAULT_UNMARKED_FROGGER_THRESHOLD);
+  // Resolved after mount (URL, then localStorage) like `regionId`.
+  const [units, setUnits] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const t = messagesFor(locale);
+  // Map event handlers are bound once per style load, so they read the language through refs.
+  const localeRef = useRef(locale);
+  const messagesRef = useRef(t);
+  const metric = STREET_METRICS[metricId];
+  // Read by map event handlers, which are registered once per map instance.
+  const metricRef = useRef(metric);
+  const hiddenBucketsRef = useRef(hiddenBuckets);
+  const unmarkedThresholdRef = useRef(unmarkedThreshold);
+  // What-if weights only change how the Frogger Index metric is colored; panels, lists and
+  // exports keep the official `frogger_index` from the tiles.
+  const [froggerWeights, setFroggerWeights] = useState<FroggerWeights>(OFFICIAL_FROGGER_WEIGHTS);
+  const froggerWeightsRef = useRef(froggerWeights);
+
+  const [mode, setMode] = useState<MapMode>('browse');
+  const modeRef = useRef<MapMode>('browse');
+
+  // Route mode: clicks pick start/end points instead of selecting features.
+  const [routeStatus, setRouteStatus] = useState<RouteStatus>('pick-start');
+  const [routePlan, setRoutePlan] = useState<RoutePlan | null>(null);
+  const [routeError, setRouteError] = useState<string | null>(null);
+  const routeStartRef = useRef<maplibregl.LngLat | null>(null);
+  const routeEndRef = useRef<maplibregl.LngLat | null>(null);
+  const routeMarkersRef = useRef<maplibregl.Marker[]>([]);
+
+  // Area mode: clicks draw a polygon or rectangle to report on.
+  const [areaTool, setAreaTool] = useState<AreaTool>('polygon');
+  const [areaStatus, setAreaStatus] = useState<AreaStatus>('drawing');
+  const [areaVertexCount, setAreaVertexCount] = useState(0);
+  const [areaReport, setAreaReport] = useState<AreaReport | null>(null);
+  const [areaError, setAreaError] = useState<string | null>(null);
+  const areaToolRef = useRef<AreaTool>('polygon');
+  const areaVerticesRef = useRef<LngLatTuple[]>([]);
+  // Set once the shape is finished.
+  const areaRingRef = useRef<LngLatTuple[] | null>(null);
+  const areaFeaturesRef = useRef<AreaFeatures | null>(null);
+  // Resolved from the URL after mount so the static export renders the same markup on the server.
+  const [regionId, setRegionId] = useState<RegionId | null>(null);
+  const region = getRegion(regionId ?? DEFAULT_REGION_ID);
+  const maxspeedUnit = bareMaxspeedUnit(region.speedLimitZone);
+  const [searchIndexEntries, setSearchIndexEntries] = useState<SearchEntry[]>([]);
+  const [searchStatus, setSearchStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+  // Accessible list of the streets and crossings in view (see HazardList).
+  const [listOpen, setListOpen] = useState(false);
+  const [hazardItems, setHazardItems] = useState<HazardItem[]>([]);
+  const listOpenRef = useRef(false);
+
+  const [nearestStatus, setNearestStatus] = useState<NearestCrossingStatus>('searching');
+  const [nearestResult, setNearestResult] = useState<NearestCrossingResult | null>(null);
+  const [nearestError, setNearestError] = useState<string | null>(null);
+  const nearestOriginRef = useRef<LngLatTuple | null>(null);
+
+  const [changesVisible, setChangesVisibleState] = useState(false);
+  const changesVisibleRef = useRef(false);
+
+  // In-app issue reports (see ReportIssuePanel): the form for the selected feature, or just the outbox.
+  const [reportView, setReportView] = useState<'form' | 'outbox' | null>(null);
+  const [sharedFeatureMissing, setSharedFeatureMissing] = useState(false);
+  const [queuedReports, setQueuedReports] = useState(0);
+
+  // Compare mode: the main map shows the "after" build, CompareSwipe overlays the "before" one.
+  const compareBuilds = region.tiles.builds ?? [];
+  const [compareBuildIds, setCompareBuildIds] = useState<{ before: string; after: string } | null>(null);
+  const [compareSelection, setCompareSelection] = useState<CompareSelection | null>(null);
+  const compareMapRef = useRef<maplibregl.Map | null>(null);
+  const compareBeforeBuild = compareBuilds.find((b) => b.id === compareBuildIds?.before) ?? compareBuilds[0];
+  const compareAfterBuild = compareBuilds.find((b) => b.id === compareBuildIds?.after) ?? compareBuilds[compareBuilds.length - 1];
 
   useEffect(() => {
-    selectedUnmarkedIdRef.current = selectedUnmarked?.id ?? null;
-  }, [selectedUnmarked]);
+    const initialRegionId = parseRegionIdFromUrl() ?? DEFAULT_REGION_ID;
+    setRegionId(initialRegionId);
+    setUnits(readUnitSystem(getRegion(initialRegionId).units));
+    setLocale(readLocale());
+    const weights = parseFroggerWeightsFromUrl();
+    if (weights && !isOfficialFroggerWeights(weights)) {
+      setFroggerWeights(weights);
+      setMetricId('frogger');
+    }
+  }, []);
 
   useEffect(() => {
-    if (!unitsRejected) {
-      if (unitsRejectTimeoutRef.current !== null) {
-        window.clearTimeout(unitsRejectTimeoutRef.current);
-        unitsRejectTimeoutRef.current = null;
-      }
-      return;
-    }
+    localeRef.current = locale;
+    messagesRef.current = messagesFor(locale);
+    document.documentElement.lang = locale;
+    mapRef.current?.getCanvas().setAttribute('aria-label', messagesFor(locale).map.canvasLabel);
+  }, [locale]);
 
-    if (unitsRejectTimeoutRef.current !== null) {
-      window.clearTimeout(unitsRejectTimeoutRef.current);
-    }
+  useEffect(() => {
+    document.title = messagesFor(locale).map.regionTitle(region.name);
+  }, [region, locale]);
 
-    unitsRejectTimeoutRef.current = window.setTimeout(() => {
-      setUnitsRejected(false);
-      unitsRejectTimeoutRef.current = null;
-    }, 1500);
+  useEffect(() => {
+    listReports()
+      .then((reports) => setQueuedReports(reports.filter((r) => r.status === 'queued').length))
+      .catch(() => setQueuedReports(0));
+  }, []);
 
-    return () => {
-      if (unitsRejectTimeoutRef.current !== null) {
-        window.clearTimeout(unitsRejectTimeoutRef.current);
+  // A report is about the selected feature; picking another one (or none) closes the form.
+  useEffect(() => {
+    setReportView(null);
+  }, [selected, selectedUnmarked]);
+
+  useEffect(() => {
+    if (selected || selectedUnmarked) setSharedFeatureMissing(false);
+  }, [selected, selectedUnmarked]);
+
+  useEffect(() => {
+    selectedUnmarkedIdRef.current = selectedUnmarked?.id ?? null;
+
+    const map = mapRef.current;
+    if (map && map.isStyleLoaded()) setSelectedFeature(map, 'unmarked_crossings', selectedUnmarked?.id ?? null);
+  }, [selectedUnmarked]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !map.isStyleLoaded()) return;
+
+    setSelectedFeature(map, 'streets', selected?.roadOsmId ?? null);
+    setSelectedFeature(map, 'marked_crossings', selected?.nearestMarkedCrosswalkId ?? null);
+
+    // The crosswalk can be up to 500m away, outside the loaded tiles; try again once they settle.
+    if (setConnectorData(map, selected)) return;
+    const retry = () => setConnectorData(map, selected);
+    map.once('idle', retry);
+    return () => {
+      map.off('idle', retry);
+    };
+  }, [selected]);
+
+  useEffect(() => {
+    listOpenRef.current = listOpen;
+    const map = mapRef.current;
+    if (listOpen && map && map.isStyleLoaded()) {
+      setHazardItems(collectHazardItems(map, unmarkedThreshold));
+    }
+  }, [listOpen, unmarkedThreshold]);
+
+  useEffect(() => {
+    metricRef.current = metric;
+    hiddenBucketsRef.current = hiddenBuckets;
+    unmarkedThresholdRef.current = unmarkedThreshold;
+    froggerWeightsRef.current = froggerWeights;
+
+    for (const map of [mapRef.current, compareMapRef.current]) {
+      if (map && map.isStyleLoaded()) {
+        applySketchinessLayerStyle(map, metric, hiddenBuckets, unmarkedThreshold, froggerWeights);
+      }
+    }
+  }, [metric, hiddenBuckets, unmarkedThreshold, froggerWeights]);
+
+  useEffect(() => {
+    if (!unitsRejected) {
+      if (unitsRejectTimeoutRef.current !== null) {
+        window.clearTimeout(unitsRejectTimeoutRef.current);
+        unitsRejectTimeoutRef.current = null;
+      }
+      return;
+    }
+
+    if (unitsRejectTimeoutRef.current !== null) {
+      window.clearTimeout(unitsRejectTimeoutRef.current);
+    }
+
+    unitsRejectTimeoutRef.current = window.setTimeout(() => {
+      setUnitsRejected(false);
+      unitsRejectTimeoutRef.current = null;
+    }, 1500);
+
+    return () => {
+      if (unitsRejectTimeoutRef.current !== null) {
+        window.clearTimeout(unitsRejectTimeoutRef.current);
         unitsRejectTimeoutRef.current = null;
       }
     };
   }, [unitsRejected]);
 
+  useEffect(() => {
+    modeRef.current = mode;
+
+    const map = mapRef.current;
+    if (map) map.getCanvas().style.cursor = cursorForMode(mode, false);
+  }, [mode]);
+
+  useEffect(() => {
+    areaToolRef.current = areaTool;
+  }, [areaTool]);
+
+  useEffect(() => {
+    changesVisibleRef.current = changesVisible;
+
+    const map = mapRef.current;
+    if (map && map.isStyleLoaded()) setChangesVisible(map, changesVisible);
+  }, [changesVisible]);
+
+  // Keep a finished report in step with the unmarked crossing threshold slider, from the
+  // features collected with it (the map may have moved away from the area since).
+  useEffect(() => {
+    const ring = areaRingRef.current;
+    const features = areaFeaturesRef.current;
+    if (!ring || !features) return;
+
+    const result = computeAreaReport(features, ring, unmarkedThreshold, messagesRef.current);
+    if (typeof result !== 'string') setAreaReport(result);
+  }, [unmarkedThreshold]);
+
   // If this page was opened via a share link (pin=1), we keep `pin` in the URL
   // while the feature panel is open. Once the panel closes, remove it.
   useEffect(() => {
@@ -434,7 +1638,20 @@ export default function Map() {
     url.searchParams.set('lng', lngLat.lng.toFixed(6));
     url.searchParams.set('z', zoom.toFixed(2));
     url.searchParams.set('pin', '1');
+    url.searchParams.set('region', region.id);
     url.searchParams.delete('zoom');
+    // Tiles exported before `road_osm_id`/`segment_no` can only share streets by position.
+    const feature: SharedFeatureRef | null = selected
+      ? selected.roadOsmId && typeof selected.segmentNo === 'number'
+        ? { kind: 'street', id: Number(selected.roadOsmId), segmentNo: selected.segmentNo }
+        : null
+      : { kind: 'crossing', id: selectedUnmarked!.id };
+    for (const key of ['feature', 'id', 'seg']) url.searchParams.delete(key);
+    if (feature) {
+      url.searchParams.set('feature', feature.kind);
+      url.searchParams.set('id', String(feature.id));
+      if (feature.segmentNo !== undefined) url.searchParams.set('seg', String(feature.segmentNo));
+    }
 
     const shareText = url.toString();
 
@@ -443,28 +1660,81 @@ export default function Map() {
 
   const basePath = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
   const tilesBaseUrl = process.env.NEXT_PUBLIC_TILES_BASE_URL;
-  const reportIssueUrlTemplate = process.env.NEXT_PUBLIC_REPORT_ISSUE_URL_TEMPLATE;
 
-  const pmtilesUrl = useMemo(() => {
+  const tilesRoot = useMemo(() => {
     // If NEXT_PUBLIC_TILES_BASE_URL is set (local dev), use it.
     // Otherwise (static hosting), serve PMTiles from this site under basePath.
     const origin = typeof window !== 'undefined' ? window.location.origin : '';
-    const root = tilesBaseUrl ?? `${origin}${basePath}`;
-    return `${root}/basemap-seattle.pmtiles`;
+    return tilesBaseUrl ?? `${origin}${basePath}`;
   }, [basePath, tilesBaseUrl]);
 
-  const sketchinessUrl = useMemo(() => { 
-    if (typeof window === 'undefined') return ''; 
+  const pmtilesUrl = useMemo(() => resolveTileUrl(tilesRoot, region.tiles.basemap), [tilesRoot, region]);
+
+  const sketchinessUrl = useMemo(() => {
+    if (typeof window === 'undefined') return '';
+    return resolveTileUrl(tilesRoot, region.tiles.sketchiness);
+  }, [tilesRoot, region]);
+
+  // Fonts ship with the site (public/fonts), so they resolve against basePath, not the tiles root.
+  const glyphsUrl = useMemo(() => {
     const origin = typeof window !== 'undefined' ? window.location.origin : '';
-    const root = tilesBaseUrl ?? `${origin}${basePath}`;
-    // Otherwise (static hosting), serve PMTiles from this site under basePath. 
-    return `${root}/sketchiness-all.pmtiles`; 
-  }, [basePath, tilesBaseUrl]);
+    return `${origin}${basePath}/fonts/{fontstack}/{range}.pbf`;
+  }, [basePath]);
+
+  const style = useMemo(
+    () => buildBasicOpenMapTilesStyle(pmtilesUrl, sketchinessUrl, glyphsUrl),
+    [pmtilesUrl, sketchinessUrl, glyphsUrl],
+  );
+
+  const compareAfterUrl = compareAfterBuild ? resolveTileUrl(tilesRoot, compareAfterBuild.sketchiness) : null;
+  const compareBeforeStyle = useMemo(
+    () =>
+      compareBeforeBuild
+        ? buildBasicOpenMapTilesStyle(pmtilesUrl, resolveTileUrl(tilesRoot, compareBeforeBuild.sketchiness), glyphsUrl)
+        : null,
+    [pmtilesUrl, tilesRoot, compareBeforeBuild, glyphsUrl],
+  );
+
+  // Swap the main map's street tiles in place so layers, filters and the camera survive.
+  useEffect(() => {
+    const source = mapRef.current?.getSource('sketchiness') as maplibregl.VectorTileSource | undefined;
+    if (!source) return;
+
+    const url = `pmtiles://${mode === 'compare' && compareAfterUrl ? compareAfterUrl : sketchinessUrl}`;
+    if (source.url !== url) source.setUrl(url);
+  }, [mode, compareAfterUrl, sketchinessUrl]);
+
+  useEffect(() => {
+    if (!regionId) return;
+
+    let cancelled = false;
+    setSearchStatus('loading');
+
+    loadSearchIndex(resolveTileUrl(tilesRoot, searchIndexFileFor(region.tiles.sketchiness)))
+      .then((index) => {
+        if (cancelled) return;
+        // The index covers every city in the tiles; only offer streets in this region.
+        const [west, south, east, north] = region.bounds;
+        setSearchIndexEntries(
+          index.entries.filter(({ lngLat: [lng, lat] }) => lng >= west && lng <= east && lat >= south && lat <= north),
+        );
+        setSearchStatus('ready');
+      })
+      // SearchBox shows "Search unavailable" rather than failing silently.
+      .catch(() => {
+        if (cancelled) return;
+        setSearchIndexEntries([]);
+        setSearchStatus('unavailable');
+      });
 
-  const style = useMemo(() => buildBasicOpenMapTilesStyle(pmtilesUrl, sketchinessUrl), [pmtilesUrl, sketchinessUrl]);
+    return () => {
+      cancelled = true;
+    };
+  }, [tilesRoot, region, regionId]);
 
   useEffect(() => {
     if (!mapContainerRef.current) return;
+    if (!regionId) return;
 
     const protocol = new pmtiles.Protocol();
     maplibregl.addProtocol('pmtiles', protocol.tile);
@@ -481,313 +1751,107 @@ export default function Map() {
     const map = new maplibregl.Map({
       container: mapContainerRef.current,
       style,
-      center: initialViewport ? ([initialViewport.lng, initialViewport.lat] as [number, number]) : SEATTLE_CENTER,
-      zoom: initialViewport ? initialViewport.zoom : 11,
+      center: initialViewport ? ([initialViewport.lng, initialViewport.lat] as [number, number]) : region.center,
+      zoom: initialViewport ? initialViewport.zoom : region.zoom,
       minZoom: 2,
       maxZoom: 20,
       attributionControl: { compact: true },
+      locale: messagesRef.current.mapControls,
     });
 
     map.addControl(new maplibregl.NavigationControl({ showCompass: true }), 'top-right');
 
-    mapRef.current = map;
-
-    const UNMARKED_FROGGER_THRESHOLD = 0.2;
-
-    const createUnmarkedCrossingMarkerElement = () => {
-      const el = document.createElement('div');
-      el.className = 'unmarked-crossing-marker';
-      el.innerHTML =
-        '<svg viewBox="-2.4 -2.4 28.80 28.80" fill="none" xmlns="http://www.w3.org/2000/svg" stroke="#ffffff" aria-hidden="true">'
-        + '<g stroke-width="0"><rect x="-2.4" y="-2.4" width="28.80" height="28.80" rx="14.4" fill="#ffffff" strokewidth="0"></rect></g>'
-        + '<g stroke-linecap="round" stroke-linejoin="round"></g>'
-        + '<g>'
-        + '<path opacity="0.1" d="M10.2501 5.147L3.64909 17.0287C2.9085 18.3618 3.87244 20 5.39741 20H18.5994C20.1243 20 21.0883 18.3618 20.3477 17.0287L13.7467 5.147C12.9847 3.77538 11.0121 3.77538 10.2501 5.147Z" fill="#ff0000"></path>'
-        + '<path d="M12 10V13" stroke="#ff0000" stroke-width="2" stroke-linecap="round"></path>'
-        + '<path d="M12 16V15.9888" stroke="#ff0000" stroke-width="2" stroke-linecap="round"></path>'
-        + '<path d="M10.2515 5.147L3.65056 17.0287C2.90997 18.3618 3.8739 20 5.39887 20H18.6008C20.1258 20 21.0897 18.3618 20.3491 17.0287L13.7482 5.147C12.9861 3.77538 11.0135 3.77538 10.2515 5.147Z" stroke="#ff0000" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>'
-        + '</g>'
-        + '</svg>';
-      el.setAttribute('role', 'button');
-      el.setAttribute('tabindex', '0');
-      el.setAttribute('aria-label', 'Unmarked crossing');
-      return el;
-    };
+    // Locating the user opens the "nearest safe crossing" panel. The control zooms in
+    // before firing `geolocate`, so the crossings around the user are loaded by `idle`.
+    const geolocate = new maplibregl.GeolocateControl({
+      positionOptions: { enableHighAccuracy: true },
+      fitBoundsOptions: { maxZoom: 16 },
+    });
+    map.addControl(geolocate, 'top-right');
+    geolocate.on('geolocate', (position: GeolocationPosition) => {
+      locateNearestCrossing([position.coords.longitude, position.coords.latitude]);
+    });
+    geolocate.on('error', () => {
+      showNearestError(messagesRef.current.map.locationFailed);
+    });
+    geolocate.on('outofmaxbounds', () => {
+      showNearestError(messagesRef.current.map.locationOutside);
+    });
 
-    const syncUnmarkedCrossingMarkers = () => {
-      // Only attempt when the style/layers are loaded.
-      if (!map.isStyleLoaded()) return;
+    mapRef.current = map;
 
-      const canvas = map.getCanvas();
-      // Use rendered features so geometry coordinates are lng/lat.
-      const features = map.queryRenderedFeatures(
-        [
-          [0, 0],
-          [canvas.clientWidth, canvas.clientHeight],
-        ],
-        { layers: ['unmarked-crossings-hit'] },
+    map.on('load', () => {
+      addCrossingIcons(map);
+      applySketchinessLayerStyle(
+        map,
+        metricRef.current,
+        hiddenBucketsRef.current,
+        unmarkedThresholdRef.current,
+        froggerWeightsRef.current,
       );
+      setSelectedFeature(map, 'unmarked_crossings', selectedUnmarkedIdRef.current);
+      setChangesVisible(map, changesVisibleRef.current);
+    });
 
-      const bounds = map.getBounds();
-      const zoom = map.getZoom();
-
-      // Simple decluttering: keep at most one marker per NxN screen grid cell.
-      // Smaller cells at higher zoom means "show more" as you zoom in.
-      const cellSizePx = Math.round(Math.max(14, Math.min(36, 60 - 2.5 * zoom)));
-      const occupiedCells = new Set<string>();
-
-      const nextIds = new Set<number>();
-
-      for (const feature of features) {
-        const props = feature.properties;
-        if (!props) continue;
-
-        const idRaw = (props as Record<string, unknown>).point_osm_id;
-        const id = typeof idRaw === 'number' ? idRaw : Number(idRaw);
-        if (!Number.isFinite(id)) continue;
-
-        // Defensive: if the filter changes or tiles have weird types.
-        const froggerRaw = (props as Record<string, unknown>).frogger_index;
-        const frogger = typeof froggerRaw === 'number' ? froggerRaw : Number(froggerRaw);
-        if (!Number.isFinite(frogger) || frogger <= UNMARKED_FROGGER_THRESHOLD) continue;
-
-        if (feature.geometry.type !== 'Point') continue;
-        const coords = feature.geometry.coordinates;
-        if (!Array.isArray(coords) || coords.length < 2) continue;
-
-        const lng = Number(coords[0]);
-        const lat = Number(coords[1]);
-        if (!Number.isFinite(lng) || !Number.isFinite(lat)) continue;
-
-        // Keep only markers actually in the viewport.
-        if (!bounds.contains([lng, lat])) continue;
-
-        const screen = map.project([lng, lat]);
-        if (screen.x < 0 || screen.y < 0 || screen.x > canvas.clientWidth || screen.y > canvas.clientHeight) continue;
-
-        const cellX = Math.floor(screen.x / cellSizePx);
-        const cellY = Math.floor(screen.y / cellSizePx);
-        const cellKey = `${cellX}:${cellY}`;
-        const selectedId = selectedUnmarkedIdRef.current;
-        if (selectedId !== id) {
-          if (occupiedCells.has(cellKey)) continue;
-          occupiedCells.add(cellKey);
-        }
-
-        nextIds.add(id);
-
-        const lngLat = new maplibregl.LngLat(lng, lat);
-        const existing = unmarkedCrossingMarkersRef.current.get(id);
-        if (existing) {
-          existing.setLngLat(lngLat);
-          existing
-            .getElement()
-            .classList.toggle('unmarked-crossing-marker--selected', selectedUnmarkedIdRef.current === id);
-          continue;
-        }
+    const selectUnmarkedCrossing = (feature: maplibregl.MapGeoJSONFeature) => {
+      if (feature.geometry.type !== 'Point') return;
+      const [lng, lat] = feature.geometry.coordinates;
+      const info = buildUnmarkedCrossingInfoFromProps(
+        feature.properties,
+        new maplibregl.LngLat(lng, lat),
+        map.getZoom(),
+        localeRef.current,
+      );
+      if (!info) return;
 
-        const element = createUnmarkedCrossingMarkerElement();
-        element.classList.toggle('unmarked-crossing-marker--selected', selectedUnmarkedIdRef.current === id);
-        element.addEventListener('click', (evt) => {
-          evt.stopPropagation();
-
-          // If a share-link pin or previous street selection marker is present, clear it.
-          markerRef.current?.remove();
-          markerRef.current = null;
-
-          const googleFaviconUrl = 'https://www.google.com/s2/favicons?domain=google.com&sz=32';
-          const osmFaviconUrl = 'https://www.google.com/s2/favicons?domain=openstreetmap.org&sz=32';
-          const latLng = `${lngLat.lat},${lngLat.lng}`;
-          const streetViewUrl = `https://www.google.com/maps/@?api=1&map_action=pano&viewpoint=${encodeURIComponent(latLng)}`;
-          const osmViewUrl = `https://www.openstreetmap.org/?mlat=${encodeURIComponent(String(lngLat.lat))}&mlon=${encodeURIComponent(
-            String(lngLat.lng),
-          )}#map=19/${encodeURIComponent(String(lngLat.lat))}/${encodeURIComponent(String(lngLat.lng))}`;
-
-          const reportIssueUrl = reportIssueUrlTemplate ? buildReportIssueUrl(reportIssueUrlTemplate, lngLat, map.getZoom()) : null;
-
-          const p = feature.properties as Record<string, unknown>;
-          const froggerIndexRaw = p.frogger_index;
-          const froggerIndex = typeof froggerIndexRaw === 'number' ? froggerIndexRaw : Number(froggerIndexRaw);
-
-          const lanesRaw = p.frogger_lanes;
-          const lanes = typeof lanesRaw === 'number' ? lanesRaw : lanesRaw != null ? Number(lanesRaw) : null;
-
-          const maxspeed = typeof p.frogger_maxspeed === 'string' ? p.frogger_maxspeed : null;
-
-          const speedMphRaw = p.frogger_speed_mph;
-          const speedMph = typeof speedMphRaw === 'number' ? speedMphRaw : speedMphRaw != null ? Number(speedMphRaw) : null;
-
-          const distRaw = p.frogger_dist_to_marked_crosswalk_m;
-          const distanceToMarkedCrosswalkMeters =
-            typeof distRaw === 'number' ? distRaw : distRaw != null ? Number(distRaw) : null;
-
-          const roadName = typeof p.frogger_road_name === 'string' ? p.frogger_road_name : null;
-          const roadHighway = typeof p.frogger_road_highway === 'string' ? p.frogger_road_highway : null;
-
-          setSelected(null);
-          selectedUnmarkedIdRef.current = id;
-          setSelectedUnmarked({
-            id,
-            title: buildUnmarkedCrossingTitle(roadName),
-            roadName,
-            lngLat,
-            froggerIndex: Number.isFinite(froggerIndex) ? froggerIndex : 0,
-            lanes: Number.isFinite(lanes as number) ? (lanes as number) : null,
-            maxspeed,
-            speedMph: Number.isFinite(speedMph as number) ? (speedMph as number) : null,
-            distanceToMarkedCrosswalkMeters: Number.isFinite(distanceToMarkedCrosswalkMeters as number)
-              ? (distanceToMarkedCrosswalkMeters as number)
-              : null,
-            roadHighway,
-            actions: [
-              { href: streetViewUrl, label: 'Street View', iconUrl: googleFaviconUrl },
-              { href: osmViewUrl, label: 'OSM', iconUrl: osmFaviconUrl },
-            ],
-            reportIssueUrl,
-            zoom: map.getZoom(),
-          });
-        });
-
-        element.addEventListener('keydown', (evt) => {
-          if (evt.key !== 'Enter' && evt.key !== ' ') return;
-          evt.preventDefault();
-          element.click();
-        });
-
-        const marker = new maplibregl.Marker({ element, anchor: 'center' }).setLngLat(lngLat).addTo(map);
-        unmarkedCrossingMarkersRef.current.set(id, marker);
-      }
+      // If a share-link pin or previous street selection marker is present, clear it.
+      markerRef.current?.remove();
+      markerRef.current = null;
 
-      // Remove markers that are no longer in view.
-      for (const [id, marker] of unmarkedCrossingMarkersRef.current.entries()) {
-        if (nextIds.has(id)) continue;
-        marker.remove();
-        unmarkedCrossingMarkersRef.current.delete(id);
-      }
+      setSelected(null);
+      selectedUnmarkedIdRef.current = info.id;
+      setSelectedUnmarked(info);
     };
 
-    const buildFeatureInfoFromProps = (props: maplibregl.GeoJSONFeature['properties'], coordinates: maplibregl.LngLat) => {
-      if (!props) return null;
-
-      const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
-
-      let displayName = props.name;
-      const highwayType = props.highway ? capitalize(props.highway) : 'Unknown Type';
-      const isResidential = props.highway === 'residential' || props.highway === 'living_street';
-
-      if (!displayName) {
-        displayName = `${highwayType} Road`;
+    const pinStreet = (props: maplibregl.MapGeoJSONFeature['properties'], coordinates: maplibregl.LngLat) => {
+      if (!markerRef.current) {
+        markerRef.current = new maplibregl.Marker().setLngLat(coordinates).addTo(map);
+      } else {
+        markerRef.current.setLngLat(coordinates);
       }
 
-      const distanceMeters =
-        typeof props.dist_to_crossing_meters === 'number' ? Math.round(props.dist_to_crossing_meters) : null;
-
-      const froggerIndexRaw = (props as Record<string, unknown>).frogger_index;
-      const froggerIndex = typeof froggerIndexRaw === 'number' ? froggerIndexRaw : froggerIndexRaw != null ? Number(froggerIndexRaw) : null;
-
-      const lanesRaw = (props as Record<string, unknown>).lanes;
-      const lanes = typeof lanesRaw === 'number' ? lanesRaw : lanesRaw != null ? Number(lanesRaw) : null;
-
-      const maxspeed = typeof (props as Record<string, unknown>).maxspeed === 'string' ? ((props as Record<string, unknown>).maxspeed as string) : null;
-
-      const latLng = `${coordinates.lat},${coordinates.lng}`;
-      const streetViewUrl = `https://www.google.com/maps/@?api=1&map_action=pano&viewpoint=${encodeURIComponent(latLng)}`;
-
-      const osmViewUrl = `https://www.openstreetmap.org/?mlat=${encodeURIComponent(
-        String(coordinates.lat),
-      )}&mlon=${encodeURIComponent(String(coordinates.lng))}#map=19/${encodeURIComponent(
-        String(coordinates.lat),
-      )}/${encodeURIComponent(String(coordinates.lng))}`;
-
-      const googleFaviconUrl = 'https://www.google.com/s2/favicons?domain=google.com&sz=32';
-      const osmFaviconUrl = 'https://www.google.com/s2/favicons?domain=openstreetmap.org&sz=32';
-
-      const reportIssueUrl = reportIssueUrlTemplate ? buildReportIssueUrl(reportIssueUrlTemplate, coordinates, map.getZoom()) : null;
-
-      return {
-        title: displayName,
-        highwayType,
-        isResidential,
-        distanceMeters,
-        froggerIndex: typeof froggerIndex === 'number' && Number.isFinite(froggerIndex) ? froggerIndex : null,
-        lanes: typeof lanes === 'number' && Number.isFinite(lanes) ? lanes : null,
-        maxspeed,
-        lngLat: coordinates,
-        actions: [
-          { href: streetViewUrl, label: 'Street View', iconUrl: googleFaviconUrl },
-          { href: osmViewUrl, label: 'OSM', iconUrl: osmFaviconUrl },
-        ],
-        reportIssueUrl,
-        zoom: map.getZoom(),
-      } satisfies FeatureInfo;
+      const info = buildFeatureInfoFromProps(props, coordinates, map.getZoom(), localeRef.current);
+      if (!info) return;
+      setSelectedUnmarked(null);
+      selectedUnmarkedIdRef.current = null;
+      setSelected(info);
     };
 
-    const buildUnmarkedCrossingInfoFromProps = (
-      props: maplibregl.GeoJSONFeature['properties'],
-      coordinates: maplibregl.LngLat,
-    ): UnmarkedCrossingInfo | null => {
-      if (!props) return null;
-
-      const googleFaviconUrl = 'https://www.google.com/s2/favicons?domain=google.com&sz=32';
-      const osmFaviconUrl = 'https://www.google.com/s2/favicons?domain=openstreetmap.org&sz=32';
-
-      const latLng = `${coordinates.lat},${coordinates.lng}`;
-      const streetViewUrl = `https://www.google.com/maps/@?api=1&map_action=pano&viewpoint=${encodeURIComponent(latLng)}`;
-      const osmViewUrl = `https://www.openstreetmap.org/?mlat=${encodeURIComponent(
-        String(coordinates.lat),
-      )}&mlon=${encodeURIComponent(String(coordinates.lng))}#map=19/${encodeURIComponent(
-        String(coordinates.lat),
-      )}/${encodeURIComponent(String(coordinates.lng))}`;
-
-      const reportIssueUrl = reportIssueUrlTemplate
-        ? buildReportIssueUrl(reportIssueUrlTemplate, coordinates, map.getZoom())
-        : null;
-
-      const p = props as Record<string, unknown>;
-
-      const idRaw = p.point_osm_id;
-      const id = typeof idRaw === 'number' ? idRaw : Number(idRaw);
-      if (!Number.isFinite(id)) return null;
-
-      const froggerIndexRaw = p.frogger_index;
-      const froggerIndex = typeof froggerIndexRaw === 'number' ? froggerIndexRaw : Number(froggerIndexRaw);
-
-      const lanesRaw = p.frogger_lanes;
-      const lanes = typeof lanesRaw === 'number' ? lanesRaw : lanesRaw != null ? Number(lanesRaw) : null;
-
-      const distRaw = p.frogger_dist_to_marked_crosswalk_m;
-      const distanceToMarkedCrosswalkMeters =
-        typeof distRaw === 'number' ? distRaw : distRaw != null ? Number(distRaw) : null;
-
-      const maxspeed = typeof p.frogger_maxspeed === 'string' ? p.frogger_maxspeed : null;
-      const roadName = typeof p.frogger_road_name === 'string' ? p.frogger_road_name : null;
-      const roadHighway = typeof p.frogger_road_highway === 'string' ? p.frogger_road_highway : null;
-
-      // Keep speedMph in the model in case we want it later,
-      // but the panel currently doesn't display it.
-      const speedMphRaw = p.frogger_speed_mph;
-      const speedMph = typeof speedMphRaw === 'number' ? speedMphRaw : speedMphRaw != null ? Number(speedMphRaw) : null;
-
-      return {
-        id,
-        title: buildUnmarkedCrossingTitle(roadName),
-        roadName,
-        lngLat: coordinates,
-        froggerIndex: Number.isFinite(froggerIndex) ? froggerIndex : 0,
-        lanes: Number.isFinite(lanes as number) ? (lanes as number) : null,
-        maxspeed,
-        speedMph: Number.isFinite(speedMph as number) ? (speedMph as number) : null,
-        distanceToMarkedCrosswalkMeters: Number.isFinite(distanceToMarkedCrosswalkMeters as number)
-          ? (distanceToMarkedCrosswalkMeters as number)
-          : null,
-        roadHighway,
-        actions: [
-          { href: streetViewUrl, label: 'Street View', iconUrl: googleFaviconUrl },
-          { href: osmViewUrl, label: 'OSM', iconUrl: osmFaviconUrl },
-        ],
-        reportIssueUrl,
-        zoom: map.getZoom(),
-      } satisfies UnmarkedCrossingInfo;
+    // Checked on every `idle` until it resolves: `idle` means all tiles in view have loaded,
+    // so once the pin is on screen and the feature still isn't there, it's not in this data.
+    const resolveSharedFeature = (ref: SharedFeatureRef, coordinates: maplibregl.LngLat) => {
+      const attempt = () => {
+        // Switching regions or closing the panel drops the share params.
+        if (!parsePinnedParamsFromUrl()?.feature) {
+          map.off('idle', attempt);
+          return;
+        }
+
+        const feature = findSharedFeature(map, ref);
+        if (feature) {
+          map.off('idle', attempt);
+          if (ref.kind === 'crossing') selectUnmarkedCrossing(feature);
+          else pinStreet(feature.properties, coordinates);
+          return;
+        }
+        if (!map.getBounds().contains(coordinates)) return;
+
+        map.off('idle', attempt);
+        if (!markerRef.current) markerRef.current = new maplibregl.Marker().setLngLat(coordinates).addTo(map);
+        setSharedFeatureMissing(true);
+      };
+      map.on('idle', attempt);
+      attempt();
     };
 
     const applyPinnedLocationFromUrl = () => {
@@ -795,6 +1859,10 @@ export default function Map() {
       if (!pinned) return;
 
       const coordinates = pinned.lngLat;
+      if (pinned.feature) {
+        resolveSharedFeature(pinned.feature, coordinates);
+        return;
+      }
 
       // Try to resolve the actual feature at this point so the info panel opens.
       const point = map.project(coordinates);
@@ -804,42 +1872,20 @@ export default function Map() {
           [point.x - pad, point.y - pad],
           [point.x + pad, point.y + pad],
         ],
-        { layers: [...SKETCHINESS_LAYER_IDS, 'unmarked-crossings-hit'] },
+        { layers: [...SKETCHINESS_LAYER_IDS, UNMARKED_CROSSINGS_LAYER_ID] },
       );
 
       if (features.length === 0) return;
 
       const top = features[0];
-      if (top.layer.id === 'unmarked-crossings-hit') {
+      if (top.layer.id === UNMARKED_CROSSINGS_LAYER_ID) {
         // For unmarked crossings, open the panel but don't add a pin marker.
-        markerRef.current?.remove();
-        markerRef.current = null;
-
-        const info = buildUnmarkedCrossingInfoFromProps(top.properties, coordinates);
-        if (!info) return;
-        setSelected(null);
-        selectedUnmarkedIdRef.current = info.id;
-        setSelectedUnmarked(info);
-
-        // The first `idle` event may have already created markers before we knew
-        // which one is selected; resync immediately so the selected one gets the
-        // highlighted style.
-        syncUnmarkedCrossingMarkers();
+        selectUnmarkedCrossing(top);
         return;
       }
 
       // For streets, keep the existing share-link behavior: drop a pin marker.
-      if (!markerRef.current) {
-        markerRef.current = new maplibregl.Marker().setLngLat(coordinates).addTo(map);
-      } else {
-        markerRef.current.setLngLat(coordinates);
-      }
-
-      const info = buildFeatureInfoFromProps(top.properties, coordinates);
-      if (!info) return;
-      setSelectedUnmarked(null);
-      selectedUnmarkedIdRef.current = null;
-      setSelected(info);
+      pinStreet(top.properties, coordinates);
     };
 
     const syncUrlToMapViewport = () => {
@@ -851,16 +1897,151 @@ export default function Map() {
     map.on('load', syncUrlToMapViewport);
     map.on('moveend', syncUrlToMapViewport);
 
-    // Keep unmarked crossing DOM markers in sync with what tiles are visible.
-    map.on('idle', syncUnmarkedCrossingMarkers);
-    map.on('moveend', syncUnmarkedCrossingMarkers);
+    // Refresh the hazard list once the new viewport's tiles have rendered.
+    map.on('idle', () => {
+      if (listOpenRef.current) setHazardItems(collectHazardItems(map, unmarkedThresholdRef.current));
+    });
 
-    // If this URL was created via Share (pin=1), drop a marker (and select the feature if possible).
+    // If this URL was created via Share (pin=1), drop a marker and select the shared feature.
     map.once('idle', applyPinnedLocationFromUrl);
 
+    const onRouteClick = (lngLat: maplibregl.LngLat) => {
+      const start = routeStartRef.current;
+
+      // First click, or a click after a finished route: start over from here.
+      if (!start || routeEndRef.current) {
+        for (const marker of routeMarkersRef.current) marker.remove();
+        routeMarkersRef.current = [new maplibregl.Marker({ color: '#2e7d32' }).setLngLat(lngLat).addTo(map)];
+        routeStartRef.current = lngLat;
+        routeEndRef.current = null;
+        setRouteData(map, null);
+        setRoutePlan(null);
+        setRouteError(null);
+        setRouteStatus('pick-end');
+        return;
+      }
+
+      routeEndRef.current = lngLat;
+      routeMarkersRef.current.push(new maplibregl.Marker({ color: '#b71c1c' }).setLngLat(lngLat).addTo(map));
+      setRouteStatus('computing');
+
+      // Routes are built from loaded tiles, so bring both endpoints into view first.
+      map.fitBounds(new maplibregl.LngLatBounds(start, start).extend(lngLat), { padding: 80, maxZoom: 16 });
+      map.once('idle', () => {
+        if (routeEndRef.current !== lngLat) return;
+
+        const result = computeRoutePlan(map, start, lngLat, messagesRef.current);
+        if (typeof result === 'string') {
+          setRouteError(result);
+          setRouteStatus('error');
+          return;
+        }
+
+        setRouteData(map, result);
+        setRoutePlan(result);
+        setRouteStatus('done');
+      });
+    };
+
+    const onAreaClick = (lngLat: maplibregl.LngLat) => {
+      // A click after a finished shape starts a new one.
+      if (areaRingRef.current) {
+        areaRingRef.current = null;
+        areaFeaturesRef.current = null;
+        areaVerticesRef.current = [];
+        setAreaReport(null);
+        setAreaError(null);
+        setAreaStatus('drawing');
+      }
+
+      const point: LngLatTuple = [lngLat.lng, lngLat.lat];
+      const vertices = [...areaVerticesRef.current, point];
+
+      if (areaToolRef.current === 'rectangle' && vertices.length === 2) {
+        const [[lng1, lat1], [lng2, lat2]] = vertices;
+        finishArea([
+          [lng1, lat1],
+          [lng2, lat1],
+          [lng2, lat2],
+          [lng1, lat2],
+        ]);
+        return;
+      }
+
+      areaVerticesRef.current = vertices;
+      setAreaVertexCount(vertices.length);
+      setAreaData(map, vertices, false);
+    };
+
+    // Reads the street under the same screen point from both builds (the maps share a camera).
+    const onCompareClick = (lngLat: maplibregl.LngLat) => {
+      const point = map.project(lngLat);
+      const sideOf = (m: maplibregl.Map | null): CompareSide | null => {
+        const feature = m?.queryRenderedFeatures(point, { layers: [...SKETCHINESS_LAYER_IDS] })[0];
+        const info = feature ? buildFeatureInfoFromProps(feature.properties, lngLat, map.getZoom(), localeRef.current) : null;
+        return feature && info ? { info, properties: feature.properties as Record<string, unknown> } : null;
+      };
+
+      const selection = { before: sideOf(compareMapRef.current), after: sideOf(map) };
+      if (selection.before || selection.after) {
+        if (!markerRef.current) markerRef.current = new maplibregl.Marker().setLngLat(lngLat).addTo(map);
+        else markerRef.current.setLngLat(lngLat);
+      } else {
+        markerRef.current?.remove();
+        markerRef.current = null;
+      }
+      setCompareSelection(selection);
+    };
+
+    const onToolClick = (lngLat: maplibregl.LngLat) => {
+      if (modeRef.current === 'route') onRouteClick(lngLat);
+      else if (modeRef.current === 'area') onAreaClick(lngLat);
+      else if (modeRef.current === 'compare') onCompareClick(lngLat);
+    };
+
+    map.on('dblclick', (e) => {
+      if (modeRef.current !== 'area' || areaToolRef.current !== 'polygon' || areaRingRef.current) return;
+      e.preventDefault();
+      finishArea(areaVerticesRef.current);
+    });
+
+    map.on('click', UNMARKED_CROSSINGS_LAYER_ID, (e) => {
+      if (modeRef.current !== 'browse') return;
+      const feature = e.features?.[0];
+      if (feature) selectUnmarkedCrossing(feature);
+    });
+
+    // Keyboard access: with the map focused, `]` / `[` step through the crossings on screen
+    // (highest Frogger Index first) and open their panel.
+    const onCanvasKeyDown = (evt: KeyboardEvent) => {
+      if (evt.key !== ']' && evt.key !== '[') return;
+      if (modeRef.current !== 'browse') return;
+
+      const byId = new globalThis.Map<number, maplibregl.MapGeoJSONFeature>();
+      for (const f of map.queryRenderedFeatures({ layers: [UNMARKED_CROSSINGS_LAYER_ID] })) {
+        const id = Number(f.id);
+        if (Number.isFinite(id) && !byId.has(id)) byId.set(id, f);
+      }
+      const ordered = [...byId.values()].sort(
+        (a, b) => Number(b.properties?.frogger_index ?? 0) - Number(a.properties?.frogger_index ?? 0),
+      );
+      if (ordered.length === 0) return;
+
+      evt.preventDefault();
+      const current = ordered.findIndex((f) => Number(f.id) === selectedUnmarkedIdRef.current);
+      const step = evt.key === ']' ? 1 : -1;
+      const next = current === -1 ? (step === 1 ? 0 : ordered.length - 1) : (current + step + ordered.length) % ordered.length;
+      selectUnmarkedCrossing(ordered[next]);
+    };
+    map.getCanvas().addEventListener('keydown', onCanvasKeyDown);
+    map.getCanvas().setAttribute('aria-label', messagesRef.current.map.canvasLabel);
+
     // Add click handler for sketchiness lines
     const onSketchinessClick = (e: maplibregl.MapLayerMouseEvent) => {
+      if (modeRef.current !== 'browse') return;
       if (!e.features || e.features.length === 0) return;
+      // Crossing icons sit on top of streets and take the click.
+      if (map.queryRenderedFeatures(e.point, { layers: [UNMARKED_CROSSINGS_LAYER_ID] }).length > 0) return;
 
       const feature = e.features[0];
       const props = feature.properties;
@@ -871,7 +2052,7 @@ export default function Map() {
       if (!lngLatLike) return;
       const coordinates = maplibregl.LngLat.convert(lngLatLike);
 
-      const info = buildFeatureInfoFromProps(props, coordinates);
+      const info = buildFeatureInfoFromProps(props, coordinates, map.getZoom(), localeRef.current);
       if (!info) return;
 
       if (!markerRef.current) {
@@ -890,20 +2071,25 @@ export default function Map() {
     }
 
     // Change cursor on hover
-    for (const layerId of SKETCHINESS_LAYER_IDS) {
+    for (const layerId of [...SKETCHINESS_LAYER_IDS, UNMARKED_CROSSINGS_LAYER_ID]) {
       map.on('mouseenter', layerId, () => {
-        map.getCanvas().style.cursor = 'pointer';
+        map.getCanvas().style.cursor = cursorForMode(modeRef.current, true);
       });
 
       map.on('mouseleave', layerId, () => {
-        map.getCanvas().style.cursor = '';
+        map.getCanvas().style.cursor = cursorForMode(modeRef.current, false);
       });
     }
 
     // Clear selection when clicking away from a feature.
     map.on('click', (e) => {
+      if (modeRef.current !== 'browse') {
+        onToolClick(e.lngLat);
+        return;
+      }
+
       const features = map.queryRenderedFeatures(e.point, {
-        layers: [...SKETCHINESS_LAYER_IDS, 'unmarked-crossings-hit'],
+        layers: [...SKETCHINESS_LAYER_IDS, UNMARKED_CROSSINGS_LAYER_ID],
       });
       if (features.length > 0) return;
 
@@ -915,118 +2101,662 @@ export default function Map() {
     });
 
     return () => {
+      map.getCanvas().removeEventListener('keydown', onCanvasKeyDown);
       markerRef.current?.remove();
       markerRef.current = null;
 
-      for (const marker of unmarkedCrossingMarkersRef.current.values()) {
-        marker.remove();
-      }
-      unmarkedCrossingMarkersRef.current.clear();
+      for (const marker of routeMarkersRef.current) marker.remove();
+      routeMarkersRef.current = [];
+      routeStartRef.current = null;
+      routeEndRef.current = null;
+      areaVerticesRef.current = [];
+      areaRingRef.current = null;
+      areaFeaturesRef.current = null;
+      nearestOriginRef.current = null;
 
       map.remove();
       mapRef.current = null;
       maplibregl.removeProtocol('pmtiles');
     };
-  }, [style]);
+    // The geolocate handlers only touch refs and state setters, so the versions from the
+    // render that built the map stay correct; re-running would rebuild the map.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [style, regionId, region]);
+
+  const selectRegion = (nextId: RegionId) => {
+    const map = mapRef.current;
+    if (nextId === regionId) {
+      map?.flyTo({ center: region.center, zoom: region.zoom });
+      return;
+    }
+
+    setUrlRegion(nextId);
+    setMode('browse');
+    resetTools();
+    clearSelection();
+    setCompareBuildIds(null);
+    setRegionId(nextId);
+  };
+
+  const resetRoute = () => {
+    for (const marker of routeMarkersRef.current) marker.remove();
+    routeMarkersRef.current = [];
+    routeStartRef.current = null;
+    routeEndRef.current = null;
+    if (mapRef.current) setRouteData(mapRef.current, null);
+    setRoutePlan(null);
+    setRouteError(null);
+    setRouteStatus('pick-start');
+  };
+
+  const resetArea = () => {
+    areaVerticesRef.current = [];
+    areaRingRef.current = null;
+    areaFeaturesRef.current = null;
+    if (mapRef.current) setAreaData(mapRef.current, [], false);
+    setAreaVertexCount(0);
+    setAreaReport(null);
+    setAreaError(null);
+    setAreaStatus('drawing');
+  };
+
+  const resetNearest = () => {
+    nearestOriginRef.current = null;
+    if (mapRef.current) setNearestData(mapRef.current, null);
+    setNearestResult(null);
+    setNearestError(null);
+    setNearestStatus('searching');
+  };
+
+  const resetCompare = () => {
+    setCompareSelection(null);
+    if (modeRef.current === 'compare') {
+      markerRef.current?.remove();
+      markerRef.current = null;
+    }
+  };
+
+  const resetTools = () => {
+    resetRoute();
+    resetArea();
+    resetNearest();
+    resetCompare();
+  };
+
+  const clearSelection = () => {
+    markerRef.current?.remove();
+    markerRef.current = null;
+    setSelected(null);
+    setSelectedUnmarked(null);
+    selectedUnmarkedIdRef.current = null;
+  };
+
+  // Called from the geolocate control's events, so only refs and state setters are safe here.
+  const locateNearestCrossing = (origin: LngLatTuple) => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    resetTools();
+    clearSelection();
+    nearestOriginRef.current = origin;
+    setMode('nearest');
+
+    map.once('idle', () => {
+      if (nearestOriginRef.current !== origin) return;
+
+      const result = computeNearestCrossings(map, origin);
+      setNearestData(map, result);
+      setNearestResult(result);
+      setNearestStatus('done');
+    });
+  };
+
+  const showNearestError = (message: string) => {
+    resetTools();
+    clearSelection();
+    setNearestError(message);
+    setNearestStatus('error');
+    setMode('nearest');
+  };
+
+  const finishArea = (vertices: readonly LngLatTuple[]) => {
+    const map = mapRef.current;
+    const ring = dedupeVertices(vertices);
+    if (!map || ring.length < 3) return;
+
+    areaRingRef.current = ring;
+    areaFeaturesRef.current = null;
+    areaVerticesRef.current = ring;
+    setAreaVertexCount(ring.length);
+    setAreaData(map, ring, true);
+    setAreaStatus('computing');
+
+    // Reports are built from loaded tiles, so bring the whole area into view first.
+    const [west, south, east, north] = ringBounds(ring);
+    map.fitBounds(
+      [
+        [west, south],
+        [east, north],
+      ],
+      { padding: 80, maxZoom: 16 },
+    );
+    map.once('idle', () => {
+      if (areaRingRef.current !== ring) return;
+
+      const features = collectAreaFeatures(map);
+      areaFeaturesRef.current = features;
+      const result = computeAreaReport(features, ring, unmarkedThresholdRef.current, messagesRef.current);
+      if (typeof result === 'string') {
+        setAreaError(result);
+        setAreaStatus('error');
+        return;
+      }
+
+      setAreaReport(result);
+      setAreaStatus('done');
+    });
+  };
+
+  const onExport = (format: ExportFormat, scope: 'visible' | 'area') => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const ring = scope === 'area' ? areaRingRef.current : null;
+    const date = new Date().toISOString().slice(0, 10);
+    exportFeatures(map, ring, unmarkedThreshold, format, `crosswalks-${region.id}-${scope}-${date}`);
+  };
+
+  // Switching tools clears the other tool's state; picking the active tool again closes it.
+  const toggleMode = (next: Exclude<MapMode, 'browse'>) => {
+    resetTools();
+    setReportView(null);
+    if (mode === 'browse') clearSelection();
+    setMode(mode === next ? 'browse' : next);
+  };
+
+  const toggleWhatIf = () => {
+    // The weights only change the Frogger Index colors, so show that metric while tuning.
+    if (mode !== 'whatif' && metricId !== 'frogger') {
+      setMetricId('frogger');
+      setHiddenBuckets(new Set());
+    }
+    toggleMode('whatif');
+  };
+
+  const changeFroggerWeights = (weights: FroggerWeights) => {
+    setFroggerWeights(weights);
+    setUrlFroggerWeights(weights);
+  };
+
+  const onCompareMapChange = (before: maplibregl.Map | null) => {
+    compareMapRef.current = before;
+    if (!before) return;
+    addCrossingIcons(before);
+    applySketchinessLayerStyle(
+      before,
+      metricRef.current,
+      hiddenBucketsRef.current,
+      unmarkedThresholdRef.current,
+      froggerWeightsRef.current,
+    );
+  };
+
+  const compareLegendBuckets =
+    mode === 'compare' && compareSelection
+      ? {
+          before: compareSelection.before ? legendBucketFor(metric, compareSelection.before.properties, froggerWeights) : null,
+          after: compareSelection.after ? legendBucketFor(metric, compareSelection.after.properties, froggerWeights) : null,
+        }
+      : null;
+
+  const showStreetInfo = (info: FeatureInfo) => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (!markerRef.current) {
+      markerRef.current = new maplibregl.Marker().setLngLat(info.lngLat).addTo(map);
+    } else {
+      markerRef.current.setLngLat(info.lngLat);
+    }
+
+    setSelectedUnmarked(null);
+    selectedUnmarkedIdRef.current = null;
+    setSelected(info);
+  };
+
+  const showCrossingInfo = (info: UnmarkedCrossingInfo) => {
+    markerRef.current?.remove();
+    markerRef.current = null;
+    setSelected(null);
+    selectedUnmarkedIdRef.current = info.id;
+    setSelectedUnmarked(info);
+  };
+
+  const onHazardSelect = (item: HazardItem) => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const lngLat = new maplibregl.LngLat(item.lngLat[0], item.lngLat[1]);
+    if (item.kind === 'crossing') {
+      const info = buildUnmarkedCrossingInfoFromProps(item.properties, lngLat, map.getZoom(), locale);
+      if (info) showCrossingInfo(info);
+      return;
+    }
+
+    const info = buildFeatureInfoFromProps(item.properties, lngLat, map.getZoom(), locale);
+    if (info) showStreetInfo(info);
+  };
+
+  const onSearchSelect = (entry: SearchEntry) => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const [west, south, east, north] = entry.bbox;
+    const bounds = new maplibregl.LngLatBounds([west, south], [east, north]);
+    const camera = map.cameraForBounds(bounds, { padding: 60, maxZoom: 17 });
+    map.fitBounds(bounds, { padding: 60, maxZoom: 17 });
+
+    const lngLat = new maplibregl.LngLat(entry.lngLat[0], entry.lngLat[1]);
+    const zoom = camera?.zoom ?? map.getZoom();
+
+    if (entry.kind === 'crossing') {
+      const info = buildUnmarkedCrossingInfoFromProps(entry.properties, lngLat, zoom, locale);
+      if (info) showCrossingInfo(info);
+      return;
+    }
+
+    const info = buildFeatureInfoFromProps(entry.properties, lngLat, zoom, locale);
+    if (info) showStreetInfo(info);
+  };
 
   return (
 
     <div className={selected || selectedUnmarked ? 'map-shell map-shell--has-selection' : 'map-shell'}>
       <div id="map" ref={mapContainerRef} />
 
-      {selected ? <FeatureInfoPanel info={selected} onShare={handleShare} unitIndex={0} /> : null}
-      {selectedUnmarked ? <UnmarkedCrossingInfoPanel info={selectedUnmarked} onShare={handleShare} /> : null}
+      {mode === 'compare' && mapRef.current && compareBeforeStyle && compareBeforeBuild && compareAfterBuild ? (
+        <CompareSwipe
+          map={mapRef.current}
+          style={compareBeforeStyle}
+          beforeLabel={compareBeforeBuild.label}
+          afterLabel={compareAfterBuild.label}
+          locale={locale}
+          onBeforeMapChange={onCompareMapChange}
+        />
+      ) : null}
+
+      {selected && mode === 'browse' && !reportView ? (
+        <FeatureInfoPanel
+          info={selected}
+          onShare={handleShare}
+          onReport={selected.reportTarget ? () => setReportView('form') : undefined}
+          units={units}
+          maxspeedUnit={maxspeedUnit}
+          locale={locale}
+          jokeUnitIndex={legendUnitIndex}
+        />
+      ) : null}
+      {selectedUnmarked && mode === 'browse' && !reportView ? (
+        <UnmarkedCrossingInfoPanel
+          info={selectedUnmarked}
+          onShare={handleShare}
+          onReport={selectedUnmarked.reportTarget ? () => setReportView('form') : undefined}
+          units={units}
+          maxspeedUnit={maxspeedUnit}
+          locale={locale}
+          jokeUnitIndex={legendUnitIndex}
+        />
+      ) : null}
+      {sharedFeatureMissing && mode === 'browse' && !reportView ? (
+        <SharedFeatureMissingPanel
+          locale={locale}
+          onClose={() => {
+            setSharedFeatureMissing(false);
+            markerRef.current?.remove();
+            markerRef.current = null;
+            clearUrlPin();
+          }}
+        />
+      ) : null}
+      {reportView && mode === 'browse' ? (
+        <ReportIssuePanel
+          target={reportView === 'form' ? (selected?.reportTarget ?? selectedUnmarked?.reportTarget ?? null) : null}
+          locale={locale}
+          onOutboxChange={setQueuedReports}
+          onClose={() => setReportView(null)}
+        />
+      ) : null}
+      {mode === 'route' ? (
+        <RoutePanel
+          status={routeStatus}
+          plan={routePlan}
+          error={routeError}
+          units={units}
+          locale={locale}
+          onClear={resetRoute}
+          onClose={() => toggleMode('route')}
+        />
+      ) : null}
+      {mode === 'area' ? (
+        <AreaReportPanel
+          status={areaStatus}
+          tool={areaTool}
+          vertexCount={areaVertexCount}
+          report={areaReport}
+          unmarkedThreshold={unmarkedThreshold}
+          error={areaError}
+          units={units}
+          locale={locale}
+          onToolChange={(tool) => {
+            resetArea();
+            setAreaTool(tool);
+          }}
+          onFinish={() => finishArea(areaVerticesRef.current)}
+          onClear={resetArea}
+          onClose={() => toggleMode('area')}
+          onExport={(format) => onExport(format, 'area')}
+        />
+      ) : null}
+
+      {mode === 'compare' && compareBeforeBuild && compareAfterBuild ? (
+        <ComparePanel
+          builds={compareBuilds}
+          beforeId={compareBeforeBuild.id}
+          afterId={compareAfterBuild.id}
+          selection={compareSelection}
+          units={units}
+          maxspeedUnit={maxspeedUnit}
+          locale={locale}
+          onBuildsChange={(before, after) => {
+            resetCompare();
+            setCompareBuildIds({ before, after });
+          }}
+          onClose={() => toggleMode('compare')}
+        />
+      ) : null}
+      {mode === 'whatif' ? (
+        <WhatIfPanel
+          weights={froggerWeights}
+          locale={locale}
+          onChange={changeFroggerWeights}
+          onCopyLink={() => copyTextToClipboard(window.location.href)}
+          onClose={() => toggleMode('whatif')}
+        />
+      ) : null}
+      {mode === 'nearest' ? (
+        <NearestCrossingPanel
+          status={nearestStatus}
+          result={nearestResult}
+          error={nearestError}
+          units={units}
+          locale={locale}
+          onClose={() => toggleMode('nearest')}
+        />
+      ) : null}
+
+      {listOpen && mode === 'browse' ? (
+        <HazardList
+          items={hazardItems}
+          selectedKey={selected?.osmId ? `street:${selected.roadOsmId ?? selected.osmId}` : selectedUnmarked ? `crossing:${selectedUnmarked.id}` : null}
+          units={units}
+          locale={locale}
+          onSelect={onHazardSelect}
+          onClose={() => setListOpen(false)}
+        />
+      ) : null}
 
       <div className="map-overlay map-overlay--title" role="heading" aria-level={1}>
-        Seattle/SF Crosswalk Availability Map
-        <div style={{ marginTop: 8, display: 'flex', gap: 8 }}>
+        {t.map.regionTitle(region.name)}
+        <div style={{ marginTop: 8, display: 'flex', gap: 8 }} role="group" aria-label={t.map.regionGroup}>
+          {REGIONS.map((r) => (
+            <button
+              key={r.id}
+              type="button"
+              aria-pressed={r.id === region.id}
+              style={{
+                padding: '2px 10px',
+                borderRadius: 4,
+                border: '1px solid #ccc',
+                background: r.id === region.id ? '#e8f5e9' : '#fff',
+                cursor: 'pointer',
+              }}
+              onClick={() => selectRegion(r.id)}
+            >
+              {r.name}
+            </button>
+          ))}
+          <button
+            type="button"
+            aria-pressed={mode === 'route'}
+            style={{
+              padding: '2px 10px',
+              borderRadius: 4,
+              border: '1px solid #ccc',
+              background: mode === 'route' ? '#e3f2fd' : '#fff',
+              cursor: 'pointer',
+            }}
+            onClick={() => toggleMode('route')}
+          >
+            {t.map.planWalk}
+          </button>
+          <button
+            type="button"
+            aria-pressed={mode === 'area'}
+            style={{
+              padding: '2px 10px',
+              borderRadius: 4,
+              border: '1px solid #ccc',
+              background: mode === 'area' ? '#e3f2fd' : '#fff',
+              cursor: 'pointer',
+            }}
+            onClick={() => toggleMode('area')}
+          >
+            {t.map.areaReport}
+          </button>
+          <button
+            type="button"
+            aria-pressed={listOpen}
+            style={{
+              padding: '2px 10px',
+              borderRadius: 4,
+              border: '1px solid #ccc',
+              background: listOpen ? '#e3f2fd' : '#fff',
+              cursor: 'pointer',
+            }}
+            onClick={() => setListOpen(!listOpen)}
+          >
+            {t.map.listView}
+          </button>
           <button
             type="button"
-            style={{ padding: '2px 10px', borderRadius: 4, border: '1px solid #ccc', background: '#fff', cursor: 'pointer' }}
-            onClick={() => {
-              if (mapRef.current) {
-                mapRef.current.setCenter(SEATTLE_CENTER);
-                mapRef.current.setZoom(DEFAULT_ZOOM);
-              }
+            aria-pressed={changesVisible}
+            title={t.map.whatChangedTitle}
+            style={{
+              padding: '2px 10px',
+              borderRadius: 4,
+              border: '1px solid #ccc',
+              background: changesVisible ? '#e3f2fd' : '#fff',
+              cursor: 'pointer',
             }}
+            onClick={() => setChangesVisibleState(!changesVisible)}
           >
-            Zoom to Seattle
+            {t.map.whatChanged}
           </button>
           <button
             type="button"
-            style={{ padding: '2px 10px', borderRadius: 4, border: '1px solid #ccc', background: '#fff', cursor: 'pointer' }}
-            onClick={() => {
-              if (mapRef.current) {
-                mapRef.current.setCenter(SF_CENTER);
-                mapRef.current.setZoom(DEFAULT_ZOOM);
-              }
+            aria-pressed={mode === 'whatif'}
+            title={t.map.whatIfTitle}
+            style={{
+              padding: '2px 10px',
+              borderRadius: 4,
+              border: '1px solid #ccc',
+              background: mode === 'whatif' ? '#e3f2fd' : '#fff',
+              cursor: 'pointer',
             }}
+            onClick={toggleWhatIf}
           >
-            Zoom to SF
+            {t.map.whatIf}
           </button>
+          {compareBuilds.length >= 2 ? (
+            <button
+              type="button"
+              aria-pressed={mode === 'compare'}
+              style={{
+                padding: '2px 10px',
+                borderRadius: 4,
+                border: '1px solid #ccc',
+                background: mode === 'compare' ? '#e3f2fd' : '#fff',
+                cursor: 'pointer',
+              }}
+              onClick={() => toggleMode('compare')}
+            >
+              {t.map.compareBuilds}
+            </button>
+          ) : null}
+          {queuedReports > 0 && mode === 'browse' ? (
+            <button
+              type="button"
+              aria-pressed={reportView === 'outbox'}
+              title={t.map.outboxTitle}
+              style={{
+                padding: '2px 10px',
+                borderRadius: 4,
+                border: '1px solid #ccc',
+                background: reportView === 'outbox' ? '#e3f2fd' : '#fff',
+                cursor: 'pointer',
+              }}
+              onClick={() => setReportView(reportView === 'outbox' ? null : 'outbox')}
+            >
+              {t.map.outbox(queuedReports)}
+            </button>
+          ) : null}
+        </div>
+        <SearchBox entries={searchIndexEntries} status={searchStatus} locale={locale} onSelect={onSearchSelect} />
+        <div style={{ marginTop: 8, display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, fontWeight: 400 }}>
+          <span>{t.map.exportVisible}</span>
+          {(['geojson', 'csv'] as const).map((format) => (
+            <button
+              key={format}
+              type="button"
+              style={{ padding: '2px 10px', borderRadius: 4, border: '1px solid #ccc', background: '#fff', cursor: 'pointer' }}
+              title={t.map.exportVisibleTitle(format === 'csv' ? 'CSV' : 'GeoJSON')}
+              onClick={() => onExport(format, 'visible')}
+            >
+              {format === 'csv' ? 'CSV' : 'GeoJSON'}
+            </button>
+          ))}
         </div>
       </div>
 
-      <div className="map-overlay map-overlay--legend" aria-label="Legend">
-        <div className="legend-title">Legend</div>
-        {legendUnitIndex === 3 ? (
-          <>
-            <div className="legend-row">
-              <span className="legend-line legend-line--green" />
-              <span>0–0.91 football fields to crossing (and residential streets)</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--yellow" />
-              <span>0.91–1.82 football fields</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--red" />
-              <span>1.82–4.55 football fields</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--darkred" />
-              <span>4.55+ football fields</span>
-            </div>
-          </>
-        ) : legendUnitIndex === 5 ? (
-          <>
-            <div className="legend-row">
-              <span className="legend-line legend-line--green" />
-              <span>0–50 bald eagles to crossing (and residential streets)</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--yellow" />
-              <span>50–100 bald eagles</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--red" />
-              <span>100–250 bald eagles</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--darkred" />
-              <span>250+ bald eagles</span>
-            </div>
-          </>
-        ) : (
-          <>
-            <div className="legend-row">
-              <span className="legend-line legend-line--green" />
-              <span>0–100m to crossing (and residential streets)</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--yellow" />
-              <span>100–200m</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--red" />
-              <span>200–500m</span>
-            </div>
-            <div className="legend-row">
-              <span className="legend-line legend-line--darkred" />
-              <span>500m+</span>
-            </div>
-          </>
-        )}
+      <div className="map-overlay map-overlay--legend" aria-label={t.legend.title}>
+        <div className="legend-title">{t.legend.title}</div>
+        <label className="legend-metric">
+          <span>{t.legend.colorStreetsBy}</span>
+          <select
+            value={metricId}
+            onChange={(evt) => {
+              setMetricId(evt.target.value as StreetMetricId);
+              // Bucket ids mean different ranges per metric, so start with everything visible.
+              setHiddenBuckets(new Set());
+            }}
+          >
+            {STREET_METRIC_IDS.map((id) => (
+              <option key={id} value={id}>
+                {t.legend.metrics[id]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {metric.buckets.map((bucket) => {
+          const hidden = hiddenBuckets.has(bucket.id);
+          return (
+            <button
+              key={bucket.id}
+              type="button"
+              className={hidden ? 'legend-row legend-row--toggle legend-row--hidden' : 'legend-row legend-row--toggle'}
+              aria-pressed={!hidden}
+              title={hidden ? t.legend.showStreets : t.legend.hideStreets}
+              onClick={() => {
+                setHiddenBuckets((prev) => {
+                  const next = new Set(prev);
+                  if (next.has(bucket.id)) next.delete(bucket.id);
+                  else next.add(bucket.id);
+                  return next;
+                });
+              }}
+            >
+              <span className={`legend-line legend-line--${bucket.id}`} />
+              <span>
+                {formatLegendBucketLabel(metric, bucket, units, locale, legendUnitIndex)}
+                {compareLegendBuckets?.before === bucket.id ? <span className="legend-compare-tag">{compareBeforeBuild?.label}</span> : null}
+                {compareLegendBuckets?.after === bucket.id ? <span className="legend-compare-tag">{compareAfterBuild?.label}</span> : null}
+              </span>
+            </button>
+          );
+        })}
+        {metric.id === 'frogger' && !isOfficialFroggerWeights(froggerWeights) ? (
+          <div className="legend-weights">
+            <span>{t.legend.customWeights}</span>
+            <button type="button" onClick={() => changeFroggerWeights(OFFICIAL_FROGGER_WEIGHTS)}>
+              {t.legend.resetWeights}
+            </button>
+          </div>
+        ) : null}
+        {changesVisible ? (
+          <div className="legend-changes" role="group" aria-label={t.map.whatChanged}>
+            <div className="legend-changes-title">{t.legend.whatChangedTitle}</div>
+            {CHANGE_KINDS.map((kind) => (
+              <div key={kind.id} className="legend-row">
+                <span className="legend-line" style={{ borderTopColor: kind.color, borderTopWidth: 8, opacity: 0.7 }} />
+                <span>{t.legend.changeKinds[kind.id]}</span>
+              </div>
+            ))}
+          </div>
+        ) : null}
+        <div className="legend-units" role="group" aria-label={t.legend.unitsGroup}>
+          {UNIT_SYSTEMS.map((u) => (
+            <button
+              key={u}
+              type="button"
+              aria-pressed={units === u}
+              onClick={() => {
+                setUnits(u);
+                saveUnitSystem(u);
+              }}
+            >
+              {u === 'metric' ? t.legend.metric : t.legend.imperial}
+            </button>
+          ))}
+        </div>
+        <div className="legend-units" role="group" aria-label={t.legend.languageGroup}>
+          {LOCALES.map((l) => (
+            <button
+              key={l}
+              type="button"
+              lang={l}
+              aria-pressed={locale === l}
+              onClick={() => {
+                setLocale(l);
+                saveLocale(l);
+              }}
+            >
+              {LOCALE_NAMES[l]}
+            </button>
+          ))}
+        </div>
+        <label className="legend-threshold">
+          <span>
+            {t.legend.unmarkedAbove} <strong>{formatNumber(unmarkedThreshold, locale, 2)}</strong>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={0.8}
+            step={0.05}
+            value={unmarkedThreshold}
+            onChange={(evt) => setUnmarkedThreshold(Number(evt.target.value))}
+          />
+        </label>
         <div className="legend-actions" style={{ minHeight: 28, display: 'flex', alignItems: 'center' }}>
           {showLegendButton ? (
             <button
@@ -1040,19 +2770,19 @@ export default function Map() {
                   setTimeout(() => setShowLegendButton(true), 2000);
                 }
               }}
-              aria-label="Change units"
-              title="Change units"
+              aria-label={t.legend.changeUnits}
+              title={t.legend.changeUnits}
             >
-              Change units
+              {t.legend.changeUnits}
             </button>
           ) : legendUnitIndex === 1 ? (
-            <span style={{ fontWeight: 700, fontSize: 14, color: '#1b5e20' }}>No! 🙂</span>
+            <span style={{ fontWeight: 700, fontSize: 14, color: '#1b5e20' }}>{t.legend.jokeNo} 🙂</span>
           ) : legendUnitIndex === 2 ? (
-            <span style={{ fontWeight: 700, fontSize: 14, color: '#1b5e20' }}>still no! 🙂</span>
+            <span style={{ fontWeight: 700, fontSize: 14, color: '#1b5e20' }}>{t.legend.jokeStillNo} 🙂</span>
           ) : legendUnitIndex === 3 ? (
-            <span style={{ fontWeight: 700, fontSize: 14, color: '#1b5e20' }}>ok fine 🙂</span>
+            <span style={{ fontWeight: 700, fontSize: 14, color: '#1b5e20' }}>{t.legend.jokeOkFine} 🙂</span>
           ) : legendUnitIndex === 4 ? (
-            <span style={{ fontWeight: 700, fontSize: 14, color: '#1b5e20' }}>welcome back 🙂</span>
+            <span style={{ fontWeight: 700, fontSize: 14, color: '#1b5e20' }}>{t.legend.jokeWelcomeBack} 🙂</span>
           ) : null}
         </div>
       </div>
@@ -0,0 +1,123 @@
+'use client';
+
+import { froggerDifficultyLabel } from '../lib/frogger';
+import { compassPoint } from '../lib/geo';
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+import type { NearestCrossingResult } from '../lib/nearestCrossing';
+import { formatDistance, type UnitSystem } from '../lib/units';
+
+export type NearestCrossingStatus = 'searching' | 'done' | 'error';
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: 8,
+  padding: '8px 10px',
+  border: '1px solid rgba(0, 0, 0, 0.12)',
+  borderRadius: 8,
+  color: 'inherit',
+  background: 'rgba(255, 255, 255, 0.92)',
+  fontSize: 12,
+  fontWeight: 600,
+  lineHeight: 1.2,
+  cursor: 'pointer',
+};
+
+const tableStyle: React.CSSProperties = {
+  width: '100%',
+  borderCollapse: 'collapse',
+  fontSize: 12,
+};
+
+const tableKeyStyle: React.CSSProperties = {
+  padding: '3px 6px 3px 0',
+  verticalAlign: 'top',
+  color: 'rgba(0, 0, 0, 0.75)',
+  whiteSpace: 'nowrap',
+};
+
+const tableValueStyle: React.CSSProperties = {
+  padding: '3px 0',
+  verticalAlign: 'top',
+};
+
+// `crossing_type` is an OSM tag value, shown as-is; untagged ones are just "marked".
+function formatCrossingType(crossingType: string | null, locale: Locale): string {
+  return crossingType ? crossingType.replace(/_/g, ' ') : messagesFor(locale).nearest.markedCrossing;
+}
+
+export default function NearestCrossingPanel({
+  status,
+  result,
+  error,
+  units,
+  locale,
+  onClose,
+}: {
+  status: NearestCrossingStatus;
+  result: NearestCrossingResult | null;
+  error: string | null;
+  units: UnitSystem;
+  locale: Locale;
+  onClose: () => void;
+}) {
+  const t = messagesFor(locale);
+  const marked = result?.marked ?? null;
+  const hazard = result?.nearbyUnmarked ?? null;
+
+  return (
+    <div className="map-overlay map-overlay--info" aria-label={t.nearest.label} aria-live="polite">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 700 }}>{t.nearest.title}</div>
+
+        {status === 'searching' ? <div>{t.nearest.searching}</div> : null}
+        {status === 'error' ? <div style={{ color: '#b71c1c', fontWeight: 600 }}>{error}</div> : null}
+
+        {status === 'done' && hazard ? (
+          <div role="alert" style={{ padding: '6px 8px', borderRadius: 6, background: '#ffebee', color: '#b71c1c', fontWeight: 600 }}>
+            {t.nearest.hazard(
+              formatDistance(hazard.distanceMeters, units, locale),
+              hazard.roadName,
+              formatNumber(hazard.froggerIndex, locale, 2),
+              t.difficulty[froggerDifficultyLabel(hazard.froggerIndex)],
+            )}
+          </div>
+        ) : null}
+
+        {status === 'done' && marked ? (
+          <table style={tableStyle}>
+            <tbody>
+              <tr>
+                <td style={tableKeyStyle}>{t.nearest.distance}</td>
+                <td style={tableValueStyle}>
+                  <strong>{formatDistance(marked.distanceMeters, units, locale)}</strong> {t.nearest.straightLine}
+                </td>
+              </tr>
+              <tr>
+                <td style={tableKeyStyle}>{t.nearest.direction}</td>
+                <td style={tableValueStyle}>
+                  <strong>{t.nearest.compass[compassPoint(marked.bearing)]}</strong> ({formatNumber(marked.bearing, locale)}°)
+                </td>
+              </tr>
+              <tr>
+                <td style={tableKeyStyle}>{t.nearest.crossing}</td>
+                <td style={tableValueStyle}>
+                  <strong>{formatCrossingType(marked.crossingType, locale)}</strong>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        ) : null}
+
+        {status === 'done' && !marked ? <div>{t.nearest.notFound}</div> : null}
+
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button type="button" style={buttonStyle} onClick={onClose}>
+            {t.common.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
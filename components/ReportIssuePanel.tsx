@@ -0,0 +1,228 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { downloadFile } from '../lib/exportFeatures';
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+import {
+  ISSUE_CATEGORIES,
+  REPORT_ENDPOINT,
+  createReport,
+  deleteReports,
+  listReports,
+  reportsToGeoJson,
+  saveReports,
+  sendReports,
+  type IssueCategory,
+  type IssueReport,
+  type ReportTarget,
+} from '../lib/issueReports';
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: 8,
+  padding: '8px 10px',
+  border: '1px solid rgba(0, 0, 0, 0.12)',
+  borderRadius: 8,
+  color: 'inherit',
+  background: 'rgba(255, 255, 255, 0.92)',
+  fontSize: 12,
+  fontWeight: 600,
+  lineHeight: 1.2,
+  cursor: 'pointer',
+};
+
+const tableStyle: React.CSSProperties = {
+  width: '100%',
+  borderCollapse: 'collapse',
+  fontSize: 11,
+};
+
+const tableKeyStyle: React.CSSProperties = {
+  padding: '2px 6px 2px 0',
+  verticalAlign: 'top',
+  color: 'rgba(0, 0, 0, 0.75)',
+  whiteSpace: 'nowrap',
+};
+
+function formatValue(value: unknown, locale: Locale): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'number' && !Number.isInteger(value) ? formatNumber(value, locale, 2) : String(value);
+}
+
+function TargetDetails({ target, locale }: { target: ReportTarget; locale: Locale }) {
+  const rows = [...Object.entries(target.osmIds), ...Object.entries(target.properties)];
+  return (
+    <details style={{ fontSize: 12 }}>
+      <summary style={{ cursor: 'pointer', fontWeight: 600 }}>{messagesFor(locale).report.included}</summary>
+      <table style={tableStyle}>
+        <tbody>
+          {rows.map(([key, value]) => (
+            <tr key={key}>
+              <td style={tableKeyStyle}>{key}</td>
+              <td>{formatValue(value, locale)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
+export default function ReportIssuePanel({
+  target,
+  locale,
+  onOutboxChange,
+  onClose,
+}: {
+  // The feature being reported; null shows only the outbox.
+  target: ReportTarget | null;
+  locale: Locale;
+  onOutboxChange: (queued: number) => void;
+  onClose: () => void;
+}) {
+  const t = messagesFor(locale);
+  const [category, setCategory] = useState<IssueCategory | null>(null);
+  const [comment, setComment] = useState('');
+  const [reports, setReports] = useState<IssueReport[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const next = await listReports();
+    setReports(next);
+    onOutboxChange(next.filter((r) => r.status === 'queued').length);
+  }, [onOutboxChange]);
+
+  const unavailableMessage = t.report.unavailable;
+  useEffect(() => {
+    refresh().catch(() => setError(unavailableMessage));
+  }, [refresh, unavailableMessage]);
+
+  useEffect(() => {
+    setCategory(null);
+    setComment('');
+    setSubmitted(false);
+    setMessage(null);
+  }, [target]);
+
+  // Wraps outbox actions so failures surface in the panel instead of the console.
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setMessage(await action());
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const endpoint = REPORT_ENDPOINT;
+  const queued = reports.filter((r) => r.status === 'queued');
+  const sent = reports.filter((r) => r.status === 'sent');
+
+  return (
+    <div className="map-overlay map-overlay--info" aria-label={t.report.label}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 700 }}>{target ? t.report.titleFor(target.title) : t.report.outboxTitle}</div>
+
+        {target && !submitted ? (
+          <form
+            style={{ display: 'flex', flexDirection: 'column', gap: 8 }}
+            onSubmit={(evt) => {
+              evt.preventDefault();
+              if (!category) return;
+              run(async () => {
+                await saveReports([createReport(category, comment, target)]);
+                setSubmitted(true);
+                return t.report.saved;
+              });
+            }}
+          >
+            <fieldset style={{ border: 0, margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <legend style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>{t.report.whatIsWrong}</legend>
+              {ISSUE_CATEGORIES.map((c) => (
+                <label key={c} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+                  <input type="radio" name="issue-category" value={c} checked={category === c} onChange={() => setCategory(c)} />
+                  {t.report.categories[c]}
+                </label>
+              ))}
+            </fieldset>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12, fontWeight: 600 }}>
+              {t.report.details}
+              <textarea rows={3} value={comment} maxLength={2000} onChange={(evt) => setComment(evt.target.value)} />
+            </label>
+            <TargetDetails target={target} locale={locale} />
+            <div>
+              <button type="submit" style={buttonStyle} disabled={!category || busy}>
+                {t.report.addToOutbox}
+              </button>
+            </div>
+          </form>
+        ) : null}
+
+        {message ? <div role="status">{message}</div> : null}
+        {error ? <div style={{ color: '#b71c1c', fontWeight: 600 }}>{error}</div> : null}
+
+        <div style={{ borderTop: '1px solid rgba(0, 0, 0, 0.12)', paddingTop: 8, fontSize: 12 }}>
+          {t.report.outboxLabel} <strong>{t.report.outboxCounts(queued.length, sent.length)}</strong>
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+          {endpoint && queued.length > 0 ? (
+            <button
+              type="button"
+              style={buttonStyle}
+              disabled={busy}
+              onClick={() =>
+                run(async () => {
+                  const done = await sendReports(endpoint, queued);
+                  return t.report.sent(done.length);
+                })
+              }
+            >
+              {t.report.send(queued.length)}
+            </button>
+          ) : null}
+          {reports.length > 0 ? (
+            <button
+              type="button"
+              style={buttonStyle}
+              onClick={() => {
+                const date = new Date().toISOString().slice(0, 10);
+                downloadFile(`issue-reports-${date}.geojson`, reportsToGeoJson(reports), 'application/geo+json');
+              }}
+            >
+              {t.common.exportGeoJson}
+            </button>
+          ) : null}
+          {sent.length > 0 ? (
+            <button
+              type="button"
+              style={buttonStyle}
+              disabled={busy}
+              onClick={() =>
+                run(async () => {
+                  await deleteReports(sent.map((r) => r.id));
+                  return t.report.cleared;
+                })
+              }
+            >
+              {t.report.clearSent}
+            </button>
+          ) : null}
+          <button type="button" style={buttonStyle} onClick={onClose}>
+            {t.common.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+import type { Route } from '../lib/routing';
+import { formatDistance, type UnitSystem } from '../lib/units';
+
+export type RoutePlan = {
+  shortest: Route;
+  safer: Route;
+};
+
+export type RouteStatus = 'pick-start' | 'pick-end' | 'computing' | 'done' | 'error';
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: 8,
+  padding: '8px 10px',
+  border: '1px solid rgba(0, 0, 0, 0.12)',
+  borderRadius: 8,
+  color: 'inherit',
+  background: 'rgba(255, 255, 255, 0.92)',
+  fontSize: 12,
+  fontWeight: 600,
+  lineHeight: 1.2,
+  cursor: 'pointer',
+};
+
+const tableStyle: React.CSSProperties = {
+  width: '100%',
+  borderCollapse: 'collapse',
+  fontSize: 12,
+};
+
+const tableKeyStyle: React.CSSProperties = {
+  padding: '3px 6px 3px 0',
+  verticalAlign: 'top',
+  color: 'rgba(0, 0, 0, 0.75)',
+  whiteSpace: 'nowrap',
+};
+
+const tableValueStyle: React.CSSProperties = {
+  padding: '3px 0',
+  verticalAlign: 'top',
+};
+
+function formatWorstSegment(route: Route, locale: Locale): string {
+  if (!route.worst) return '—';
+  const t = messagesFor(locale);
+  return t.route.worstOn(formatNumber(route.worst.froggerIndex, locale, 2), route.worst.name ?? t.common.unnamedRoad);
+}
+
+function RouteSummary({
+  label,
+  swatch,
+  route,
+  units,
+  locale,
+}: {
+  label: string;
+  swatch: string;
+  route: Route;
+  units: UnitSystem;
+  locale: Locale;
+}) {
+  const t = messagesFor(locale).route;
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, fontWeight: 700 }}>
+        <span className="legend-line" style={{ borderTopColor: swatch }} />
+        {label}
+      </div>
+      <table style={tableStyle}>
+        <tbody>
+          <tr>
+            <td style={tableKeyStyle}>{t.distance}</td>
+            <td style={tableValueStyle}>
+              <strong>{formatDistance(route.distanceMeters, units, locale)}</strong>
+            </td>
+          </tr>
+          <tr>
+            <td style={tableKeyStyle}>{t.worstSegment}</td>
+            <td style={tableValueStyle}>
+              <strong>{formatWorstSegment(route, locale)}</strong>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function RoutePanel({
+  status,
+  plan,
+  error,
+  units,
+  locale,
+  onClear,
+  onClose,
+}: {
+  status: RouteStatus;
+  plan: RoutePlan | null;
+  error: string | null;
+  units: UnitSystem;
+  locale: Locale;
+  onClear: () => void;
+  onClose: () => void;
+}) {
+  const t = messagesFor(locale);
+  const detourMeters = plan ? Math.max(0, plan.safer.distanceMeters - plan.shortest.distanceMeters) : 0;
+
+  return (
+    <div className="map-overlay map-overlay--info" aria-label={t.route.label} aria-live="polite">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 700 }}>{t.route.title}</div>
+
+        {status === 'pick-start' ? <div>{t.route.pickStart}</div> : null}
+        {status === 'pick-end' ? <div>{t.route.pickEnd}</div> : null}
+        {status === 'computing' ? <div>{t.route.computing}</div> : null}
+        {status === 'error' ? <div style={{ color: '#b71c1c', fontWeight: 600 }}>{error}</div> : null}
+
+        {status === 'done' && plan ? (
+          <>
+            <RouteSummary label={t.route.saferRoute} swatch="#1565c0" route={plan.safer} units={units} locale={locale} />
+            <RouteSummary label={t.route.shortestRoute} swatch="#616161" route={plan.shortest} units={units} locale={locale} />
+            <div style={{ fontSize: 12 }}>
+              {t.route.addedDetour} <strong>{formatDistance(detourMeters, units, locale)}</strong>
+            </div>
+            <div style={{ fontSize: 11, color: 'rgba(0, 0, 0, 0.6)' }}>{t.route.note}</div>
+          </>
+        ) : null}
+
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button type="button" style={buttonStyle} onClick={onClear}>
+            {t.common.startOver}
+          </button>
+          <button type="button" style={buttonStyle} onClick={onClose}>
+            {t.common.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
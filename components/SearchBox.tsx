@@ -0,0 +1,140 @@
+'use client';
+
+import { useId, useMemo, useState } from 'react';
+
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+import { searchEntries, type SearchEntry } from '../lib/searchIndex';
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 8px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  font: 'inherit',
+  fontWeight: 400,
+  fontSize: 13,
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: 'none',
+  margin: '4px 0 0 0',
+  padding: 0,
+  border: '1px solid rgba(0, 0, 0, 0.12)',
+  borderRadius: 6,
+  background: '#fff',
+  maxHeight: 260,
+  overflowY: 'auto',
+};
+
+const optionStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: 8,
+  padding: '6px 8px',
+  fontSize: 12,
+  fontWeight: 400,
+  cursor: 'pointer',
+};
+
+function formatEntryHint(entry: SearchEntry, locale: Locale): string {
+  const t = messagesFor(locale).search;
+  const raw = entry.properties.frogger_index;
+  const fi = typeof raw === 'number' ? raw : Number(raw);
+  const worst = Number.isFinite(fi) ? t.worst(formatNumber(fi, locale, 2)) : '';
+  return entry.kind === 'crossing' ? [t.unmarkedCrossing, worst].filter(Boolean).join(', ') : worst;
+}
+
+export default function SearchBox({
+  entries,
+  status,
+  locale,
+  onSelect,
+}: {
+  entries: readonly SearchEntry[];
+  status: 'loading' | 'ready' | 'unavailable';
+  locale: Locale;
+  onSelect: (entry: SearchEntry) => void;
+}) {
+  const t = messagesFor(locale).search;
+  const listboxId = useId();
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(() => searchEntries(entries, query), [entries, query]);
+  const showList = open && results.length > 0;
+
+  const choose = (entry: SearchEntry) => {
+    setQuery(entry.name);
+    setOpen(false);
+    onSelect(entry);
+  };
+
+  const onKeyDown = (evt: React.KeyboardEvent<HTMLInputElement>) => {
+    if (evt.key === 'ArrowDown') {
+      evt.preventDefault();
+      setOpen(true);
+      setActiveIndex((i) => (results.length ? (i + 1) % results.length : 0));
+    } else if (evt.key === 'ArrowUp') {
+      evt.preventDefault();
+      setActiveIndex((i) => (results.length ? (i - 1 + results.length) % results.length : 0));
+    } else if (evt.key === 'Enter') {
+      const entry = results[activeIndex];
+      if (!entry) return;
+      evt.preventDefault();
+      choose(entry);
+    } else if (evt.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const placeholder = status === 'loading' ? t.loading : status === 'unavailable' ? t.unavailable : t.placeholder;
+
+  return (
+    <div style={{ position: 'relative', marginTop: 8 }}>
+      <input
+        type="search"
+        role="combobox"
+        aria-label={t.label}
+        aria-expanded={showList}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList ? `${listboxId}-${activeIndex}` : undefined}
+        placeholder={placeholder}
+        disabled={status !== 'ready'}
+        value={query}
+        onChange={(evt) => {
+          setQuery(evt.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        style={inputStyle}
+      />
+      {showList ? (
+        <ul id={listboxId} role="listbox" aria-label={t.results} style={listStyle}>
+          {results.map((entry, i) => (
+            <li
+              key={`${entry.kind}:${entry.name}:${entry.lngLat.join(',')}`}
+              id={`${listboxId}-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Select on mousedown so the input's blur doesn't close the list first.
+              onMouseDown={(evt) => {
+                evt.preventDefault();
+                choose(entry);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+              style={{ ...optionStyle, background: i === activeIndex ? '#e8f5e9' : 'transparent' }}
+            >
+              <span>{entry.name}</span>
+              <span style={{ color: 'rgba(0, 0, 0, 0.6)', whiteSpace: 'nowrap' }}>{formatEntryHint(entry, locale)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { messagesFor, type Locale } from '../lib/i18n';
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: 8,
+  padding: '8px 10px',
+  border: '1px solid rgba(0, 0, 0, 0.12)',
+  borderRadius: 8,
+  color: 'inherit',
+  background: 'rgba(255, 255, 255, 0.92)',
+  fontSize: 12,
+  fontWeight: 600,
+  lineHeight: 1.2,
+  cursor: 'pointer',
+};
+
+// Shown when a share link names a street or crossing that the loaded tiles don't have.
+export default function SharedFeatureMissingPanel({ locale, onClose }: { locale: Locale; onClose: () => void }) {
+  const t = messagesFor(locale);
+
+  return (
+    <div className="map-overlay map-overlay--info" role="alert" aria-label={t.share.missingTitle}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 700 }}>{t.share.missingTitle}</div>
+        <div>{t.share.missing}</div>
+        <div>
+          <button type="button" style={buttonStyle} onClick={onClose}>
+            {t.common.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
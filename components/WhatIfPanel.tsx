@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  MAX_FROGGER_WEIGHT,
+  OFFICIAL_FROGGER_WEIGHTS,
+  isOfficialFroggerWeights,
+  type FroggerFactor,
+  type FroggerWeights,
+} from '../lib/frogger';
+import { formatNumber, messagesFor, type Locale } from '../lib/i18n';
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: 8,
+  padding: '8px 10px',
+  border: '1px solid rgba(0, 0, 0, 0.12)',
+  borderRadius: 8,
+  color: 'inherit',
+  background: 'rgba(255, 255, 255, 0.92)',
+  fontSize: 12,
+  fontWeight: 600,
+  lineHeight: 1.2,
+  cursor: 'pointer',
+};
+
+const sliderLabelStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 2,
+  fontSize: 12,
+};
+
+const SLIDERS: ReadonlyArray<{ key: FroggerFactor | 'distance'; max: number }> = [
+  { key: 'speed', max: MAX_FROGGER_WEIGHT },
+  { key: 'lanes', max: MAX_FROGGER_WEIGHT },
+  { key: 'volume', max: MAX_FROGGER_WEIGHT },
+  { key: 'distance', max: 1 },
+];
+
+// Planner tool: recolors the Frogger Index layer with custom weights (see
+// `buildFroggerIndexExpression`). The weights live in the URL, so a link reproduces the view.
+export default function WhatIfPanel({
+  weights,
+  locale,
+  onChange,
+  onCopyLink,
+  onClose,
+}: {
+  weights: FroggerWeights;
+  locale: Locale;
+  onChange: (weights: FroggerWeights) => void;
+  onCopyLink: () => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const t = messagesFor(locale);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const official = isOfficialFroggerWeights(weights);
+
+  const onCopyClick = async () => {
+    const ok = await onCopyLink();
+    setCopyStatus(ok ? 'copied' : 'failed');
+    window.setTimeout(() => setCopyStatus('idle'), 2000);
+  };
+
+  return (
+    <div className="map-overlay map-overlay--info" aria-label={t.whatIf.title}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 700 }}>{t.whatIf.title}</div>
+        <div>{t.whatIf.intro}</div>
+
+        {SLIDERS.map(({ key, max }) => (
+          <label key={key} style={sliderLabelStyle}>
+            <span>
+              {t.whatIf.weights[key]}{' '}
+              <strong>{formatNumber(weights[key], locale, 1)}</strong>
+              {weights[key] !== OFFICIAL_FROGGER_WEIGHTS[key] ? (
+                <span style={{ color: 'rgba(0, 0, 0, 0.5)' }}> {t.whatIf.official(formatNumber(OFFICIAL_FROGGER_WEIGHTS[key], locale, 1))}</span>
+              ) : null}
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={max}
+              step={0.1}
+              value={weights[key]}
+              onChange={(evt) => onChange({ ...weights, [key]: Number(evt.target.value) })}
+            />
+          </label>
+        ))}
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+          <input
+            type="checkbox"
+            checked={weights.hardZero}
+            onChange={(evt) => onChange({ ...weights, hardZero: evt.target.checked })}
+          />
+          {t.whatIf.hardZero}
+        </label>
+
+        <div style={{ fontSize: 11, color: 'rgba(0, 0, 0, 0.6)' }}>{official ? t.whatIf.usingOfficial : t.whatIf.usingCustom}</div>
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+          <button type="button" style={buttonStyle} disabled={official} onClick={() => onChange(OFFICIAL_FROGGER_WEIGHTS)}>
+            {t.whatIf.reset}
+          </button>
+          <button type="button" style={buttonStyle} onClick={onCopyClick}>
+            {copyStatus === 'copied' ? t.common.copied : copyStatus === 'failed' ? t.common.copyFailed : t.common.copyLink}
+          </button>
+          <button type="button" style={buttonStyle} onClick={onClose}>
+            {t.common.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { FlatCompat } from '@eslint/eslintrc';
+
+const compat = new FlatCompat({ baseDirectory: dirname(fileURLToPath(import.meta.url)) });
+
+const eslintConfig = [
+  ...compat.extends('next/core-web-vitals', 'next/typescript'),
+  { ignores: ['node_modules/**', '.next/**', 'out/**', 'data/**', 'public/**', 'next-env.d.ts'] },
+];
+
+export default eslintConfig;
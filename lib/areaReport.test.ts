@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildAreaReport } from './areaReport';
+import { haversineMeters, type LngLatTuple } from './geo';
+
+const RING: LngLatTuple[] = [
+  [0, 0],
+  [0.001, 0],
+  [0.001, 0.001],
+  [0, 0.001],
+  [0, 0],
+];
+
+function street(coordinates: LngLatTuple[], props: Record<string, unknown>): GeoJSON.Feature {
+  return { type: 'Feature', properties: props, geometry: { type: 'LineString', coordinates } };
+}
+
+function crossing(coordinates: LngLatTuple, props: Record<string, unknown>): GeoJSON.Feature {
+  return { type: 'Feature', properties: props, geometry: { type: 'Point', coordinates } };
+}
+
+const MAIN: LngLatTuple[] = [
+  [0.0002, 0.0005],
+  [0.0008, 0.0005],
+];
+const MAIN_METERS = haversineMeters(MAIN[0], MAIN[1]);
+
+const OAK: LngLatTuple[] = [
+  [0.0005, 0.0003],
+  [0.0015, 0.0003],
+];
+const OAK_METERS = haversineMeters(OAK[0], OAK[1]);
+
+// Main St lies inside the area and arrives twice, as tiles repeat features; Oak Ave leaves
+// the area halfway.
+const STREETS = [
+  street(MAIN, { road_osm_id: 1, name: 'Main St', highway: 'primary', frogger_index: 0.5, dist_to_crossing_meters: 300 }),
+  street(MAIN, { road_osm_id: 1, name: 'Main St', highway: 'primary', frogger_index: 0.5, dist_to_crossing_meters: 300 }),
+  street(OAK, { road_osm_id: 2, name: 'Oak Ave', highway: 'tertiary', frogger_index: 0.1, dist_to_crossing_meters: 40 }),
+];
+
+describe('buildAreaReport', () => {
+  const report = buildAreaReport(STREETS, [], RING, 0.4);
+
+  it('counts repeated features once and only the length inside the area', () => {
+    expect(report.metersByDifficulty.hard).toBeCloseTo(MAIN_METERS, 6);
+    // Half of Oak Ave's ~111 m, to within one of the 25 m pieces the boundary is tested at.
+    expect(Math.abs(report.metersByDifficulty.easy - OAK_METERS / 2)).toBeLessThanOrEqual(25);
+    expect(report.totalMeters).toBeCloseTo(report.metersByDifficulty.hard + report.metersByDifficulty.easy, 6);
+  });
+
+  it('weights the median distance to a crossing by length', () => {
+    expect(report.medianDistToCrossingMeters).toBe(300);
+  });
+
+  it('lists the worst streets first', () => {
+    expect(report.worstStreets.map((s) => s.name)).toEqual(['Main St', 'Oak Ave']);
+  });
+
+  it('counts distinct unmarked crossings above the threshold inside the area', () => {
+    const crossings = [
+      crossing([0.0005, 0.0005], { point_osm_id: 10, frogger_index: 0.7 }),
+      crossing([0.0005, 0.0005], { point_osm_id: 10, frogger_index: 0.7 }),
+      crossing([0.0006, 0.0006], { point_osm_id: 11, frogger_index: 0.3 }),
+      crossing([0.002, 0.002], { point_osm_id: 12, frogger_index: 0.9 }),
+    ];
+    expect(buildAreaReport([], crossings, RING, 0.4).unmarkedCrossingsAboveThreshold).toBe(1);
+  });
+
+  it('has no median without streets', () => {
+    expect(buildAreaReport([], [], RING, 0.4).medianDistToCrossingMeters).toBeNull();
+  });
+});
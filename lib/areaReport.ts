@@ -0,0 +1,147 @@
+// Statistics for a user-drawn area, computed from the `streets` and `unmarked_crossings`
+// features in the currently loaded sketchiness tiles (the same approach as lib/routing.ts).
+
+import { FROGGER_DIFFICULTIES, froggerDifficultyLabel, type FroggerDifficulty } from './frogger';
+import { haversineMeters, lineParts, pointInPolygon, type LngLatTuple } from './geo';
+
+export type AreaStreet = {
+  // null for unnamed roads.
+  name: string | null;
+  highway: string | null;
+  froggerIndex: number;
+  lengthMeters: number;
+};
+
+export type AreaReport = {
+  metersByDifficulty: Record<FroggerDifficulty, number>;
+  totalMeters: number;
+  unmarkedCrossingsAboveThreshold: number;
+  // Length-weighted: half of the road length inside the area is at most this far from a
+  // marked crossing. Tiles cap distances at 500m, so 500 means "500m or more".
+  medianDistToCrossingMeters: number | null;
+  worstStreets: AreaStreet[];
+};
+
+const WORST_STREETS_LIMIT = 5;
+
+// Segments longer than this are split so that a street crossing the area boundary is only
+// counted for the part inside it.
+const MAX_PIECE_METERS = 25;
+
+function numberProp(props: Record<string, unknown>, key: string): number | null {
+  const value = props[key];
+  const num = typeof value === 'number' ? value : value != null ? Number(value) : Number.NaN;
+  return Number.isFinite(num) ? num : null;
+}
+
+// Features are repeated across tiles (and tile buffers), so segments are keyed by their
+// rounded endpoints and counted once.
+function segmentKey(a: LngLatTuple, b: LngLatTuple): string {
+  const ka = `${a[0].toFixed(6)},${a[1].toFixed(6)}`;
+  const kb = `${b[0].toFixed(6)},${b[1].toFixed(6)}`;
+  return ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+}
+
+function lengthInside(a: LngLatTuple, b: LngLatTuple, ring: readonly LngLatTuple[]): number {
+  const length = haversineMeters(a, b);
+  const pieces = Math.max(1, Math.ceil(length / MAX_PIECE_METERS));
+  let inside = 0;
+  for (let i = 0; i < pieces; i++) {
+    const t = (i + 0.5) / pieces;
+    const mid: LngLatTuple = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+    if (pointInPolygon(mid, ring)) inside += length / pieces;
+  }
+  return inside;
+}
+
+function weightedMedian(samples: Array<{ value: number; weight: number }>): number | null {
+  const total = samples.reduce((sum, s) => sum + s.weight, 0);
+  if (total <= 0) return null;
+
+  const sorted = [...samples].sort((x, y) => x.value - y.value);
+  let acc = 0;
+  for (const s of sorted) {
+    acc += s.weight;
+    if (acc >= total / 2) return s.value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+export function buildAreaReport(
+  streets: readonly GeoJSON.Feature[],
+  crossings: readonly GeoJSON.Feature[],
+  ring: readonly LngLatTuple[],
+  unmarkedThreshold: number,
+): AreaReport {
+  const metersByDifficulty = Object.fromEntries(FROGGER_DIFFICULTIES.map((d) => [d, 0])) as Record<FroggerDifficulty, number>;
+  let totalMeters = 0;
+  const distSamples: Array<{ value: number; weight: number }> = [];
+  const byStreet = new Map<string, AreaStreet>();
+  const seenSegments = new Set<string>();
+
+  for (const feature of streets) {
+    if (!feature.geometry) continue;
+
+    const props = (feature.properties ?? {}) as Record<string, unknown>;
+    const froggerIndex = Math.max(0, numberProp(props, 'frogger_index') ?? 0);
+    const dist = numberProp(props, 'dist_to_crossing_meters');
+    const highway = typeof props.highway === 'string' ? props.highway : null;
+    const rawName = typeof props.name === 'string' ? props.name.trim() : '';
+
+    let featureMeters = 0;
+    for (const part of lineParts(feature.geometry)) {
+      for (let i = 1; i < part.length; i++) {
+        const key = segmentKey(part[i - 1], part[i]);
+        if (seenSegments.has(key)) continue;
+        seenSegments.add(key);
+        featureMeters += lengthInside(part[i - 1], part[i], ring);
+      }
+    }
+    if (featureMeters <= 0) continue;
+
+    totalMeters += featureMeters;
+    metersByDifficulty[froggerDifficultyLabel(froggerIndex)] += featureMeters;
+    if (dist !== null) distSamples.push({ value: dist, weight: featureMeters });
+
+    // Unnamed roads are kept apart per OSM way rather than lumped together. `osm_id` is per
+    // 20 m segment; it's only the fallback for tiles exported before `road_osm_id`.
+    const streetKey = rawName ? rawName.toLowerCase() : `osm:${String(props.road_osm_id ?? props.osm_id ?? '')}`;
+    const existing = byStreet.get(streetKey);
+    if (existing) {
+      existing.lengthMeters += featureMeters;
+      if (froggerIndex > existing.froggerIndex) {
+        existing.froggerIndex = froggerIndex;
+        existing.highway = highway;
+      }
+    } else {
+      byStreet.set(streetKey, { name: rawName || null, highway, froggerIndex, lengthMeters: featureMeters });
+    }
+  }
+
+  const seenCrossings = new Set<string>();
+  for (const feature of crossings) {
+    if (!feature.geometry || feature.geometry.type !== 'Point') continue;
+
+    const props = (feature.properties ?? {}) as Record<string, unknown>;
+    const id = String(props.point_osm_id ?? feature.geometry.coordinates.join(','));
+    if (seenCrossings.has(id)) continue;
+
+    const froggerIndex = numberProp(props, 'frogger_index');
+    if (froggerIndex === null || froggerIndex <= unmarkedThreshold) continue;
+    if (!pointInPolygon(feature.geometry.coordinates as LngLatTuple, ring)) continue;
+    seenCrossings.add(id);
+  }
+
+  const worstStreets = [...byStreet.values()]
+    .filter((s) => s.froggerIndex > 0)
+    .sort((a, b) => b.froggerIndex - a.froggerIndex || b.lengthMeters - a.lengthMeters)
+    .slice(0, WORST_STREETS_LIMIT);
+
+  return {
+    metersByDifficulty,
+    totalMeters,
+    unmarkedCrossingsAboveThreshold: seenCrossings.size,
+    medianDistToCrossingMeters: weightedMedian(distSamples),
+    worstStreets,
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import { ODBL_ATTRIBUTION, isFeatureInRing, mergeTileFeatures, toCsv, toGeoJson, type CsvColumn } from './exportFeatures';
+import type { LngLatTuple } from './geo';
+
+function line(coordinates: LngLatTuple[], props: Record<string, unknown>): GeoJSON.Feature {
+  return { type: 'Feature', properties: props, geometry: { type: 'LineString', coordinates } };
+}
+
+function point(coordinates: LngLatTuple, props: Record<string, unknown>): GeoJSON.Feature {
+  return { type: 'Feature', properties: props, geometry: { type: 'Point', coordinates } };
+}
+
+describe('mergeTileFeatures', () => {
+  it('joins the pieces of a street cut at tile borders and drops repeated pieces', () => {
+    const props = { road_osm_id: 1, segment_no: 0 };
+    const west = line([[0, 0], [1, 0]], props);
+    const east = line([[1, 0], [2, 0]], props);
+    const merged = mergeTileFeatures([west, east, west], (f) => JSON.stringify(f.properties));
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].properties).toEqual(props);
+    expect(merged[0].geometry).toEqual({
+      type: 'MultiLineString',
+      coordinates: [
+        [[0, 0], [1, 0]],
+        [[1, 0], [2, 0]],
+      ],
+    });
+  });
+
+  it('keeps a street seen in one piece a LineString', () => {
+    const merged = mergeTileFeatures([line([[0, 0], [1, 0]], { road_osm_id: 1 })], () => 'one');
+    expect(merged[0].geometry.type).toBe('LineString');
+  });
+
+  it('keeps one copy of a repeated point', () => {
+    const crossing = point([0, 0], { point_osm_id: 5 });
+    expect(mergeTileFeatures([crossing, crossing], (f) => String(f.properties?.point_osm_id))).toHaveLength(1);
+  });
+});
+
+describe('isFeatureInRing', () => {
+  const ring: LngLatTuple[] = [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+    [0, 0],
+  ];
+
+  it('counts a line with any vertex inside', () => {
+    expect(isFeatureInRing(line([[0.5, 0.5], [2, 2]], {}), ring)).toBe(true);
+    expect(isFeatureInRing(line([[2, 2], [3, 3]], {}), ring)).toBe(false);
+  });
+});
+
+describe('toCsv', () => {
+  type Row = { name: string | null; lanes: number | null; inferred: boolean };
+  const columns: CsvColumn<Row>[] = [
+    { header: 'name', value: (r) => r.name },
+    { header: 'lanes', value: (r) => r.lanes },
+    { header: 'lanes_inferred', value: (r) => r.inferred },
+  ];
+
+  it('starts with the attribution line and escapes quotes, commas and newlines', () => {
+    const csv = toCsv<Row>(
+      [
+        { name: 'Main St, "Old" Road', lanes: 4, inferred: false },
+        { name: 'Line\nBreak', lanes: null, inferred: true },
+      ],
+      columns,
+    );
+
+    expect(csv).toBe(
+      `\ufeff# ${ODBL_ATTRIBUTION}\r\n` +
+        'name,lanes,lanes_inferred\r\n' +
+        '"Main St, ""Old"" Road",4,false\r\n' +
+        '"Line\nBreak",,true\r\n',
+    );
+  });
+});
+
+describe('toGeoJson', () => {
+  it('carries the ODbL attribution', () => {
+    expect(JSON.parse(toGeoJson([]))).toEqual({
+      type: 'FeatureCollection',
+      attribution: ODBL_ATTRIBUTION,
+      license: 'ODbL-1.0',
+      features: [],
+    });
+  });
+});
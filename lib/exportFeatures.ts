@@ -0,0 +1,100 @@
+// GeoJSON/CSV downloads of sketchiness tile features. Everything derived from OSM must carry
+// the ODbL attribution, so both formats embed it in the file itself.
+
+import { lineParts, pointInPolygon, type LngLatTuple } from './geo';
+
+export const ODBL_ATTRIBUTION =
+  '© OpenStreetMap contributors. Data available under the Open Database License (ODbL): https://www.openstreetmap.org/copyright';
+
+export type CsvColumn<T> = {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+};
+
+// Tiles repeat features across tile boundaries, and long streets are cut into pieces per
+// tile. Pieces with the same key are merged back into one feature.
+export function mergeTileFeatures(
+  features: readonly GeoJSON.Feature[],
+  keyOf: (feature: GeoJSON.Feature) => string,
+): GeoJSON.Feature[] {
+  const merged = new Map<string, { feature: GeoJSON.Feature; lines: LngLatTuple[][]; seen: Set<string> }>();
+
+  for (const feature of features) {
+    if (!feature.geometry) continue;
+    const key = keyOf(feature);
+    let entry = merged.get(key);
+
+    if (feature.geometry.type === 'Point') {
+      if (!entry) merged.set(key, { feature: toPlainFeature(feature, feature.geometry), lines: [], seen: new Set() });
+      continue;
+    }
+
+    if (!entry) {
+      entry = { feature: toPlainFeature(feature, null), lines: [], seen: new Set() };
+      merged.set(key, entry);
+    }
+    for (const part of lineParts(feature.geometry)) {
+      const partKey = JSON.stringify(part);
+      if (entry.seen.has(partKey)) continue;
+      entry.seen.add(partKey);
+      entry.lines.push(part);
+    }
+  }
+
+  return [...merged.values()].map(({ feature, lines }) => {
+    if (feature.geometry) return feature;
+    return {
+      ...feature,
+      geometry: lines.length === 1 ? { type: 'LineString', coordinates: lines[0] } : { type: 'MultiLineString', coordinates: lines },
+    };
+  });
+}
+
+// MapLibre features carry tile internals (`_vectorTileFeature`, layer refs) that don't serialize.
+function toPlainFeature(feature: GeoJSON.Feature, geometry: GeoJSON.Geometry | null): GeoJSON.Feature {
+  return {
+    type: 'Feature',
+    properties: { ...(feature.properties ?? {}) },
+    geometry: geometry as GeoJSON.Geometry,
+  };
+}
+
+export function isFeatureInRing(feature: GeoJSON.Feature, ring: readonly LngLatTuple[]): boolean {
+  if (!feature.geometry) return false;
+  if (feature.geometry.type === 'Point') return pointInPolygon(feature.geometry.coordinates as LngLatTuple, ring);
+  return lineParts(feature.geometry).some((part) => part.some((coord) => pointInPolygon(coord, ring)));
+}
+
+export function toGeoJson(features: readonly GeoJSON.Feature[]): string {
+  // `attribution`/`license` are foreign members; GIS tools ignore them but keep the file self-describing.
+  return JSON.stringify({ type: 'FeatureCollection', attribution: ODBL_ATTRIBUTION, license: 'ODbL-1.0', features });
+}
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The first line is a `#` comment with the attribution (QGIS: "Number of header lines to discard" = 1).
+// The byte order mark makes Excel read the file as UTF-8.
+export function toCsv<T>(rows: readonly T[], columns: readonly CsvColumn<T>[]): string {
+  const lines = [
+    `# ${ODBL_ATTRIBUTION}`,
+    columns.map((c) => csvCell(c.header)).join(','),
+    ...rows.map((row) => columns.map((c) => csvCell(c.value(row))).join(',')),
+  ];
+  return `\ufeff${lines.join('\r\n')}\r\n`;
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
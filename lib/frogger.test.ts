@@ -0,0 +1,88 @@
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  FROGGER_DIFFICULTY_BUCKETS,
+  VOLUME_SCORES,
+  froggerDifficultyLabel,
+  froggerIndex,
+  froggerIndexFromScores,
+  froggerScoringSql,
+  lanesScore,
+  speedScore,
+  type FroggerInputs,
+} from './frogger';
+
+// Every road class the formula names, plus ones it doesn't and an odd-cased tag.
+const HIGHWAYS = [...VOLUME_SCORES.flatMap((v) => v.highways), 'unclassified', 'footway', 'Residential', null];
+const SPEEDS = [null, 0, 15, 20, 25, 35, 45, 70, 90];
+const LANES = [null, 0, 1, 2, 3, 4, 5, 6, 8];
+const DISTANCES = [0, 50, 75, 125, 200, 500];
+
+const CASES: FroggerInputs[] = HIGHWAYS.flatMap((highway) =>
+  SPEEDS.flatMap((speedMph) =>
+    LANES.flatMap((lanes) => DISTANCES.map((distToMarkedM) => ({ highway, speedMph, lanes, distToMarkedM }))),
+  ),
+);
+
+describe('froggerScoringSql', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await PGlite.create();
+    await db.exec(froggerScoringSql());
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('scores every case the same as froggerIndex', async () => {
+    const { rows } = await db.query<{ frogger_index: number }>(
+      `SELECT frogger_index(c->>'highway', (c->>'speedMph')::double precision, (c->>'lanes')::integer, (c->>'distToMarkedM')::double precision)
+       FROM jsonb_array_elements($1::jsonb) WITH ORDINALITY AS t(c, n)
+       ORDER BY n`,
+      [JSON.stringify(CASES)],
+    );
+
+    expect(rows).toHaveLength(CASES.length);
+    rows.forEach((row, i) => expect(row.frogger_index, JSON.stringify(CASES[i])).toBeCloseTo(froggerIndex(CASES[i]), 12));
+  });
+
+  it('leaves the volume score of unlisted road classes NULL', async () => {
+    const { rows } = await db.query<{ score: number | null }>(`SELECT frogger_volume_score('footway') AS score`);
+    expect(rows[0].score).toBeNull();
+  });
+});
+
+describe('froggerIndex', () => {
+  it('is 0 on residential streets whatever the scores', () => {
+    expect(froggerIndex({ highway: 'residential', speedMph: 70, lanes: 6, distToMarkedM: 500 })).toBe(0);
+  });
+
+  it('is 1 on a fast, wide motorway far from a crossing', () => {
+    expect(froggerIndex({ highway: 'motorway', speedMph: 70, lanes: 6, distToMarkedM: 500 })).toBe(1);
+  });
+
+  it('counts untagged speed and lanes as 0', () => {
+    expect(speedScore(null)).toBe(0);
+    expect(lanesScore(null)).toBe(0);
+  });
+
+  it('ignores distance when its what-if weight is 0', () => {
+    const scores = { speed: 1, lanes: 1, volume: 1, distance: 0 };
+    const weights = { speed: 1, lanes: 1, volume: 0.5, distance: 0, hardZero: true };
+    expect(froggerIndexFromScores('primary', scores, weights)).toBe(1);
+  });
+});
+
+describe('froggerDifficultyLabel', () => {
+  it('puts each bucket boundary in the bucket that starts there', () => {
+    for (const bucket of FROGGER_DIFFICULTY_BUCKETS) expect(froggerDifficultyLabel(bucket.min)).toBe(bucket.difficulty);
+  });
+
+  it('treats indexes above 0.8 and missing indexes as the end buckets', () => {
+    expect(froggerDifficultyLabel(0.95)).toBe('Ft. Lauderdale');
+    expect(froggerDifficultyLabel(null)).toBe('easy');
+  });
+});
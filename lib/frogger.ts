@@ -0,0 +1,253 @@
+// The Frogger Index: how hard a street is to cross away from a marked crosswalk, 0 (easy)
+// to 1. This module is its only definition. The map, panels and game score with the
+// functions below, and `froggerScoringSql()` generates the SQL functions the analysis
+// calls (query_snippets/crosswalk_distances.sql), so the database can't drift from them.
+//
+//   index = (speed × 1.0 + lanes × 1.0 + road class × 0.5) ÷ 2.5 × far-from-crossing
+//
+// and 0 on residential/local streets.
+
+export type FroggerFactor = 'speed' | 'lanes' | 'volume';
+
+export const FROGGER_WEIGHTS: Readonly<Record<FroggerFactor, number>> = {
+  speed: 1.0,
+  lanes: 1.0,
+  volume: 0.5,
+};
+
+// The weighted sum is divided by this so the index tops out at 1.
+export const FROGGER_WEIGHT_TOTAL = FROGGER_WEIGHTS.speed + FROGGER_WEIGHTS.lanes + FROGGER_WEIGHTS.volume;
+
+// Speed scores 0 at or below `min` mph and 1 at `max`; the square root weighs the first
+// few mph above `min` most. Untagged speeds score 0.
+export const SPEED_SCORE_MPH = { min: 20, max: 70 } as const;
+
+// Checked in order; more lanes than the last entry scores 1. Untagged lanes score 0.
+export const LANE_SCORES: ReadonlyArray<{ maxLanes: number; score: number }> = [
+  { maxLanes: 2, score: 0.0 },
+  { maxLanes: 3, score: 0.25 },
+  { maxLanes: 4, score: 0.5 },
+  { maxLanes: 5, score: 0.75 },
+];
+
+// Road class as a traffic volume proxy, by OSM `highway` tag.
+export const VOLUME_SCORES: ReadonlyArray<{ highways: readonly string[]; score: number }> = [
+  { highways: ['residential', 'living_street', 'service'], score: 0.0 },
+  { highways: ['tertiary', 'tertiary_link'], score: 0.1 },
+  { highways: ['secondary', 'secondary_link'], score: 0.25 },
+  { highways: ['primary', 'primary_link'], score: 0.5 },
+  { highways: ['trunk', 'trunk_link'], score: 0.75 },
+  { highways: ['motorway', 'motorway_link'], score: 1.0 },
+];
+
+// Road classes not listed above have no volume score of their own (null in the tiles) and
+// count as this in the index.
+export const UNKNOWN_VOLUME_SCORE = 0.5;
+
+// Distance to the nearest marked crosswalk scores 0 within `min` meters and 1 from `max`.
+export const DISTANCE_SCORE_M = { min: 50, max: 200 } as const;
+
+// Streets the index hard-zeroes regardless of their component scores.
+export const HARD_ZERO_HIGHWAYS: readonly string[] = ['residential', 'living_street', 'service'];
+
+export type FroggerDifficulty = 'easy' | 'medium' | 'hard' | 'Ft. Lauderdale';
+
+// Inclusive lower bound, exclusive upper bound. Shared by the legend, info panels, area
+// report and the Frogger page.
+export const FROGGER_DIFFICULTY_BUCKETS: ReadonlyArray<{ difficulty: FroggerDifficulty; min: number; max: number | null }> = [
+  { difficulty: 'easy', min: 0, max: 0.2 },
+  { difficulty: 'medium', min: 0.2, max: 0.4 },
+  { difficulty: 'hard', min: 0.4, max: 0.6 },
+  // Spec defines 0.6–0.8 = Ft. Lauderdale; indexes above 0.8 are also Ft. Lauderdale.
+  { difficulty: 'Ft. Lauderdale', min: 0.6, max: null },
+];
+
+export const FROGGER_DIFFICULTIES: readonly FroggerDifficulty[] = FROGGER_DIFFICULTY_BUCKETS.map((b) => b.difficulty);
+
+export function froggerDifficultyMin(difficulty: FroggerDifficulty): number {
+  return FROGGER_DIFFICULTY_BUCKETS.find((b) => b.difficulty === difficulty)?.min ?? 0;
+}
+
+export function froggerDifficultyLabel(froggerIndex: number | null): FroggerDifficulty {
+  if (typeof froggerIndex !== 'number' || !Number.isFinite(froggerIndex)) return 'easy';
+  const bucket = FROGGER_DIFFICULTY_BUCKETS.find((b) => b.max === null || froggerIndex < b.max);
+  return bucket?.difficulty ?? 'easy';
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+// Tags compare exactly, as in SQL, so an odd-cased tag scores the same in both.
+export function isHardZeroHighway(highway: string | null | undefined): boolean {
+  return HARD_ZERO_HIGHWAYS.includes(highway ?? '');
+}
+
+export function speedScore(speedMph: number | null): number {
+  if (typeof speedMph !== 'number' || !Number.isFinite(speedMph)) return 0;
+  return Math.sqrt(clamp01((speedMph - SPEED_SCORE_MPH.min) / (SPEED_SCORE_MPH.max - SPEED_SCORE_MPH.min)));
+}
+
+export function lanesScore(lanes: number | null): number {
+  if (typeof lanes !== 'number' || !Number.isFinite(lanes)) return 0;
+  return LANE_SCORES.find((l) => lanes <= l.maxLanes)?.score ?? 1;
+}
+
+export function volumeScore(highway: string | null): number | null {
+  return VOLUME_SCORES.find((v) => v.highways.includes(highway ?? ''))?.score ?? null;
+}
+
+export function distanceScore(distToMarkedM: number): number {
+  return clamp01((distToMarkedM - DISTANCE_SCORE_M.min) / (DISTANCE_SCORE_M.max - DISTANCE_SCORE_M.min));
+}
+
+// Weights for the map's what-if panel. `distance` blends in the far-from-crossing multiplier:
+// 1 is the official formula, 0 ignores distance to a crossing entirely.
+export type FroggerWeights = Record<FroggerFactor, number> & {
+  distance: number;
+  hardZero: boolean;
+};
+
+export const OFFICIAL_FROGGER_WEIGHTS: FroggerWeights = { ...FROGGER_WEIGHTS, distance: 1, hardZero: true };
+
+// Slider range for the speed, lanes and volume weights.
+export const MAX_FROGGER_WEIGHT = 2;
+
+export function isOfficialFroggerWeights(weights: FroggerWeights): boolean {
+  return (
+    weights.speed === OFFICIAL_FROGGER_WEIGHTS.speed &&
+    weights.lanes === OFFICIAL_FROGGER_WEIGHTS.lanes &&
+    weights.volume === OFFICIAL_FROGGER_WEIGHTS.volume &&
+    weights.distance === OFFICIAL_FROGGER_WEIGHTS.distance &&
+    weights.hardZero === OFFICIAL_FROGGER_WEIGHTS.hardZero
+  );
+}
+
+// URL form: "speed,lanes,volume,distance,hardZero", e.g. "1.5,1,0.5,1,0".
+export function formatFroggerWeightsParam(weights: FroggerWeights): string {
+  return [weights.speed, weights.lanes, weights.volume, weights.distance, weights.hardZero ? 1 : 0].join(',');
+}
+
+export function parseFroggerWeightsParam(raw: string | null): FroggerWeights | null {
+  const parts = (raw ?? '').split(',').map((part) => Number(part));
+  if (parts.length !== 5 || parts.some((n) => !Number.isFinite(n))) return null;
+
+  const [speed, lanes, volume, distance, hardZero] = parts;
+  const weight = (n: number) => Math.min(MAX_FROGGER_WEIGHT, Math.max(0, n));
+  return { speed: weight(speed), lanes: weight(lanes), volume: weight(volume), distance: clamp01(distance), hardZero: hardZero !== 0 };
+}
+
+// Component scores as exported with the tiles; missing speed/lanes score 0.
+export type FroggerScores = Record<FroggerFactor | 'distance', number | null>;
+
+export function froggerIndexFromScores(
+  highway: string | null,
+  scores: FroggerScores,
+  weights: FroggerWeights = OFFICIAL_FROGGER_WEIGHTS,
+): number {
+  if (weights.hardZero && isHardZeroHighway(highway)) return 0;
+
+  const total = weights.speed + weights.lanes + weights.volume;
+  if (total <= 0) return 0;
+
+  const weighted =
+    weights.speed * (scores.speed ?? 0) +
+    weights.lanes * (scores.lanes ?? 0) +
+    weights.volume * (scores.volume ?? UNKNOWN_VOLUME_SCORE);
+  const distance = 1 - weights.distance + weights.distance * (scores.distance ?? 0);
+  return (weighted / total) * distance;
+}
+
+export type FroggerInputs = {
+  highway: string | null;
+  speedMph: number | null;
+  lanes: number | null;
+  distToMarkedM: number;
+};
+
+export function froggerIndex(inputs: FroggerInputs): number {
+  return froggerIndexFromScores(inputs.highway, {
+    speed: speedScore(inputs.speedMph),
+    lanes: lanesScore(inputs.lanes),
+    volume: volumeScore(inputs.highway),
+    distance: distanceScore(inputs.distToMarkedM),
+  });
+}
+
+// SQL literals for the generated functions: always with a decimal point so Postgres reads
+// them as numeric, not integer.
+function sqlNumber(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+function sqlTextList(values: readonly string[]): string {
+  return values.map((v) => `'${v.replace(/'/g, "''")}'`).join(', ');
+}
+
+// `CREATE OR REPLACE FUNCTION` statements for the scores above. The pipeline runs this
+// before query_snippets/crosswalk_distances.sql. The functions are IMMUTABLE SQL, so
+// Postgres inlines them into the queries that call them.
+export function froggerScoringSql(): string {
+  const speedRange = SPEED_SCORE_MPH.max - SPEED_SCORE_MPH.min;
+  const distanceRange = DISTANCE_SCORE_M.max - DISTANCE_SCORE_M.min;
+
+  const laneCases = LANE_SCORES.map((l) => `        WHEN lanes <= ${l.maxLanes} THEN ${sqlNumber(l.score)}`).join('\n');
+  const volumeCases = VOLUME_SCORES.map(
+    (v) => `        WHEN highway IN (${sqlTextList(v.highways)}) THEN ${sqlNumber(v.score)}`,
+  ).join('\n');
+
+  return `-- Generated from lib/frogger.ts by \`pnpm pipeline analyze\`. Do not edit; change lib/frogger.ts.
+
+CREATE OR REPLACE FUNCTION frogger_is_hard_zero(highway text) RETURNS boolean
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT COALESCE(highway IN (${sqlTextList(HARD_ZERO_HIGHWAYS)}), false)
+$$;
+
+CREATE OR REPLACE FUNCTION frogger_speed_score(speed_mph double precision) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE
+        WHEN speed_mph IS NULL THEN 0.0
+        ELSE sqrt(LEAST(1.0, GREATEST(0.0, (speed_mph - ${sqlNumber(SPEED_SCORE_MPH.min)}) / ${sqlNumber(speedRange)})))
+    END
+$$;
+
+CREATE OR REPLACE FUNCTION frogger_lanes_score(lanes integer) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE
+        WHEN lanes IS NULL THEN 0.0
+${laneCases}
+        ELSE 1.0
+    END
+$$;
+
+CREATE OR REPLACE FUNCTION frogger_volume_score(highway text) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE
+${volumeCases}
+        ELSE NULL::double precision
+    END
+$$;
+
+CREATE OR REPLACE FUNCTION frogger_distance_score(dist_m double precision) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT LEAST(1.0, GREATEST(0.0, (dist_m - ${sqlNumber(DISTANCE_SCORE_M.min)}) / ${sqlNumber(distanceRange)}))
+$$;
+
+CREATE OR REPLACE FUNCTION frogger_index(
+    highway text,
+    speed_mph double precision,
+    lanes integer,
+    dist_m double precision
+) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE
+        WHEN frogger_is_hard_zero(highway) THEN 0.0
+        ELSE (
+            ${sqlNumber(FROGGER_WEIGHTS.speed)} * frogger_speed_score(speed_mph)
+            + ${sqlNumber(FROGGER_WEIGHTS.lanes)} * frogger_lanes_score(lanes)
+            + ${sqlNumber(FROGGER_WEIGHTS.volume)} * COALESCE(frogger_volume_score(highway), ${sqlNumber(UNKNOWN_VOLUME_SCORE)})
+        ) / ${sqlNumber(FROGGER_WEIGHT_TOTAL)} * frogger_distance_score(dist_m)
+    END
+$$;
+`;
+}
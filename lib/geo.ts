@@ -0,0 +1,82 @@
+// Small lng/lat geometry helpers for client-side analysis of tile features.
+
+export type LngLatTuple = [number, number];
+
+const EARTH_RADIUS_M = 6371008.8;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+export function haversineMeters(a: LngLatTuple, b: LngLatTuple): number {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function lineLengthMeters(coords: readonly LngLatTuple[]): number {
+  let total = 0;
+  for (let i = 1; i < coords.length; i++) {
+    total += haversineMeters(coords[i - 1], coords[i]);
+  }
+  return total;
+}
+
+// LineString and MultiLineString parts as plain coordinate arrays.
+export function lineParts(geometry: GeoJSON.Geometry): LngLatTuple[][] {
+  if (geometry.type === 'LineString') return [geometry.coordinates as LngLatTuple[]];
+  if (geometry.type === 'MultiLineString') return geometry.coordinates as LngLatTuple[][];
+  return [];
+}
+
+// Ray casting test against a single closed ring (first vertex need not be repeated).
+export function pointInPolygon([x, y]: LngLatTuple, ring: readonly LngLatTuple[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function ringBounds(ring: readonly LngLatTuple[]): [number, number, number, number] {
+  let west = Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let north = -Infinity;
+  for (const [lng, lat] of ring) {
+    west = Math.min(west, lng);
+    south = Math.min(south, lat);
+    east = Math.max(east, lng);
+    north = Math.max(north, lat);
+  }
+  return [west, south, east, north];
+}
+
+// A vertex near the middle of the longest part, for labelling or exporting a line as a point.
+export function representativePoint(geometry: GeoJSON.Geometry): LngLatTuple | null {
+  if (geometry.type === 'Point') return geometry.coordinates as LngLatTuple;
+
+  let longest: LngLatTuple[] = [];
+  for (const part of lineParts(geometry)) {
+    if (part.length > longest.length) longest = part;
+  }
+  return longest.length > 0 ? longest[Math.floor(longest.length / 2)] : null;
+}
+
+// Initial great-circle bearing from `a` to `b`, in degrees clockwise from north (0–360).
+export function bearingDegrees(a: LngLatTuple, b: LngLatTuple): number {
+  const lat1 = toRadians(a[1]);
+  const lat2 = toRadians(b[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+export function compassPoint(bearing: number): (typeof COMPASS_POINTS)[number] {
+  return COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 45) % 8];
+}
@@ -0,0 +1,91 @@
+// Viewport hazard list: streets and unmarked crossings from the loaded sketchiness tiles,
+// worst Frogger Index first. Backs the accessible list view in components/HazardList.tsx.
+
+import { representativePoint, type LngLatTuple } from './geo';
+
+export type HazardItem = {
+  // `street:<road_osm_id>` or `crossing:<point_osm_id>`; unique within a list.
+  key: string;
+  kind: 'street' | 'crossing';
+  id: string;
+  name: string | null;
+  highway: string | null;
+  froggerIndex: number;
+  lanes: number | null;
+  speedMph: number | null;
+  lngLat: LngLatTuple;
+  properties: Record<string, unknown>;
+};
+
+export const HAZARD_LIST_LIMIT = 50;
+
+function numberProp(props: Record<string, unknown>, key: string): number | null {
+  const value = props[key];
+  const num = typeof value === 'number' ? value : value != null ? Number(value) : Number.NaN;
+  return Number.isFinite(num) ? num : null;
+}
+
+function stringProp(props: Record<string, unknown>, key: string): string | null {
+  const value = props[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// Streets are split into 20 m segments (and repeated across tiles); each OSM way is listed
+// once, at its worst segment. Segments carry the way id as `road_osm_id`; `osm_id` is a
+// per-segment row number, only used for tiles exported before `road_osm_id` was added.
+export function buildHazardList(
+  streets: readonly GeoJSON.Feature[],
+  crossings: readonly GeoJSON.Feature[],
+  limit = HAZARD_LIST_LIMIT,
+): HazardItem[] {
+  const byKey = new Map<string, HazardItem>();
+
+  const consider = (item: HazardItem) => {
+    const existing = byKey.get(item.key);
+    if (!existing || item.froggerIndex > existing.froggerIndex) byKey.set(item.key, item);
+  };
+
+  for (const feature of streets) {
+    if (!feature.geometry) continue;
+    const props = (feature.properties ?? {}) as Record<string, unknown>;
+    const wayId = props.road_osm_id ?? props.osm_id;
+    const id = wayId != null ? String(wayId) : null;
+    const point = representativePoint(feature.geometry);
+    if (!id || !point) continue;
+
+    consider({
+      key: `street:${id}`,
+      kind: 'street',
+      id,
+      name: stringProp(props, 'name'),
+      highway: stringProp(props, 'highway'),
+      froggerIndex: numberProp(props, 'frogger_index') ?? 0,
+      lanes: numberProp(props, 'lanes'),
+      speedMph: numberProp(props, 'speed_mph'),
+      lngLat: point,
+      properties: props,
+    });
+  }
+
+  for (const feature of crossings) {
+    if (!feature.geometry || feature.geometry.type !== 'Point') continue;
+    const props = (feature.properties ?? {}) as Record<string, unknown>;
+    const id = props.point_osm_id != null ? String(props.point_osm_id) : null;
+    if (!id) continue;
+
+    consider({
+      key: `crossing:${id}`,
+      kind: 'crossing',
+      id,
+      name: stringProp(props, 'frogger_road_name'),
+      highway: stringProp(props, 'frogger_road_highway'),
+      froggerIndex: numberProp(props, 'frogger_index') ?? 0,
+      lanes: numberProp(props, 'frogger_lanes'),
+      speedMph: numberProp(props, 'frogger_speed_mph'),
+      lngLat: feature.geometry.coordinates as LngLatTuple,
+      properties: props,
+    });
+  }
+
+  return [...byKey.values()].sort((a, b) => b.froggerIndex - a.froggerIndex).slice(0, limit);
+}
@@ -0,0 +1,90 @@
+// UI language. Works like lib/units.ts: the `lang` URL param wins over localStorage so
+// shared links open in the language they were sent in; first-time visitors get the first
+// supported language their browser asks for. Strings live in lib/locales/.
+
+import en, { type Messages } from './locales/en';
+import es from './locales/es';
+
+export type { Messages };
+
+export type Locale = 'en' | 'es';
+
+export const LOCALES: readonly Locale[] = ['en', 'es'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language's own name, for the switcher.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+const MESSAGES: Record<Locale, Messages> = { en, es };
+
+// Number formatting follows US conventions in both languages (decimal point, comma
+// grouping), as Spanish speakers in the US and Mexico expect.
+const NUMBER_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-US',
+};
+
+const STORAGE_KEY = 'lang';
+
+// Accepts region-tagged values too ("es-MX" → "es").
+export function parseLocale(value: string | null | undefined): Locale | null {
+  const base = (value ?? '').toLowerCase().split(/[-_]/)[0];
+  return (LOCALES as readonly string[]).includes(base) ? (base as Locale) : null;
+}
+
+export function readLocale(): Locale {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE;
+
+  const fromUrl = parseLocale(new URLSearchParams(window.location.search).get('lang'));
+  if (fromUrl) return fromUrl;
+
+  try {
+    const stored = parseLocale(window.localStorage.getItem(STORAGE_KEY));
+    if (stored) return stored;
+  } catch {
+    // Storage can throw in private browsing modes.
+  }
+
+  const preferred = window.navigator.languages?.length ? window.navigator.languages : [window.navigator.language];
+  for (const language of preferred) {
+    const locale = parseLocale(language);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: Locale) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Fall back to the URL only.
+  }
+
+  const url = new URL(window.location.href);
+  url.searchParams.set('lang', locale);
+  window.history.replaceState(null, '', url.toString());
+}
+
+export function messagesFor(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+export function formatNumber(value: number, locale: Locale, digits = 0): string {
+  return new Intl.NumberFormat(NUMBER_LOCALES[locale], {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+}
+
+// OSM `highway` tag for display: translated where the catalog knows it, else "living_street" → "Living Street".
+export function formatHighway(highway: string, locale: Locale): string {
+  const known = messagesFor(locale).highways[highway.toLowerCase()];
+  if (known) return known;
+  return highway.replace(/_/g, ' ').replace(/\s{2,}/g, ' ').trim().replace(/\b\w/g, (m) => m.toUpperCase());
+}
@@ -0,0 +1,142 @@
+// In-app issue reports about a street or crossing. Reports are queued in an IndexedDB
+// outbox so they survive reloads and offline use, then exported as GeoJSON or POSTed to
+// NEXT_PUBLIC_REPORT_ENDPOINT (see scripts/mock-report-server.mjs for local testing).
+
+import { toGeoJson } from './exportFeatures';
+import type { LngLatTuple } from './geo';
+
+export type IssueCategory = 'missing_crosswalk' | 'wrong_speed' | 'wrong_lanes' | 'crossing_removed' | 'faded_paint' | 'other';
+
+// Labels live in the message catalogs (lib/locales/).
+export const ISSUE_CATEGORIES: readonly IssueCategory[] = [
+  'missing_crosswalk',
+  'wrong_speed',
+  'wrong_lanes',
+  'crossing_removed',
+  'faded_paint',
+  'other',
+];
+
+// What the report is about, prefilled from the selected feature's tile properties.
+export type ReportTarget = {
+  layer: 'streets' | 'unmarked_crossings';
+  title: string;
+  // OSM ids only (way/node), never the tiles' per-segment row number.
+  osmIds: Record<string, string>;
+  properties: Record<string, unknown>;
+  lngLat: LngLatTuple;
+  zoom: number;
+};
+
+export type IssueReport = {
+  id: string;
+  createdAt: string;
+  category: IssueCategory;
+  comment: string;
+  target: ReportTarget;
+  status: 'queued' | 'sent';
+  sentAt?: string;
+};
+
+export const REPORT_ENDPOINT = process.env.NEXT_PUBLIC_REPORT_ENDPOINT || null;
+
+const DB_NAME = 'issue-reports';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+function openOutbox(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs one transaction and resolves with the last request's result once it commits.
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function createReport(category: IssueCategory, comment: string, target: ReportTarget): IssueReport {
+  return {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    category,
+    comment: comment.trim(),
+    target,
+    status: 'queued',
+  };
+}
+
+export async function listReports(): Promise<IssueReport[]> {
+  const reports = await withStore<IssueReport[]>('readonly', (store) => store.getAll());
+  return reports.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function saveReports(reports: readonly IssueReport[]): Promise<void> {
+  if (reports.length === 0) return;
+  await withStore('readwrite', (store) => {
+    let last!: IDBRequest<IDBValidKey>;
+    for (const report of reports) last = store.put(report);
+    return last;
+  });
+}
+
+export async function deleteReports(ids: readonly string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await withStore('readwrite', (store) => {
+    let last!: IDBRequest<undefined>;
+    for (const id of ids) last = store.delete(id);
+    return last;
+  });
+}
+
+export function reportsToGeoJson(reports: readonly IssueReport[]): string {
+  return toGeoJson(
+    reports.map((report) => ({
+      type: 'Feature',
+      id: report.id,
+      properties: {
+        report_id: report.id,
+        created_at: report.createdAt,
+        category: report.category,
+        comment: report.comment,
+        layer: report.target.layer,
+        title: report.target.title,
+        ...report.target.osmIds,
+        zoom: report.target.zoom,
+        feature_properties: report.target.properties,
+      },
+      geometry: { type: 'Point', coordinates: report.target.lngLat },
+    })),
+  );
+}
+
+// Sends every given report in one request; they're marked sent only if the endpoint accepts them.
+export async function sendReports(endpoint: string, reports: readonly IssueReport[]): Promise<IssueReport[]> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/geo+json' },
+    body: reportsToGeoJson(reports),
+  });
+  if (!response.ok) throw new Error(`Report endpoint returned ${response.status}`);
+
+  const sentAt = new Date().toISOString();
+  const sent = reports.map((report) => ({ ...report, status: 'sent' as const, sentAt }));
+  await saveReports(sent);
+  return sent;
+}
@@ -0,0 +1,336 @@
+import type { FroggerDifficulty } from '../frogger';
+import type { IssueCategory } from '../issueReports';
+import type { ChangeKind, LegendBucketId, StreetMetricId } from '../sketchinessLegend';
+
+// English UI strings. This catalog defines the `Messages` shape; other locales must match
+// it key for key (see lib/i18n.ts). Entries that take values are functions; numbers and
+// distances arrive already formatted for the locale.
+
+type BucketLabels = Partial<Record<StreetMetricId, Partial<Record<LegendBucketId, string>>>>;
+
+const en = {
+  common: {
+    done: 'Done',
+    close: 'Close',
+    startOver: 'Start over',
+    exportGeoJson: 'Export GeoJSON',
+    exportCsv: 'Export CSV',
+    unnamedRoad: 'Unnamed road',
+    copyLink: 'Copy link',
+    copied: 'Copied!',
+    copyFailed: 'Copy failed',
+    lanes: 'Lanes',
+    speedLimit: 'Speed limit',
+    noSpeedLimit: 'No limit',
+    laneCount: (count: number) => `${count} ${count === 1 ? 'lane' : 'lanes'}`,
+  },
+
+  difficulty: {
+    easy: 'easy',
+    medium: 'medium',
+    hard: 'hard',
+    'Ft. Lauderdale': 'Ft. Lauderdale',
+  } satisfies Record<FroggerDifficulty, string>,
+
+  // OSM `highway` values shown to people; others fall back to the tag itself.
+  highways: {
+    motorway: 'Motorway',
+    trunk: 'Trunk',
+    primary: 'Primary',
+    secondary: 'Secondary',
+    tertiary: 'Tertiary',
+    unclassified: 'Unclassified',
+    residential: 'Residential',
+    living_street: 'Living Street',
+    service: 'Service',
+  } as Record<string, string>,
+
+  // Strings for MapLibre's built-in controls (its `locale` option).
+  mapControls: {
+    'AttributionControl.ToggleAttribution': 'Toggle attribution',
+    'GeolocateControl.FindMyLocation': 'Find my location',
+    'GeolocateControl.LocationNotAvailable': 'Location not available',
+    'Map.Title': 'Map',
+    'Marker.Title': 'Map marker',
+    'NavigationControl.ResetBearing': 'Reset bearing to north',
+    'NavigationControl.ZoomIn': 'Zoom in',
+    'NavigationControl.ZoomOut': 'Zoom out',
+    'Popup.Close': 'Close popup',
+  } as Record<string, string>,
+
+  map: {
+    regionTitle: (region: string) => `${region} Crosswalk Accessibility Map`,
+    canvasLabel: 'Map. Press ] or [ to step through unmarked crossings on screen.',
+    regionGroup: 'Region',
+    planWalk: 'Plan a walk',
+    areaReport: 'Area report',
+    listView: 'List view',
+    whatChanged: 'What changed',
+    whatChangedTitle: 'Highlight streets and crossings that changed since the last analysis snapshot',
+    compareBuilds: 'Compare builds',
+    whatIf: 'What if?',
+    whatIfTitle: 'Try other Frogger Index weights on the map',
+    outbox: (count: number) => `Outbox (${count})`,
+    outboxTitle: "Issue reports saved on this device that haven't been sent yet",
+    exportVisible: 'Export visible:',
+    exportVisibleTitle: (format: string) => `Download the streets and unmarked crossings on screen as ${format}`,
+    unknownHighwayType: 'Unknown Type',
+    roadOfType: (type: string) => `${type} Road`,
+    unmarkedCrossing: 'Unmarked crossing',
+    unmarkedCrossingOn: (road: string) => `Unmarked crossing on ${road}`,
+    routeSnapTooFar: 'Pick points closer to a mapped street.',
+    routeTooLong: 'These points are too far apart to load their streets in detail. Pick points closer together.',
+    routeNotConnected: 'No connected route between these points in the loaded streets. Try points that are closer together.',
+    areaEmpty: 'No analyzed streets inside this area.',
+    locationFailed: 'Could not get your location. Check that location access is allowed for this site.',
+    locationOutside: 'Your location is outside the map.',
+  },
+
+  legend: {
+    title: 'Legend',
+    colorStreetsBy: 'Color streets by',
+    metrics: {
+      distance: 'Distance to marked crossing',
+      frogger: 'Frogger Index',
+      lanes: 'Lanes',
+      speed: 'Speed limit',
+    } satisfies Record<StreetMetricId, string>,
+    // Labels for buckets whose text doesn't depend on the selected units. Metric speed
+    // buckets are built from `speedUnder`/`speedRange`/`speedOver`; Frogger buckets get
+    // their range appended from lib/frogger.ts.
+    bucketLabels: {
+      frogger: {
+        green: 'Easy',
+        yellow: 'Medium',
+        red: 'Hard',
+        darkred: 'Ft. Lauderdale',
+      },
+      lanes: {
+        green: '1–2 lanes',
+        yellow: '3 lanes',
+        red: '4–5 lanes',
+        darkred: '6+ lanes',
+        unknown: 'Not tagged',
+      },
+      speed: {
+        green: 'Under 30 mph',
+        yellow: '30–39 mph',
+        red: '40–49 mph',
+        darkred: '50+ mph',
+        unknown: 'Not tagged',
+      },
+    } as BucketLabels,
+    speedUnder: (max: string, unit: string) => `Under ${max} ${unit}`,
+    speedRange: (min: string, max: string, unit: string) => `${min}–${max} ${unit}`,
+    speedOver: (min: string, unit: string) => `${min}+ ${unit}`,
+    toCrossingAndResidential: (range: string) => `${range} to crossing (and residential streets)`,
+    showStreets: 'Show these streets',
+    hideStreets: 'Hide these streets',
+    whatChangedTitle: 'What changed since the last snapshot',
+    customWeights: 'Frogger Index colors use what-if weights.',
+    resetWeights: 'Reset',
+    changeKinds: {
+      improved: 'Safer (index down)',
+      worsened: 'Less safe (index up)',
+      added: 'Newly analyzed',
+      removed: 'No longer in the data',
+    } satisfies Record<ChangeKind, string>,
+    unitsGroup: 'Units',
+    metric: 'Metric',
+    imperial: 'Imperial',
+    languageGroup: 'Language',
+    unmarkedAbove: 'Unmarked crossings with Frogger Index above',
+    changeUnits: 'Change units',
+    jokeNo: 'No!',
+    jokeStillNo: 'still no!',
+    jokeOkFine: 'ok fine',
+    jokeWelcomeBack: 'welcome back',
+  },
+
+  info: {
+    selectedStreet: 'Selected street',
+    selectedCrossing: 'Selected unmarked crossing',
+    froggerIndex: 'Frogger Difficulty Index:',
+    distToMarked: 'Dist to marked crossing',
+    tryCrossing: 'Try crossing here',
+    difficultyFootnote: (difficulty: string) => `*Frogger Difficulty: ${difficulty}`,
+    reportIssue: 'Report an issue',
+    googleForm: 'Google Form',
+    inferredTitle: 'Estimated: not tagged in OpenStreetMap',
+    inferredNote: 'Estimated from the road type and area; OpenStreetMap has no tag for it.',
+    improveInOsm: 'Improve this in OSM',
+  },
+
+  breakdown: {
+    whyThisScore: 'Why this score?',
+    factors: {
+      speed: 'Speed limit',
+      lanes: 'Lanes',
+      volume: 'Road class (traffic)',
+    },
+    farFromCrossing: 'Far from crossing',
+    multiplier: 'multiplier',
+    hardZero: 'Residential and local streets always score 0.',
+    formula: (speed: string, lanes: string, volume: string, total: string) =>
+      `Index = (${speed} × speed + ${lanes} × lanes + ${volume} × road class) ÷ ${total} × far-from-crossing.`,
+  },
+
+  hazards: {
+    title: 'Hazards in view',
+    empty: 'Nothing analyzed in view. Zoom or pan the map.',
+    count: (count: number) => `${count} streets and unmarked crossings, worst first.`,
+  },
+
+  route: {
+    label: 'Walking route',
+    title: 'Plan a safer walk',
+    pickStart: 'Click the map to choose where you start.',
+    pickEnd: 'Now click where you want to go.',
+    computing: 'Finding routes…',
+    distance: 'Distance',
+    worstSegment: 'Worst street segment',
+    worstOn: (index: string, road: string) => `${index} on ${road}`,
+    saferRoute: 'Lower-exposure route',
+    shortestRoute: 'Shortest route',
+    addedDetour: 'Added detour:',
+    note: 'Routes follow the analyzed streets loaded on screen and avoid high Frogger Index segments where they can.',
+  },
+
+  area: {
+    title: 'Area report',
+    shape: 'Shape',
+    polygon: 'Polygon',
+    rectangle: 'Rectangle',
+    rectangleFirst: 'Click one corner of the rectangle.',
+    rectangleSecond: 'Now click the opposite corner.',
+    polygonStart: 'Click the map to add corners of your area.',
+    polygonMore: 'Keep adding corners, or double-click / press Finish to close the shape.',
+    computing: 'Adding up the streets…',
+    totalRoad: 'Total road',
+    unmarkedAbove: (threshold: string) => `Unmarked crossings above ${threshold}`,
+    medianDistance: 'Median distance to marked crossing',
+    worstStreets: 'Worst streets',
+    note: 'Computed from the analyzed streets loaded on screen. Very large areas are summarized from lower-zoom tiles and may miss some short streets.',
+    finish: 'Finish',
+  },
+
+  nearest: {
+    label: 'Nearest marked crossing',
+    title: 'Nearest safe crossing',
+    searching: 'Looking for marked crossings near you…',
+    hazard: (distance: string, road: string | null, index: string, difficulty: string) =>
+      `You are ${distance} from an unmarked crossing${road ? ` on ${road}` : ''} with Frogger Index ${index} (${difficulty}). Use a marked crossing instead.`,
+    distance: 'Distance',
+    straightLine: '(straight line)',
+    direction: 'Direction',
+    crossing: 'Crossing',
+    markedCrossing: 'marked',
+    notFound: 'No marked crossing found near your location in the loaded map.',
+    // Indexed like `compassPoint` in lib/geo.ts.
+    compass: { N: 'N', NE: 'NE', E: 'E', SE: 'SE', S: 'S', SW: 'SW', W: 'W', NW: 'NW' } as Record<string, string>,
+  },
+
+  compare: {
+    title: 'Compare builds',
+    before: 'Before (left)',
+    after: 'After (right)',
+    hint: 'Drag the divider to swipe between builds. Click a street to compare its values.',
+    nothingHere: 'No analyzed street here in either build.',
+    notInBuild: 'Not in build',
+    street: 'Street',
+    froggerIndex: 'Frogger Index',
+    toMarkedCrossing: 'To marked crossing',
+    swipeLabel: (before: string, after: string) => `Swipe between ${before} and ${after}`,
+  },
+
+  report: {
+    label: 'Report an issue',
+    titleFor: (title: string) => `Report an issue: ${title}`,
+    outboxTitle: 'Report outbox',
+    whatIsWrong: 'What is wrong?',
+    categories: {
+      missing_crosswalk: 'Missing crosswalk',
+      wrong_speed: 'Wrong speed limit',
+      wrong_lanes: 'Wrong number of lanes',
+      crossing_removed: 'Crossing removed',
+      faded_paint: 'Faded paint',
+      other: 'Something else',
+    } satisfies Record<IssueCategory, string>,
+    details: 'Details (optional)',
+    included: 'Included with the report',
+    addToOutbox: 'Add to outbox',
+    saved: 'Saved to the outbox. It stays there until you send or export it.',
+    unavailable: 'The outbox is unavailable in this browser (IndexedDB is blocked).',
+    outboxCounts: (queued: number, sent: number) => `${queued} waiting, ${sent} sent`,
+    outboxLabel: 'Outbox:',
+    send: (count: number) => `Send ${count}`,
+    sent: (count: number) => `Sent ${count} report${count === 1 ? '' : 's'}.`,
+    clearSent: 'Clear sent',
+    cleared: 'Cleared sent reports.',
+  },
+
+  share: {
+    missingTitle: 'Shared feature not found',
+    missing:
+      "The street or crossing in this link isn't in the current data. It may have been remapped or removed since the link was shared. The pin marks where it was.",
+  },
+
+  whatIf: {
+    title: 'What if?',
+    intro:
+      'Change how much each factor counts and the streets recolor by the Frogger Index you get. Info panels, lists and exports keep the official index.',
+    weights: {
+      speed: 'Speed limit weight',
+      lanes: 'Lanes weight',
+      volume: 'Road class weight',
+      distance: 'Far-from-crossing weight',
+    },
+    official: (value: string) => `(official ${value})`,
+    hardZero: 'Residential and local streets score 0',
+    usingOfficial: 'Showing the official weights.',
+    usingCustom: 'Showing custom weights. Copy the link to share them.',
+    reset: 'Reset to official weights',
+  },
+
+  search: {
+    label: 'Search streets',
+    loading: 'Loading streets…',
+    unavailable: 'Search unavailable',
+    placeholder: 'Search streets',
+    results: 'Streets',
+    worst: (index: string) => `worst ${index}`,
+    unmarkedCrossing: 'unmarked crossing',
+  },
+
+  frogger: {
+    loading: 'Loading...',
+    unknownStreet: 'Unknown street',
+    unknownRoadType: 'Unknown',
+    backToMap: 'Back to map',
+    reset: 'Reset',
+    speedLimitSign: ['SPEED', 'LIMIT'] as [string, string],
+    lanes: 'Lanes:',
+    speed: 'Speed:',
+    roadType: 'Road type:',
+    froggerIndex: 'Frogger difficulty index:',
+    attempts: 'Attempts:',
+    streetName: 'Street name',
+    toNearestCrosswalk: (distance: string) => `${distance} to nearest marked crosswalk`,
+    distanceLabel: 'Distance to nearest marked crosswalk',
+    distanceArrow: 'Distance arrow',
+    game: 'Frogger game',
+    startingIn: 'Starting in',
+    hit: 'Hit! Press any key to restart.',
+    won: 'Made it! Press any key to play again.',
+    instructions: 'Goal: reach the top sidewalk. Controls: arrow keys / WASD.',
+    touchControls: 'Touch controls',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    moveLeft: 'Move left',
+    moveRight: 'Move right',
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
@@ -0,0 +1,323 @@
+import type { Messages } from './en';
+
+// Spanish UI strings. Typed against the English catalog so a missing or extra key fails
+// the type check.
+
+const es: Messages = {
+  common: {
+    done: 'Listo',
+    close: 'Cerrar',
+    startOver: 'Empezar de nuevo',
+    exportGeoJson: 'Exportar GeoJSON',
+    exportCsv: 'Exportar CSV',
+    unnamedRoad: 'Calle sin nombre',
+    copyLink: 'Copiar enlace',
+    copied: '¡Copiado!',
+    copyFailed: 'No se pudo copiar',
+    lanes: 'Carriles',
+    speedLimit: 'Límite de velocidad',
+    noSpeedLimit: 'Sin límite',
+    laneCount: (count: number) => `${count} ${count === 1 ? 'carril' : 'carriles'}`,
+  },
+
+  difficulty: {
+    easy: 'fácil',
+    medium: 'media',
+    hard: 'difícil',
+    'Ft. Lauderdale': 'Ft. Lauderdale',
+  },
+
+  highways: {
+    motorway: 'Autopista',
+    trunk: 'Vía rápida',
+    primary: 'Principal',
+    secondary: 'Secundaria',
+    tertiary: 'Terciaria',
+    unclassified: 'Sin clasificar',
+    residential: 'Residencial',
+    living_street: 'Calle de convivencia',
+    service: 'De servicio',
+  },
+
+  mapControls: {
+    'AttributionControl.ToggleAttribution': 'Mostrar u ocultar atribución',
+    'GeolocateControl.FindMyLocation': 'Buscar mi ubicación',
+    'GeolocateControl.LocationNotAvailable': 'Ubicación no disponible',
+    'Map.Title': 'Mapa',
+    'Marker.Title': 'Marcador del mapa',
+    'NavigationControl.ResetBearing': 'Orientar al norte',
+    'NavigationControl.ZoomIn': 'Acercar',
+    'NavigationControl.ZoomOut': 'Alejar',
+    'Popup.Close': 'Cerrar ventana',
+  },
+
+  map: {
+    regionTitle: (region: string) => `Mapa de accesibilidad de cruces peatonales de ${region}`,
+    canvasLabel: 'Mapa. Pulsa ] o [ para recorrer los cruces sin marcar en pantalla.',
+    regionGroup: 'Región',
+    planWalk: 'Planear una caminata',
+    areaReport: 'Informe de zona',
+    listView: 'Vista de lista',
+    whatChanged: 'Qué cambió',
+    whatChangedTitle: 'Resaltar las calles y cruces que cambiaron desde la última instantánea del análisis',
+    compareBuilds: 'Comparar versiones',
+    whatIf: '¿Y si…?',
+    whatIfTitle: 'Probar otros pesos del Índice Frogger en el mapa',
+    outbox: (count: number) => `Bandeja de salida (${count})`,
+    outboxTitle: 'Reportes guardados en este dispositivo que aún no se han enviado',
+    exportVisible: 'Exportar lo visible:',
+    exportVisibleTitle: (format: string) => `Descargar las calles y cruces sin marcar en pantalla como ${format}`,
+    unknownHighwayType: 'Tipo desconocido',
+    roadOfType: (type: string) => `Calle (${type})`,
+    unmarkedCrossing: 'Cruce sin marcar',
+    unmarkedCrossingOn: (road: string) => `Cruce sin marcar en ${road}`,
+    routeSnapTooFar: 'Elige puntos más cerca de una calle del mapa.',
+    routeTooLong: 'Estos puntos están demasiado lejos para cargar sus calles con detalle. Elige puntos más cercanos.',
+    routeNotConnected: 'No hay una ruta conectada entre estos puntos en las calles cargadas. Prueba con puntos más cercanos.',
+    areaEmpty: 'No hay calles analizadas dentro de esta zona.',
+    locationFailed: 'No se pudo obtener tu ubicación. Comprueba que este sitio tenga permiso para acceder a ella.',
+    locationOutside: 'Tu ubicación está fuera del mapa.',
+  },
+
+  legend: {
+    title: 'Leyenda',
+    colorStreetsBy: 'Colorear calles por',
+    metrics: {
+      distance: 'Distancia al cruce marcado',
+      frogger: 'Índice Frogger',
+      lanes: 'Carriles',
+      speed: 'Límite de velocidad',
+    },
+    bucketLabels: {
+      frogger: {
+        green: 'Fácil',
+        yellow: 'Media',
+        red: 'Difícil',
+        darkred: 'Ft. Lauderdale',
+      },
+      lanes: {
+        green: '1–2 carriles',
+        yellow: '3 carriles',
+        red: '4–5 carriles',
+        darkred: '6+ carriles',
+        unknown: 'Sin etiquetar',
+      },
+      speed: {
+        green: 'Menos de 30 mph',
+        yellow: '30–39 mph',
+        red: '40–49 mph',
+        darkred: '50+ mph',
+        unknown: 'Sin etiquetar',
+      },
+    },
+    speedUnder: (max: string, unit: string) => `Menos de ${max} ${unit}`,
+    speedRange: (min: string, max: string, unit: string) => `${min}–${max} ${unit}`,
+    speedOver: (min: string, unit: string) => `${min}+ ${unit}`,
+    toCrossingAndResidential: (range: string) => `${range} al cruce (y calles residenciales)`,
+    showStreets: 'Mostrar estas calles',
+    hideStreets: 'Ocultar estas calles',
+    whatChangedTitle: 'Qué cambió desde la última instantánea',
+    customWeights: 'Los colores del Índice Frogger usan pesos hipotéticos.',
+    resetWeights: 'Restablecer',
+    changeKinds: {
+      improved: 'Más seguro (índice baja)',
+      worsened: 'Menos seguro (índice sube)',
+      added: 'Analizado por primera vez',
+      removed: 'Ya no está en los datos',
+    },
+    unitsGroup: 'Unidades',
+    metric: 'Métrico',
+    imperial: 'Imperial',
+    languageGroup: 'Idioma',
+    unmarkedAbove: 'Cruces sin marcar con Índice Frogger mayor que',
+    changeUnits: 'Cambiar unidades',
+    jokeNo: '¡No!',
+    jokeStillNo: '¡que no!',
+    jokeOkFine: 'bueno, está bien',
+    jokeWelcomeBack: 'bienvenido de vuelta',
+  },
+
+  info: {
+    selectedStreet: 'Calle seleccionada',
+    selectedCrossing: 'Cruce sin marcar seleccionado',
+    froggerIndex: 'Índice de dificultad Frogger:',
+    distToMarked: 'Dist. al cruce marcado',
+    tryCrossing: 'Intenta cruzar aquí',
+    difficultyFootnote: (difficulty: string) => `*Dificultad Frogger: ${difficulty}`,
+    reportIssue: 'Reportar un problema',
+    googleForm: 'Formulario de Google',
+    inferredTitle: 'Estimado: sin etiqueta en OpenStreetMap',
+    inferredNote: 'Estimado a partir del tipo de vía y la zona; OpenStreetMap no tiene la etiqueta.',
+    improveInOsm: 'Mejóralo en OSM',
+  },
+
+  breakdown: {
+    whyThisScore: '¿Por qué esta puntuación?',
+    factors: {
+      speed: 'Límite de velocidad',
+      lanes: 'Carriles',
+      volume: 'Tipo de vía (tráfico)',
+    },
+    farFromCrossing: 'Lejos de un cruce',
+    multiplier: 'multiplicador',
+    hardZero: 'Las calles residenciales y locales siempre puntúan 0.',
+    formula: (speed: string, lanes: string, volume: string, total: string) =>
+      `Índice = (${speed} × velocidad + ${lanes} × carriles + ${volume} × tipo de vía) ÷ ${total} × lejanía del cruce.`,
+  },
+
+  hazards: {
+    title: 'Peligros a la vista',
+    empty: 'No hay nada analizado a la vista. Acerca o mueve el mapa.',
+    count: (count: number) => `${count} calles y cruces sin marcar, de peor a mejor.`,
+  },
+
+  route: {
+    label: 'Ruta a pie',
+    title: 'Planear una caminata más segura',
+    pickStart: 'Haz clic en el mapa para elegir dónde empiezas.',
+    pickEnd: 'Ahora haz clic a donde quieres ir.',
+    computing: 'Buscando rutas…',
+    distance: 'Distancia',
+    worstSegment: 'Peor tramo de calle',
+    worstOn: (index: string, road: string) => `${index} en ${road}`,
+    saferRoute: 'Ruta de menor exposición',
+    shortestRoute: 'Ruta más corta',
+    addedDetour: 'Desvío añadido:',
+    note: 'Las rutas siguen las calles analizadas cargadas en pantalla y evitan, cuando pueden, los tramos con Índice Frogger alto.',
+  },
+
+  area: {
+    title: 'Informe de zona',
+    shape: 'Forma',
+    polygon: 'Polígono',
+    rectangle: 'Rectángulo',
+    rectangleFirst: 'Haz clic en una esquina del rectángulo.',
+    rectangleSecond: 'Ahora haz clic en la esquina opuesta.',
+    polygonStart: 'Haz clic en el mapa para añadir las esquinas de tu zona.',
+    polygonMore: 'Sigue añadiendo esquinas, o haz doble clic / pulsa Terminar para cerrar la forma.',
+    computing: 'Sumando las calles…',
+    totalRoad: 'Total de calles',
+    unmarkedAbove: (threshold: string) => `Cruces sin marcar por encima de ${threshold}`,
+    medianDistance: 'Distancia mediana al cruce marcado',
+    worstStreets: 'Peores calles',
+    note: 'Calculado a partir de las calles analizadas cargadas en pantalla. Las zonas muy grandes se resumen con teselas de menor zoom y pueden omitir algunas calles cortas.',
+    finish: 'Terminar',
+  },
+
+  nearest: {
+    label: 'Cruce marcado más cercano',
+    title: 'Cruce seguro más cercano',
+    searching: 'Buscando cruces marcados cerca de ti…',
+    hazard: (distance: string, road: string | null, index: string, difficulty: string) =>
+      `Estás a ${distance} de un cruce sin marcar${road ? ` en ${road}` : ''} con Índice Frogger ${index} (${difficulty}). Usa un cruce marcado.`,
+    distance: 'Distancia',
+    straightLine: '(en línea recta)',
+    direction: 'Dirección',
+    crossing: 'Cruce',
+    markedCrossing: 'marcado',
+    notFound: 'No se encontró ningún cruce marcado cerca de tu ubicación en el mapa cargado.',
+    compass: { N: 'N', NE: 'NE', E: 'E', SE: 'SE', S: 'S', SW: 'SO', W: 'O', NW: 'NO' },
+  },
+
+  compare: {
+    title: 'Comparar versiones',
+    before: 'Antes (izquierda)',
+    after: 'Después (derecha)',
+    hint: 'Arrastra el divisor para alternar entre versiones. Haz clic en una calle para comparar sus valores.',
+    nothingHere: 'No hay ninguna calle analizada aquí en ninguna de las versiones.',
+    notInBuild: 'No está en la versión',
+    street: 'Calle',
+    froggerIndex: 'Índice Frogger',
+    toMarkedCrossing: 'Al cruce marcado',
+    swipeLabel: (before: string, after: string) => `Alternar entre ${before} y ${after}`,
+  },
+
+  report: {
+    label: 'Reportar un problema',
+    titleFor: (title: string) => `Reportar un problema: ${title}`,
+    outboxTitle: 'Bandeja de salida de reportes',
+    whatIsWrong: '¿Qué está mal?',
+    categories: {
+      missing_crosswalk: 'Falta un cruce peatonal',
+      wrong_speed: 'Límite de velocidad incorrecto',
+      wrong_lanes: 'Número de carriles incorrecto',
+      crossing_removed: 'El cruce ya no existe',
+      faded_paint: 'Pintura desgastada',
+      other: 'Otra cosa',
+    },
+    details: 'Detalles (opcional)',
+    included: 'Se incluye con el reporte',
+    addToOutbox: 'Añadir a la bandeja de salida',
+    saved: 'Guardado en la bandeja de salida. Se queda ahí hasta que lo envíes o exportes.',
+    unavailable: 'La bandeja de salida no está disponible en este navegador (IndexedDB está bloqueado).',
+    outboxCounts: (queued: number, sent: number) => `${queued} en espera, ${sent} enviados`,
+    outboxLabel: 'Bandeja de salida:',
+    send: (count: number) => `Enviar ${count}`,
+    sent: (count: number) => `${count} ${count === 1 ? 'reporte enviado' : 'reportes enviados'}.`,
+    clearSent: 'Borrar enviados',
+    cleared: 'Se borraron los reportes enviados.',
+  },
+
+  share: {
+    missingTitle: 'No se encontró el elemento compartido',
+    missing:
+      'La calle o el cruce de este enlace no está en los datos actuales. Puede que se haya modificado o eliminado después de compartir el enlace. El marcador indica dónde estaba.',
+  },
+
+  whatIf: {
+    title: '¿Y si…?',
+    intro:
+      'Cambia cuánto cuenta cada factor y las calles se recolorean con el Índice Frogger resultante. Los paneles de información, las listas y las exportaciones mantienen el índice oficial.',
+    weights: {
+      speed: 'Peso del límite de velocidad',
+      lanes: 'Peso de los carriles',
+      volume: 'Peso del tipo de vía',
+      distance: 'Peso de la lejanía del cruce',
+    },
+    official: (value: string) => `(oficial ${value})`,
+    hardZero: 'Las calles residenciales y locales puntúan 0',
+    usingOfficial: 'Se muestran los pesos oficiales.',
+    usingCustom: 'Se muestran pesos personalizados. Copia el enlace para compartirlos.',
+    reset: 'Restablecer los pesos oficiales',
+  },
+
+  search: {
+    label: 'Buscar calles',
+    loading: 'Cargando calles…',
+    unavailable: 'Búsqueda no disponible',
+    placeholder: 'Buscar calles',
+    results: 'Calles',
+    worst: (index: string) => `peor ${index}`,
+    unmarkedCrossing: 'cruce sin marcar',
+  },
+
+  frogger: {
+    loading: 'Cargando...',
+    unknownStreet: 'Calle desconocida',
+    unknownRoadType: 'Desconocido',
+    backToMap: 'Volver al mapa',
+    reset: 'Reiniciar',
+    speedLimitSign: ['VELOCIDAD', 'MÁXIMA'],
+    lanes: 'Carriles:',
+    speed: 'Velocidad:',
+    roadType: 'Tipo de vía:',
+    froggerIndex: 'Índice de dificultad Frogger:',
+    attempts: 'Intentos:',
+    streetName: 'Nombre de la calle',
+    toNearestCrosswalk: (distance: string) => `${distance} al cruce marcado más cercano`,
+    distanceLabel: 'Distancia al cruce marcado más cercano',
+    distanceArrow: 'Flecha de distancia',
+    game: 'Juego Frogger',
+    startingIn: 'Empieza en',
+    hit: '¡Te atropellaron! Pulsa cualquier tecla para reiniciar.',
+    won: '¡Lo lograste! Pulsa cualquier tecla para jugar otra vez.',
+    instructions: 'Objetivo: llegar a la acera de arriba. Controles: flechas / WASD.',
+    touchControls: 'Controles táctiles',
+    moveUp: 'Mover arriba',
+    moveDown: 'Mover abajo',
+    moveLeft: 'Mover a la izquierda',
+    moveRight: 'Mover a la derecha',
+  },
+};
+
+export default es;
@@ -0,0 +1,137 @@
+import { PGlite } from '@electric-sql/pglite';
+import { hstore } from '@electric-sql/pglite/contrib/hstore';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  MPH_PER_UNIT,
+  NO_LIMIT_MPH,
+  WALK_MPH,
+  bareMaxspeedUnit,
+  maxspeedSql,
+  parseMaxspeed,
+  parseMaxspeedTags,
+  type SpeedUnit,
+} from './maxspeed';
+
+const VALUES = [
+  '50',
+  '35',
+  '  25 ',
+  '12,5',
+  '30 mph',
+  '30mph',
+  '25 MPH',
+  '50 km/h',
+  '50 kmh',
+  '10 knots',
+  '30;50',
+  '50|50|30',
+  '35;40 mph',
+  'none',
+  'walk',
+  'signals',
+  'variable',
+  '',
+  'US:urban',
+  'US:TX:urban',
+  'us-tx:urban',
+  'US:CA:rural',
+  'DE:urban',
+  'DE:motorway',
+  'DE:zone30',
+  'DE:zone:30',
+  'GB:zone20',
+  'GB:nsl_single',
+  'NL:living_street',
+];
+
+type TagCase = { tags: Record<string, string>; bareUnit: SpeedUnit };
+
+const BARE_UNITS: SpeedUnit[] = ['km/h', 'mph'];
+
+const CASES: TagCase[] = BARE_UNITS.flatMap((bareUnit) => [
+  ...VALUES.map((value) => ({ tags: { maxspeed: value }, bareUnit })),
+  ...VALUES.map((value) => ({ tags: { 'maxspeed:type': value }, bareUnit })),
+  ...VALUES.map((value) => ({ tags: { maxspeed: 'signals', 'source:maxspeed': value }, bareUnit })),
+  ...VALUES.map((value) => ({ tags: { 'zone:maxspeed': value }, bareUnit })),
+  { tags: {}, bareUnit },
+]);
+
+describe('maxspeedSql', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await PGlite.create({ extensions: { hstore } });
+    await db.exec('CREATE EXTENSION IF NOT EXISTS hstore;');
+    await db.exec(maxspeedSql());
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('reads every tag combination the same as parseMaxspeedTags', async () => {
+    const { rows } = await db.query<{ mph: number | null }>(
+      `SELECT osm_maxspeed_mph(
+           (SELECT hstore(array_agg(key), array_agg(value)) FROM jsonb_each_text(c->'tags')),
+           (c->>'bareMph')::double precision
+       ) AS mph
+       FROM jsonb_array_elements($1::jsonb) WITH ORDINALITY AS t(c, n)
+       ORDER BY n`,
+      [JSON.stringify(CASES.map(({ tags, bareUnit }) => ({ tags, bareMph: MPH_PER_UNIT[bareUnit] })))],
+    );
+
+    expect(rows).toHaveLength(CASES.length);
+    rows.forEach((row, i) => {
+      const expected = parseMaxspeedTags(CASES[i].tags, CASES[i].bareUnit)?.mph ?? null;
+      const label = JSON.stringify(CASES[i]);
+      if (expected === null) expect(row.mph, label).toBeNull();
+      else expect(row.mph, label).toBeCloseTo(expected, 9);
+    });
+  });
+
+  it('reads bare numbers as km/h without a bare unit', async () => {
+    const { rows } = await db.query<{ mph: number }>(`SELECT osm_maxspeed_mph('maxspeed=>50'::hstore) AS mph`);
+    expect(rows[0].mph).toBeCloseTo(50 * MPH_PER_UNIT['km/h'], 9);
+  });
+});
+
+describe('parseMaxspeed', () => {
+  it('reads bare numbers in the given unit', () => {
+    expect(parseMaxspeed('35', 'mph')?.mph).toBe(35);
+    expect(parseMaxspeed('50')?.mph).toBeCloseTo(31.07, 2);
+  });
+
+  it('keeps an explicit unit whatever the bare unit', () => {
+    expect(parseMaxspeed('50 km/h', 'mph')?.mph).toBeCloseTo(31.07, 2);
+    expect(parseMaxspeed('30 mph', 'km/h')?.mph).toBe(30);
+  });
+
+  it('takes the highest of several values', () => {
+    expect(parseMaxspeed('25|35|30', 'mph')?.mph).toBe(35);
+  });
+
+  it('reads none, walk and implicit codes', () => {
+    expect(parseMaxspeed('none')).toEqual({ mph: NO_LIMIT_MPH, implicit: false, unlimited: true });
+    expect(parseMaxspeed('walk')?.mph).toBe(WALK_MPH);
+    expect(parseMaxspeed('US:TX:urban')).toEqual({ mph: 30, implicit: true, unlimited: false });
+    expect(parseMaxspeed('US:CA:urban')?.mph).toBe(25);
+  });
+
+  it('gives null for values without a number', () => {
+    expect(parseMaxspeed('signals')).toBeNull();
+    expect(parseMaxspeed(null)).toBeNull();
+  });
+});
+
+describe('bareMaxspeedUnit', () => {
+  it('is mph for zones in mph countries', () => {
+    expect(bareMaxspeedUnit('US:TX:urban')).toBe('mph');
+    expect(bareMaxspeedUnit('GB:nsl_single')).toBe('mph');
+  });
+
+  it('is km/h elsewhere and without a zone', () => {
+    expect(bareMaxspeedUnit('DE:urban')).toBe('km/h');
+    expect(bareMaxspeedUnit(undefined)).toBe('km/h');
+  });
+});
@@ -0,0 +1,294 @@
+// OSM `maxspeed` parsing, to mph. Like lib/frogger.ts this is the only definition: the info
+// panels call `parseMaxspeed`, and `maxspeedSql()` generates the `osm_maxspeed_mph` SQL
+// function that query_snippets/crosswalk_distances.sql uses for `speed_mph` (through
+// `road_maxspeed_mph`, lib/roadInference.ts, which supplies the region's bare unit).
+//
+// Follows https://wiki.openstreetmap.org/wiki/Key:maxspeed: other units are written after the
+// number ("25 mph", "10 knots"), and country codes like "DE:urban" stand for that country's
+// default limit. Bare numbers are km/h as OSM specifies, except where the caller says the road
+// is in an mph country (`bareMaxspeedUnit`): US mappers often write `maxspeed=35` for 35 mph.
+
+export type SpeedUnit = 'km/h' | 'mph' | 'knots';
+
+export const MPH_PER_UNIT: Readonly<Record<SpeedUnit, number>> = {
+  'km/h': 1 / 1.609344,
+  mph: 1,
+  knots: 1.852 / 1.609344,
+};
+
+// Spellings seen in the data, lowercase. A number with no unit is in the bare unit.
+const UNIT_ALIASES: Record<SpeedUnit, readonly string[]> = {
+  'km/h': ['km/h', 'kmh', 'kph', 'km/hr'],
+  mph: ['mph', 'mi/h', 'm.p.h.'],
+  knots: ['knots', 'knot', 'kn'],
+};
+
+// `walk` is walking pace (living streets); `none` is no limit (parts of the Autobahn) and
+// scores as a very fast road.
+export const WALK_MPH = 5 * MPH_PER_UNIT['km/h'];
+export const NO_LIMIT_MPH = 80;
+
+type MaxspeedValue = { value: number; unit: SpeedUnit } | 'none' | 'walk';
+
+const kmh = (value: number): MaxspeedValue => ({ value, unit: 'km/h' });
+const mph = (value: number): MaxspeedValue => ({ value, unit: 'mph' });
+
+// Implicit limits by code, lowercase (https://wiki.openstreetmap.org/wiki/Default_speed_limits).
+// The US has no national defaults; "us:urban"/"us:rural" use the common statutory values, and
+// state codes ("us:tx:urban") override them where listed, else fall back to the country.
+export const IMPLICIT_MAXSPEEDS: Readonly<Record<string, MaxspeedValue>> = {
+  'at:urban': kmh(50),
+  'at:rural': kmh(100),
+  'at:trunk': kmh(100),
+  'at:motorway': kmh(130),
+  'ch:urban': kmh(50),
+  'ch:rural': kmh(80),
+  'ch:trunk': kmh(100),
+  'ch:motorway': kmh(120),
+  'de:urban': kmh(50),
+  'de:rural': kmh(100),
+  'de:bicycle_road': kmh(30),
+  'de:motorway': 'none',
+  'dk:urban': kmh(50),
+  'dk:rural': kmh(80),
+  'dk:motorway': kmh(130),
+  'es:urban': kmh(50),
+  'es:rural': kmh(90),
+  'es:motorway': kmh(120),
+  'fr:urban': kmh(50),
+  'fr:rural': kmh(80),
+  'fr:motorway': kmh(130),
+  'gb:nsl_restricted': mph(30),
+  'gb:nsl_single': mph(60),
+  'gb:nsl_dual': mph(70),
+  'gb:motorway': mph(70),
+  'it:urban': kmh(50),
+  'it:rural': kmh(90),
+  'it:motorway': kmh(130),
+  'nl:urban': kmh(50),
+  'nl:rural': kmh(80),
+  'nl:motorway': kmh(130),
+  'us:urban': mph(25),
+  'us:rural': mph(55),
+  'us:tx:urban': mph(30),
+  'us:wa:urban': mph(25),
+  'us:wa:rural': mph(50),
+};
+
+// Countries whose zone codes ("gb:zone20") are in mph; elsewhere "de:zone30" is km/h. Also
+// where bare numbers are read as mph (`bareMaxspeedUnit`).
+const MPH_COUNTRIES: readonly string[] = ['gb', 'us', 'lr', 'mm'];
+
+// `<country>:living_street` in any country.
+const LIVING_STREET_SUFFIX = ':living_street';
+
+// Tags tried in order when `maxspeed` is missing or unreadable; they only hold codes.
+export const IMPLICIT_MAXSPEED_KEYS: readonly string[] = ['maxspeed:type', 'source:maxspeed', 'zone:maxspeed'];
+
+export type ParsedMaxspeed = {
+  mph: number;
+  // `implicit`: from a country/zone code rather than a posted number.
+  implicit: boolean;
+  // `maxspeed=none`.
+  unlimited: boolean;
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const UNIT_PATTERN = Object.values(UNIT_ALIASES)
+  .flat()
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+
+// Written to mean the same in JavaScript and PostgreSQL regular expressions.
+const NUMBER_RE = `^([0-9]+(?:[.,][0-9]+)?) ?(${UNIT_PATTERN})?$`;
+const ZONE_RE = '^([a-z]{2})(?:-[a-z0-9]+)?:zone:?([0-9]+)$';
+// "us:tx:urban" or "us-tx:urban" → "us:urban".
+const STATE_RE = '^([a-z]{2})[:-][a-z0-9]+:';
+
+function normalize(raw: string): string {
+  return raw.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function valueToMph(value: MaxspeedValue): number {
+  if (value === 'none') return NO_LIMIT_MPH;
+  if (value === 'walk') return WALK_MPH;
+  return value.value * MPH_PER_UNIT[value.unit];
+}
+
+function unitOf(alias: string | undefined, bareUnit: SpeedUnit): SpeedUnit {
+  if (!alias) return bareUnit;
+  return (Object.keys(UNIT_ALIASES) as SpeedUnit[]).find((unit) => UNIT_ALIASES[unit].includes(alias)) ?? bareUnit;
+}
+
+// The unit of a unit-less `maxspeed` in a region with this implicit code
+// (`RegionConfig.speedLimitZone`): mph in the countries above, else km/h.
+export function bareMaxspeedUnit(zone: string | null | undefined): SpeedUnit {
+  const country = zone?.trim().toLowerCase().slice(0, 2);
+  return country && MPH_COUNTRIES.includes(country) ? 'mph' : 'km/h';
+}
+
+function parseImplicit(code: string): ParsedMaxspeed | null {
+  const zone = code.match(new RegExp(ZONE_RE));
+  if (zone) {
+    const unit: SpeedUnit = MPH_COUNTRIES.includes(zone[1]) ? 'mph' : 'km/h';
+    return { mph: Number(zone[2]) * MPH_PER_UNIT[unit], implicit: true, unlimited: false };
+  }
+
+  const value =
+    IMPLICIT_MAXSPEEDS[code] ??
+    IMPLICIT_MAXSPEEDS[code.replace(new RegExp(STATE_RE), '$1:')] ??
+    (code.endsWith(LIVING_STREET_SUFFIX) ? 'walk' : undefined);
+  if (!value) return null;
+  return { mph: valueToMph(value), implicit: true, unlimited: value === 'none' };
+}
+
+function parsePart(part: string, bareUnit: SpeedUnit): ParsedMaxspeed | null {
+  if (part === 'none') return { mph: NO_LIMIT_MPH, implicit: false, unlimited: true };
+  if (part === 'walk') return { mph: WALK_MPH, implicit: false, unlimited: false };
+
+  const number = part.match(new RegExp(NUMBER_RE));
+  if (number) {
+    const mph = Number(number[1].replace(',', '.')) * MPH_PER_UNIT[unitOf(number[2], bareUnit)];
+    return Number.isFinite(mph) ? { mph, implicit: false, unlimited: false } : null;
+  }
+  return parseImplicit(part);
+}
+
+// One `maxspeed` value. Several values ("30;50", per-lane "50|50|30") give the highest,
+// since that is what a pedestrian has to allow for. `signals`, `variable` and the like
+// have no number and give null.
+export function parseMaxspeed(raw: string | null | undefined, bareUnit: SpeedUnit = 'km/h'): ParsedMaxspeed | null {
+  if (!raw) return null;
+
+  let worst: ParsedMaxspeed | null = null;
+  for (const part of normalize(raw).split(/[;|]/)) {
+    const parsed = parsePart(part.trim(), bareUnit);
+    if (parsed && (!worst || parsed.mph > worst.mph)) worst = parsed;
+  }
+  return worst;
+}
+
+// `maxspeed`, then the implicit-code tags, as the analysis reads them.
+export function parseMaxspeedTags(
+  tags: Readonly<Record<string, string | null | undefined>>,
+  bareUnit: SpeedUnit = 'km/h',
+): ParsedMaxspeed | null {
+  const explicit = parseMaxspeed(tags.maxspeed, bareUnit);
+  if (explicit) return explicit;
+
+  for (const key of IMPLICIT_MAXSPEED_KEYS) {
+    const raw = tags[key];
+    const parsed = raw ? parseImplicit(normalize(raw)) : null;
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+// Always with a decimal point, so Postgres doesn't read whole numbers as integers.
+function sqlNumber(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+function sqlText(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function sqlList(values: readonly string[]): string {
+  return values.map(sqlText).join(', ');
+}
+
+// `CREATE OR REPLACE FUNCTION` statements mirroring `parseMaxspeedTags`, which take the bare
+// unit as its mph factor (`bare_mph`). The pipeline runs this with the Frogger Index
+// functions (lib/frogger.ts) before the analysis.
+export function maxspeedSql(): string {
+  const implicitRows = Object.entries(IMPLICIT_MAXSPEEDS)
+    .map(([code, value]) => `            (${sqlText(code)}, ${sqlNumber(valueToMph(value))}::double precision)`)
+    .join(',\n');
+  const unitCases = (Object.keys(UNIT_ALIASES) as SpeedUnit[])
+    .map((unit) => `            WHEN m[2] IN (${sqlList(UNIT_ALIASES[unit])}) THEN ${sqlNumber(MPH_PER_UNIT[unit])}`)
+    .join('\n');
+  const kmhFactor = `${sqlNumber(MPH_PER_UNIT['km/h'])}::double precision`;
+
+  return `-- Generated from lib/maxspeed.ts by \`pnpm pipeline analyze\`. Do not edit; change lib/maxspeed.ts.
+
+-- Signatures from before \`bare_mph\`; left in place they would make the calls below ambiguous.
+DROP FUNCTION IF EXISTS osm_maxspeed_mph(hstore);
+DROP FUNCTION IF EXISTS osm_maxspeed_value_mph(text);
+DROP FUNCTION IF EXISTS osm_maxspeed_part_mph(text);
+
+CREATE OR REPLACE FUNCTION osm_implicit_maxspeed_mph(code text) RETURNS double precision
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+    v text := regexp_replace(lower(btrim(code)), '\\s+', ' ', 'g');
+    m text[];
+    result double precision;
+BEGIN
+    IF v IS NULL OR v = '' THEN
+        RETURN NULL;
+    END IF;
+
+    m := regexp_match(v, ${sqlText(ZONE_RE)});
+    IF m IS NOT NULL THEN
+        RETURN m[2]::double precision * CASE WHEN m[1] IN (${sqlList(MPH_COUNTRIES)}) THEN 1.0 ELSE ${sqlNumber(MPH_PER_UNIT['km/h'])} END;
+    END IF;
+
+    SELECT t.mph INTO result
+    FROM (VALUES
+${implicitRows}
+    ) AS t(code, mph)
+    WHERE t.code = v OR t.code = regexp_replace(v, ${sqlText(STATE_RE)}, '\\1:')
+    -- An exact match wins over the country fallback.
+    ORDER BY (t.code = v) DESC
+    LIMIT 1;
+    IF result IS NOT NULL THEN
+        RETURN result;
+    END IF;
+
+    IF v LIKE ${sqlText(`%${LIVING_STREET_SUFFIX}`)} THEN
+        RETURN ${sqlNumber(WALK_MPH)};
+    END IF;
+    RETURN NULL;
+END
+$$;
+
+CREATE OR REPLACE FUNCTION osm_maxspeed_part_mph(part text, bare_mph double precision) RETURNS double precision
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+    v text := btrim(part);
+    m text[];
+BEGIN
+    IF v = 'none' THEN
+        RETURN ${sqlNumber(NO_LIMIT_MPH)};
+    ELSIF v = 'walk' THEN
+        RETURN ${sqlNumber(WALK_MPH)};
+    END IF;
+
+    m := regexp_match(v, ${sqlText(NUMBER_RE)});
+    IF m IS NOT NULL THEN
+        RETURN replace(m[1], ',', '.')::double precision * CASE
+${unitCases}
+            ELSE bare_mph
+        END;
+    END IF;
+    RETURN osm_implicit_maxspeed_mph(v);
+END
+$$;
+
+-- One maxspeed value; the highest of several ("30;50", "50|50|30").
+CREATE OR REPLACE FUNCTION osm_maxspeed_value_mph(raw text, bare_mph double precision DEFAULT ${kmhFactor}) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT max(osm_maxspeed_part_mph(part, bare_mph))
+    FROM regexp_split_to_table(regexp_replace(lower(btrim(raw)), '\\s+', ' ', 'g'), '[;|]') AS part
+$$;
+
+CREATE OR REPLACE FUNCTION osm_maxspeed_mph(tags hstore, bare_mph double precision DEFAULT ${kmhFactor}) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT COALESCE(
+        osm_maxspeed_value_mph(tags->'maxspeed', bare_mph),
+${IMPLICIT_MAXSPEED_KEYS.map((key) => `        osm_implicit_maxspeed_mph(tags->${sqlText(key)})`).join(',\n')}
+    )
+$$;
+`;
+}
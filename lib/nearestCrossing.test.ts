@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import type { LngLatTuple } from './geo';
+import { NEARBY_UNMARKED_MIN_FROGGER_INDEX, findNearestCrossings } from './nearestCrossing';
+
+function crossing(coordinates: LngLatTuple, props: Record<string, unknown>): GeoJSON.Feature {
+  return { type: 'Feature', properties: props, geometry: { type: 'Point', coordinates } };
+}
+
+const ORIGIN: LngLatTuple = [0, 0];
+const HARD = NEARBY_UNMARKED_MIN_FROGGER_INDEX;
+
+describe('findNearestCrossings', () => {
+  it('picks the closest marked crosswalk and its bearing', () => {
+    const { marked } = findNearestCrossings(
+      ORIGIN,
+      [
+        crossing([0.002, 0], { point_osm_id: 1, crossing_type: 'zebra' }),
+        crossing([0, 0.001], { point_osm_id: 2, crossing_type: 'unknown' }),
+      ],
+      [],
+    );
+
+    expect(marked).toMatchObject({ id: '2', crossingType: null, lngLat: [0, 0.001] });
+    expect(marked?.distanceMeters).toBeCloseTo(111.2, 0);
+    expect(marked?.bearing).toBeCloseTo(0, 6);
+  });
+
+  it('gives no marked crosswalk when none are loaded', () => {
+    expect(findNearestCrossings(ORIGIN, [], []).marked).toBeNull();
+  });
+
+  it('flags the worst hard unmarked crossing within the radius', () => {
+    const { nearbyUnmarked } = findNearestCrossings(
+      ORIGIN,
+      [],
+      [
+        crossing([0.0002, 0], { point_osm_id: 10, frogger_index: HARD, frogger_road_name: ' Main St ' }),
+        crossing([0.0003, 0], { point_osm_id: 11, frogger_index: HARD + 0.1, frogger_road_name: '' }),
+        // Worse, but out of range.
+        crossing([0.001, 0], { point_osm_id: 12, frogger_index: 1 }),
+      ],
+    );
+
+    expect(nearbyUnmarked).toMatchObject({ id: '11', roadName: null, froggerIndex: HARD + 0.1 });
+  });
+
+  it('ignores unmarked crossings below hard or without an index', () => {
+    const { nearbyUnmarked } = findNearestCrossings(
+      ORIGIN,
+      [],
+      [
+        crossing([0.0001, 0], { point_osm_id: 10, frogger_index: HARD - 0.01 }),
+        crossing([0.0001, 0], { point_osm_id: 11, frogger_index: null }),
+      ],
+    );
+
+    expect(nearbyUnmarked).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+// "Nearest safe crossing" from the user's location: the closest marked crosswalk in the
+// `marked_crossings` tile layer, plus any high Frogger Index unmarked crossing close enough
+// that the user might be about to use it instead. Runs on loaded tiles only, like routing.
+
+import { froggerDifficultyMin } from './frogger';
+import { bearingDegrees, haversineMeters, type LngLatTuple } from './geo';
+
+export type NearestMarkedCrossing = {
+  id: string;
+  crossingType: string | null;
+  lngLat: LngLatTuple;
+  distanceMeters: number;
+  bearing: number;
+};
+
+export type NearbyUnmarkedCrossing = {
+  id: string;
+  roadName: string | null;
+  froggerIndex: number;
+  lngLat: LngLatTuple;
+  distanceMeters: number;
+};
+
+export type NearestCrossingResult = {
+  origin: LngLatTuple;
+  marked: NearestMarkedCrossing | null;
+  // Worst qualifying unmarked crossing within NEARBY_UNMARKED_RADIUS_METERS, if any.
+  nearbyUnmarked: NearbyUnmarkedCrossing | null;
+};
+
+export const NEARBY_UNMARKED_RADIUS_METERS = 60;
+
+// "Hard" and worse.
+export const NEARBY_UNMARKED_MIN_FROGGER_INDEX = froggerDifficultyMin('hard');
+
+function pointOf(feature: GeoJSON.Feature): LngLatTuple | null {
+  return feature.geometry?.type === 'Point' ? (feature.geometry.coordinates as LngLatTuple) : null;
+}
+
+export function findNearestCrossings(
+  origin: LngLatTuple,
+  markedCrossings: readonly GeoJSON.Feature[],
+  unmarkedCrossings: readonly GeoJSON.Feature[],
+): NearestCrossingResult {
+  let marked: NearestMarkedCrossing | null = null;
+  for (const feature of markedCrossings) {
+    const point = pointOf(feature);
+    if (!point) continue;
+
+    const distanceMeters = haversineMeters(origin, point);
+    if (marked && distanceMeters >= marked.distanceMeters) continue;
+
+    const props = (feature.properties ?? {}) as Record<string, unknown>;
+    marked = {
+      id: String(props.point_osm_id ?? ''),
+      crossingType: typeof props.crossing_type === 'string' && props.crossing_type !== 'unknown' ? props.crossing_type : null,
+      lngLat: point,
+      distanceMeters,
+      bearing: bearingDegrees(origin, point),
+    };
+  }
+
+  let nearbyUnmarked: NearbyUnmarkedCrossing | null = null;
+  for (const feature of unmarkedCrossings) {
+    const point = pointOf(feature);
+    if (!point) continue;
+
+    const props = (feature.properties ?? {}) as Record<string, unknown>;
+    const froggerIndex = Number(props.frogger_index);
+    if (!Number.isFinite(froggerIndex) || froggerIndex < NEARBY_UNMARKED_MIN_FROGGER_INDEX) continue;
+
+    const distanceMeters = haversineMeters(origin, point);
+    if (distanceMeters > NEARBY_UNMARKED_RADIUS_METERS) continue;
+    if (nearbyUnmarked && froggerIndex <= nearbyUnmarked.froggerIndex) continue;
+
+    nearbyUnmarked = {
+      id: String(props.point_osm_id ?? ''),
+      roadName: typeof props.frogger_road_name === 'string' && props.frogger_road_name.trim() ? props.frogger_road_name.trim() : null,
+      froggerIndex,
+      lngLat: point,
+      distanceMeters,
+    };
+  }
+
+  return { origin, marked, nearbyUnmarked };
+}
@@ -0,0 +1,136 @@
+// Region registry: every city the map can serve from a single deployment.
+//
+// Tile entries are file names resolved against the tiles root (NEXT_PUBLIC_TILES_BASE_URL
+// in local dev, or the site's basePath on static hosting). Absolute URLs are used as-is.
+
+import { searchIndexFileFor } from './searchIndex';
+import type { UnitSystem } from './units';
+
+export type RegionId = 'seattle' | 'san-antonio';
+
+// A dated sketchiness export, for comparing analysis runs (see `RegionConfig.tiles.builds`).
+export type TileBuild = {
+  id: string;
+  label: string;
+  sketchiness: string;
+};
+
+export type RegionConfig = {
+  id: RegionId;
+  name: string;
+  // [west, south, east, north] in lng/lat.
+  bounds: [number, number, number, number];
+  center: [number, number];
+  zoom: number;
+  // Implicit maxspeed code (lib/maxspeed.ts) for the statutory limit on residential streets,
+  // used by the analysis when a road has no maxspeed tag (lib/roadInference.ts).
+  speedLimitZone?: string;
+  // Units shown until the visitor picks some in the legend.
+  units: UnitSystem;
+  tiles: {
+    basemap: string;
+    sketchiness: string;
+    // Snapshots written by `SNAPSHOT=<id> pnpm pipeline export`, oldest
+    // first. Compare mode is offered when there are at least two, so only list
+    // files the deploy actually serves, e.g.
+    //   { id: '2026-10', label: 'Oct 2026', sketchiness: 'sketchiness-2026-10.pmtiles' }
+    builds?: readonly TileBuild[];
+  };
+  // English page metadata for the static shell and link previews; the on-screen heading
+  // comes from the message catalog (lib/locales).
+  metadata: {
+    title: string;
+    description: string;
+  };
+};
+
+export const REGIONS: readonly RegionConfig[] = [
+  {
+    id: 'san-antonio',
+    name: 'San Antonio',
+    // Matches the bbox used by scripts/build-san-antonio-basemap.sh.
+    bounds: [-98.66, 29.15, -98.36, 29.55],
+    center: [-98.4936, 29.4241],
+    zoom: 12,
+    speedLimitZone: 'US:TX:urban',
+    units: 'imperial',
+    tiles: {
+      basemap: 'basemap-san-antonio.pmtiles',
+      sketchiness: 'sketchiness-all.pmtiles',
+    },
+    metadata: {
+      title: 'San Antonio Crosswalk Accessibility Map',
+      description: "Explore San Antonio's best and sketchiest pedestrian infrastructure.",
+    },
+  },
+  {
+    id: 'seattle',
+    name: 'Seattle',
+    bounds: [-122.46, 47.48, -122.22, 47.74],
+    center: [-122.3321, 47.6062],
+    zoom: 13,
+    speedLimitZone: 'US:WA:urban',
+    units: 'imperial',
+    tiles: {
+      basemap: 'basemap-seattle.pmtiles',
+      sketchiness: 'sketchiness-all.pmtiles',
+    },
+    metadata: {
+      title: 'Seattle Crosswalk Accessibility Map',
+      description: "Explore Seattle's best and sketchiest pedestrian infrastructure.",
+    },
+  },
+];
+
+function isRegionId(value: string | null | undefined): value is RegionId {
+  return REGIONS.some((r) => r.id === value);
+}
+
+// Deployments pick their landing city with NEXT_PUBLIC_DEFAULT_REGION.
+export const DEFAULT_REGION_ID: RegionId = isRegionId(process.env.NEXT_PUBLIC_DEFAULT_REGION)
+  ? process.env.NEXT_PUBLIC_DEFAULT_REGION
+  : 'san-antonio';
+
+export function getRegion(id: string | null | undefined): RegionConfig {
+  return REGIONS.find((r) => r.id === id) ?? REGIONS.find((r) => r.id === DEFAULT_REGION_ID)!;
+}
+
+export function findRegionContaining(lng: number, lat: number): RegionConfig | null {
+  return (
+    REGIONS.find(({ bounds: [west, south, east, north] }) => lng >= west && lng <= east && lat >= south && lat <= north) ??
+    null
+  );
+}
+
+export function resolveTileUrl(root: string, file: string): string {
+  if (/^https?:\/\//.test(file)) return file;
+  return `${root}/${file}`;
+}
+
+// Every file the regions load from the tiles root, once each: basemaps, sketchiness tiles with
+// their search indexes, and listed builds. The deploy copies and checks exactly these
+// (scripts/list-region-tiles.ts).
+export function regionTileFiles(): string[] {
+  const files = REGIONS.flatMap(({ tiles }) => [
+    tiles.basemap,
+    tiles.sketchiness,
+    searchIndexFileFor(tiles.sketchiness),
+    ...(tiles.builds ?? []).map((build) => build.sketchiness),
+  ]);
+  return [...new Set(files)].filter((file) => !/^https?:\/\//.test(file));
+}
+
+// `region` wins; otherwise older share links (lat/lng only) pick the region that contains them.
+export function parseRegionIdFromUrl(): RegionId | null {
+  if (typeof window === 'undefined') return null;
+
+  const params = new URLSearchParams(window.location.search);
+  const regionRaw = params.get('region');
+  if (isRegionId(regionRaw)) return regionRaw;
+
+  const lat = Number(params.get('lat'));
+  const lng = Number(params.get('lng'));
+  if (!params.get('lat') || !params.get('lng') || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+  return findRegionContaining(lng, lat)?.id ?? null;
+}
@@ -0,0 +1,167 @@
+// Fallbacks for roads with no `lanes` or `maxspeed` tag. Without them the speed and lane scores
+// were 0 and untagged arterials looked safe. Like lib/maxspeed.ts this is the only definition:
+// `roadInferenceSql()` generates the `road_tagged_lanes`, `road_inferred_lanes` and
+// `road_inferred_speed_mph` SQL functions used by query_snippets/crosswalk_distances.sql, which
+// exports `lanes_inferred` / `speed_inferred` so the panels can mark estimated values. It also
+// generates `road_maxspeed_mph`, which reads bare `maxspeed` numbers in each region's unit.
+
+import { bareMaxspeedUnit, MPH_PER_UNIT, WALK_MPH } from './maxspeed';
+import type { RegionConfig } from './regions';
+
+// Typical lane counts by highway class, both directions together for two-way roads.
+export const DEFAULT_LANES: Readonly<Record<string, { twoWay: number; oneway: number }>> = {
+  motorway: { twoWay: 4, oneway: 2 },
+  trunk: { twoWay: 4, oneway: 2 },
+  primary: { twoWay: 4, oneway: 2 },
+  secondary: { twoWay: 2, oneway: 2 },
+  tertiary: { twoWay: 2, oneway: 1 },
+  residential: { twoWay: 2, oneway: 1 },
+  unclassified: { twoWay: 2, oneway: 1 },
+  service: { twoWay: 2, oneway: 1 },
+  living_street: { twoWay: 1, oneway: 1 },
+  motorway_link: { twoWay: 2, oneway: 1 },
+  trunk_link: { twoWay: 2, oneway: 1 },
+  primary_link: { twoWay: 2, oneway: 1 },
+  secondary_link: { twoWay: 2, oneway: 1 },
+  tertiary_link: { twoWay: 2, oneway: 1 },
+};
+
+// `width` (carriageway, metres unless "ft"/') divided by this gives a lane count.
+export const LANE_WIDTH_M = 3.5;
+
+// Design speeds by highway class. Classes missing here (residential, unclassified) take the
+// region's statutory urban limit, `RegionConfig.speedLimitZone`.
+export const DEFAULT_SPEED_MPH: Readonly<Record<string, number>> = {
+  motorway: 65,
+  motorway_link: 45,
+  trunk: 55,
+  trunk_link: 40,
+  primary: 40,
+  primary_link: 35,
+  secondary: 35,
+  secondary_link: 30,
+  tertiary: 30,
+  tertiary_link: 30,
+  service: 15,
+  living_street: WALK_MPH,
+};
+
+// Used when a road is outside every configured region.
+export const FALLBACK_ZONE_SPEED_MPH = 25;
+
+const ONEWAY_VALUES: readonly string[] = ['yes', 'true', '1', '-1'];
+
+const FEET_PER_METRE = 1 / 0.3048;
+const EARTH_RADIUS_M = 6378137;
+
+// [west, south, east, north] in EPSG:3857, the analysis tables' SRID.
+function boundsTo3857([west, south, east, north]: RegionConfig['bounds']): [number, number, number, number] {
+  const x = (lng: number) => (lng * Math.PI * EARTH_RADIUS_M) / 180;
+  const y = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360)) * EARTH_RADIUS_M;
+  return [x(west), y(south), x(east), y(north)];
+}
+
+// Always with a decimal point, so Postgres doesn't read whole numbers as integers.
+function sqlNumber(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+function sqlText(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// `CREATE OR REPLACE FUNCTION` statements for the rules above. The zone limit of each region
+// comes from `osm_implicit_maxspeed_mph` (lib/maxspeed.ts), so that SQL has to run first.
+export function roadInferenceSql(regions: readonly RegionConfig[]): string {
+  const laneRows = Object.entries(DEFAULT_LANES)
+    .map(([highway, { twoWay, oneway }]) => `            (${sqlText(highway)}, ${twoWay}, ${oneway})`)
+    .join(',\n');
+  const speedRows = Object.entries(DEFAULT_SPEED_MPH)
+    .map(([highway, mph]) => `            (${sqlText(highway)}, ${sqlNumber(mph)}::double precision)`)
+    .join(',\n');
+  const envelopeOf = (region: RegionConfig) => `ST_MakeEnvelope(${boundsTo3857(region.bounds).map(sqlNumber).join(', ')}, 3857)`;
+  const zoneCases = regions
+    .filter((region) => region.speedLimitZone)
+    .map((region) => `            WHEN geom && ${envelopeOf(region)} THEN osm_implicit_maxspeed_mph(${sqlText(region.speedLimitZone ?? '')})`)
+    .join('\n');
+  const bareUnitCases = regions
+    .filter((region) => bareMaxspeedUnit(region.speedLimitZone) !== 'km/h')
+    .map((region) => `            WHEN geom && ${envelopeOf(region)} THEN ${sqlNumber(MPH_PER_UNIT[bareMaxspeedUnit(region.speedLimitZone)])}`)
+    .join('\n');
+
+  return `-- Generated from lib/roadInference.ts by \`pnpm pipeline analyze\`. Do not edit; change lib/roadInference.ts.
+
+-- osm2pgsql's default style keeps \`oneway\`, \`junction\` and \`width\` in their own columns, not in \`tags\`.
+CREATE OR REPLACE FUNCTION road_is_oneway(oneway text, junction text, highway text) RETURNS boolean
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT lower(COALESCE(oneway, '')) IN (${ONEWAY_VALUES.map(sqlText).join(', ')})
+        OR junction = 'roundabout'
+        OR (highway = 'motorway' AND COALESCE(oneway, '') <> 'no')
+$$;
+
+-- \`lanes\`, or \`lanes:forward\` + \`lanes:backward\` when both are tagged.
+CREATE OR REPLACE FUNCTION road_tagged_lanes(tags hstore) RETURNS int
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE
+        WHEN (tags->'lanes') ~ '^\\d+$' THEN (tags->'lanes')::int
+        WHEN (tags->'lanes:forward') ~ '^\\d+$' AND (tags->'lanes:backward') ~ '^\\d+$'
+            THEN (tags->'lanes:forward')::int + (tags->'lanes:backward')::int
+        ELSE NULL::int
+    END
+$$;
+
+-- One direction's lane count plus one for the other, then \`width\`, then the class default.
+CREATE OR REPLACE FUNCTION road_inferred_lanes(tags hstore, highway text, is_oneway boolean, width text) RETURNS int
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+    directional text := COALESCE(tags->'lanes:forward', tags->'lanes:backward');
+    m text[];
+    width_m double precision;
+    result int;
+BEGIN
+    IF directional ~ '^\\d+$' THEN
+        RETURN directional::int + CASE WHEN is_oneway THEN 0 ELSE 1 END;
+    END IF;
+
+    m := regexp_match(lower(btrim(COALESCE(width, ''))), '^([0-9]+(?:[.,][0-9]+)?) ?(m|ft|'')?$');
+    IF m IS NOT NULL THEN
+        width_m := replace(m[1], ',', '.')::double precision
+            / CASE WHEN m[2] IN ('ft', '''') THEN ${sqlNumber(FEET_PER_METRE)} ELSE 1.0 END;
+        RETURN GREATEST(1, floor(width_m / ${sqlNumber(LANE_WIDTH_M)})::int);
+    END IF;
+
+    SELECT CASE WHEN is_oneway THEN t.oneway ELSE t.two_way END INTO result
+    FROM (VALUES
+${laneRows}
+    ) AS t(highway, two_way, oneway)
+    WHERE t.highway = road_inferred_lanes.highway;
+    RETURN result;
+END
+$$;
+
+-- The class default, else the statutory limit of the region the road is in.
+CREATE OR REPLACE FUNCTION road_inferred_speed_mph(highway text, geom geometry) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT COALESCE(
+        (SELECT t.mph
+         FROM (VALUES
+${speedRows}
+         ) AS t(highway, mph)
+         WHERE t.highway = road_inferred_speed_mph.highway),
+        CASE
+${zoneCases || '            WHEN false THEN NULL::double precision'}
+            ELSE ${sqlNumber(FALLBACK_ZONE_SPEED_MPH)}
+        END
+    )
+$$;
+
+-- \`osm_maxspeed_mph\` with bare numbers in the unit of the region the road is in.
+CREATE OR REPLACE FUNCTION road_maxspeed_mph(tags hstore, geom geometry) RETURNS double precision
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT osm_maxspeed_mph(tags, CASE
+${bareUnitCases || '            WHEN false THEN NULL::double precision'}
+            ELSE ${sqlNumber(MPH_PER_UNIT['km/h'])}
+        END)
+$$;
+`;
+}
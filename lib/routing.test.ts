@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import type { LngLatTuple } from './geo';
+import { buildRoutingGraph, findRoute, lowExposureCost, nearestNode, shortestPathCost } from './routing';
+
+function street(coordinates: LngLatTuple[], props: Record<string, unknown>): GeoJSON.Feature {
+  return { type: 'Feature', properties: props, geometry: { type: 'LineString', coordinates } };
+}
+
+const A: LngLatTuple = [0, 0];
+const B: LngLatTuple = [0.001, 0];
+const C: LngLatTuple = [0, 0.0005];
+const D: LngLatTuple = [0.001, 0.0005];
+
+// A straight, sketchy ~111 m arterial from A to B, and a quiet ~222 m detour around it.
+const NETWORK = [
+  street([A, B], { road_osm_id: 1, segment_no: 0, name: 'Main St', frogger_index: 0.9 }),
+  street([A, C], { road_osm_id: 2, segment_no: 0, name: 'Side St', frogger_index: 0 }),
+  street([C, D], { road_osm_id: 3, segment_no: 0, name: 'Back St', frogger_index: 0 }),
+  street([D, B], { road_osm_id: 4, segment_no: 0, name: 'Side St', frogger_index: 0 }),
+];
+
+function route(features: readonly GeoJSON.Feature[], from: LngLatTuple, to: LngLatTuple, cost = shortestPathCost) {
+  const graph = buildRoutingGraph(features);
+  const start = nearestNode(graph, from);
+  const end = nearestNode(graph, to);
+  if (start === null || end === null) return null;
+  return findRoute(graph, start, end, cost);
+}
+
+describe('findRoute', () => {
+  it('takes the shortest path by length', () => {
+    const result = route(NETWORK, A, B);
+    expect(result?.coordinates).toEqual([A, B]);
+    expect(result?.distanceMeters).toBeCloseTo(111.2, 0);
+    expect(result?.worst).toMatchObject({ froggerIndex: 0.9, name: 'Main St' });
+  });
+
+  it('walks around a sketchy street when exposure is costed', () => {
+    const result = route(NETWORK, A, B, lowExposureCost);
+    expect(result?.coordinates).toEqual([A, C, D, B]);
+    expect(result?.worst?.froggerIndex).toBe(0);
+  });
+
+  it('gives null when the endpoints are not connected', () => {
+    const island = street([[0.01, 0.01], [0.011, 0.01]], { road_osm_id: 9, segment_no: 0, frogger_index: 0 });
+    expect(route([...NETWORK, island], A, [0.011, 0.01])).toBeNull();
+  });
+});
+
+describe('buildRoutingGraph', () => {
+  it('joins ends that are within a couple of metres', () => {
+    const nearlyB: LngLatTuple = [0.001, 0.00001];
+    const graph = buildRoutingGraph([
+      street([A, B], { road_osm_id: 1, segment_no: 0, frogger_index: 0 }),
+      street([nearlyB, D], { road_osm_id: 2, segment_no: 0, frogger_index: 0 }),
+    ]);
+    expect(graph.nodes).toHaveLength(3);
+  });
+
+  it('puts the tile-clipped pieces of one segment back together', () => {
+    const mid: LngLatTuple = [0.0005, 0];
+    const pastMid: LngLatTuple = [0.00055, 0];
+    const graph = buildRoutingGraph([
+      street([A, pastMid], { road_osm_id: 1, segment_no: 0, frogger_index: 0.2 }),
+      street([mid, B], { road_osm_id: 1, segment_no: 0, frogger_index: 0.2 }),
+    ]);
+    const start = nearestNode(graph, A)!;
+    const end = nearestNode(graph, B)!;
+    expect(findRoute(graph, start, end, shortestPathCost)?.distanceMeters).toBeCloseTo(111.2, 0);
+  });
+});
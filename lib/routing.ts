@@ -0,0 +1,265 @@
+// Client-side walking routes over the `streets` features already loaded from the
+// sketchiness tiles. There is no routing server: the graph is rebuilt from the loaded
+// tiles of one zoom when a route is requested.
+
+import { haversineMeters, lineParts, type LngLatTuple } from './geo';
+
+type Edge = {
+  to: number;
+  lengthMeters: number;
+  froggerIndex: number;
+  name: string | null;
+};
+
+export type RoutingGraph = {
+  nodes: LngLatTuple[];
+  adjacency: Edge[][];
+};
+
+// The highest Frogger Index street segment the route walks along.
+export type WorstSegment = {
+  froggerIndex: number;
+  name: string | null;
+  lngLat: LngLatTuple;
+};
+
+export type Route = {
+  coordinates: LngLatTuple[];
+  distanceMeters: number;
+  worst: WorstSegment | null;
+};
+
+export type EdgeCost = (edge: { lengthMeters: number; froggerIndex: number }) => number;
+
+// How much longer a walk may get to avoid a segment: a segment with Frogger Index 1.0
+// costs as much as walking (1 + EXPOSURE_PENALTY) times its length.
+const EXPOSURE_PENALTY = 8;
+
+export const shortestPathCost: EdgeCost = (edge) => edge.lengthMeters;
+
+export const lowExposureCost: EdgeCost = (edge) => edge.lengthMeters * (1 + EXPOSURE_PENALTY * edge.froggerIndex);
+
+// Vertices closer than this are one node: streets meeting at an intersection, and the ends
+// of a segment's pieces from neighbouring tiles, never land exactly on the same coordinate.
+const SNAP_METERS = 2;
+
+const METERS_PER_DEGREE = 111320;
+
+// Stable per-segment key, so the pieces of one segment clipped into several tiles can be
+// put back together. Tiles exported before `road_osm_id` was added fall back to `osm_id`.
+function segmentKey(props: Record<string, unknown>, fallback: number): string {
+  if (props.road_osm_id != null && props.segment_no != null) return `${props.road_osm_id}:${props.segment_no}`;
+  if (props.osm_id != null) return `id:${props.osm_id}`;
+  return `feature:${fallback}`;
+}
+
+// Tiles clip a segment at their borders (plus a buffer), so one 20 m segment can arrive as
+// overlapping pieces. The segments are short and nearly straight: the two vertices furthest
+// apart are its real ends, and the rest are put in order between them.
+function mergeClippedPieces(pieces: readonly LngLatTuple[][]): LngLatTuple[] {
+  if (pieces.length === 1) return pieces[0];
+
+  const coords = pieces.flat();
+  let from = coords[0];
+  let to = coords[0];
+  let longest = -1;
+  for (let i = 0; i < coords.length; i++) {
+    for (let j = i + 1; j < coords.length; j++) {
+      const d = haversineMeters(coords[i], coords[j]);
+      if (d > longest) {
+        longest = d;
+        from = coords[i];
+        to = coords[j];
+      }
+    }
+  }
+
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const along = (c: LngLatTuple) => (c[0] - from[0]) * dx + (c[1] - from[1]) * dy;
+  const merged: LngLatTuple[] = [];
+  for (const coord of [...coords].sort((a, b) => along(a) - along(b))) {
+    if (merged.length === 0 || haversineMeters(merged[merged.length - 1], coord) > SNAP_METERS) merged.push(coord);
+  }
+  return merged;
+}
+
+// Expects the `streets` features of a single tile zoom: lower zooms simplify and drop
+// streets, so mixing zooms would give parallel, partly disconnected copies of a street.
+export function buildRoutingGraph(features: readonly GeoJSON.Feature[]): RoutingGraph {
+  const nodes: LngLatTuple[] = [];
+  const adjacency: Edge[][] = [];
+  // Grid of SNAP_METERS cells; a vertex snaps to a node in its own or a neighbouring cell.
+  const grid = new Map<string, number[]>();
+  const edgeKeys = new Set<string>();
+
+  const cellOf = ([lng, lat]: LngLatTuple) => {
+    const cellDeg = SNAP_METERS / METERS_PER_DEGREE;
+    return [Math.floor((lng * Math.cos((lat * Math.PI) / 180)) / cellDeg), Math.floor(lat / cellDeg)];
+  };
+
+  const nodeFor = (coord: LngLatTuple) => {
+    const [cx, cy] = cellOf(coord);
+    let nearest = -1;
+    let nearestDist = SNAP_METERS;
+    for (let x = cx - 1; x <= cx + 1; x++) {
+      for (let y = cy - 1; y <= cy + 1; y++) {
+        for (const idx of grid.get(`${x},${y}`) ?? []) {
+          const d = haversineMeters(coord, nodes[idx]);
+          if (d <= nearestDist) {
+            nearest = idx;
+            nearestDist = d;
+          }
+        }
+      }
+    }
+    if (nearest !== -1) return nearest;
+
+    const idx = nodes.length;
+    nodes.push([coord[0], coord[1]]);
+    adjacency.push([]);
+    const cell = grid.get(`${cx},${cy}`);
+    if (cell) cell.push(idx);
+    else grid.set(`${cx},${cy}`, [idx]);
+    return idx;
+  };
+
+  const segments = new Map<string, { props: Record<string, unknown>; pieces: LngLatTuple[][] }>();
+  features.forEach((feature, i) => {
+    if (!feature.geometry) return;
+    const props = (feature.properties ?? {}) as Record<string, unknown>;
+    const key = segmentKey(props, i);
+    const entry = segments.get(key) ?? { props, pieces: [] };
+    entry.pieces.push(...lineParts(feature.geometry).filter((part) => part.length >= 2));
+    segments.set(key, entry);
+  });
+
+  for (const { props, pieces } of segments.values()) {
+    if (pieces.length === 0) continue;
+
+    const fiRaw = typeof props.frogger_index === 'number' ? props.frogger_index : Number(props.frogger_index);
+    const froggerIndex = Number.isFinite(fiRaw) ? Math.max(0, fiRaw) : 0;
+    const name = typeof props.name === 'string' && props.name.trim() ? props.name.trim() : null;
+
+    const line = mergeClippedPieces(pieces);
+    for (let i = 1; i < line.length; i++) {
+      const a = nodeFor(line[i - 1]);
+      const b = nodeFor(line[i]);
+      const edgeKey = a < b ? `${a}:${b}` : `${b}:${a}`;
+      if (a === b || edgeKeys.has(edgeKey)) continue;
+      edgeKeys.add(edgeKey);
+
+      const lengthMeters = haversineMeters(nodes[a], nodes[b]);
+      adjacency[a].push({ to: b, lengthMeters, froggerIndex, name });
+      adjacency[b].push({ to: a, lengthMeters, froggerIndex, name });
+    }
+  }
+
+  return { nodes, adjacency };
+}
+
+export function nearestNode(graph: RoutingGraph, point: LngLatTuple): number | null {
+  let best: number | null = null;
+  let bestDist = Number.POSITIVE_INFINITY;
+
+  for (let i = 0; i < graph.nodes.length; i++) {
+    if (graph.adjacency[i].length === 0) continue;
+    const d = haversineMeters(point, graph.nodes[i]);
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+
+  return best;
+}
+
+// Binary min-heap keyed by tentative cost.
+class MinHeap {
+  private items: Array<{ node: number; cost: number }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, cost: number) {
+    const items = this.items;
+    items.push({ node, cost });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { node: number; cost: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < items.length && items[l].cost < items[smallest].cost) smallest = l;
+        if (r < items.length && items[r].cost < items[smallest].cost) smallest = r;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export function findRoute(graph: RoutingGraph, start: number, end: number, cost: EdgeCost): Route | null {
+  const n = graph.nodes.length;
+  const best = new Float64Array(n).fill(Number.POSITIVE_INFINITY);
+  const prevNode = new Int32Array(n).fill(-1);
+  const prevEdge: Array<Edge | null> = new Array(n).fill(null);
+
+  best[start] = 0;
+  const heap = new MinHeap();
+  heap.push(start, 0);
+
+  while (heap.size > 0) {
+    const current = heap.pop()!;
+    if (current.cost > best[current.node]) continue;
+    if (current.node === end) break;
+
+    for (const edge of graph.adjacency[current.node]) {
+      const next = current.cost + cost(edge);
+      if (next < best[edge.to]) {
+        best[edge.to] = next;
+        prevNode[edge.to] = current.node;
+        prevEdge[edge.to] = edge;
+        heap.push(edge.to, next);
+      }
+    }
+  }
+
+  if (start !== end && prevNode[end] === -1) return null;
+
+  const coordinates: LngLatTuple[] = [graph.nodes[end]];
+  let distanceMeters = 0;
+  let worst: WorstSegment | null = null;
+
+  for (let node = end; node !== start; node = prevNode[node]) {
+    const edge = prevEdge[node]!;
+    const from = prevNode[node];
+    distanceMeters += edge.lengthMeters;
+    if (!worst || edge.froggerIndex > worst.froggerIndex) {
+      const [aLng, aLat] = graph.nodes[from];
+      const [bLng, bLat] = graph.nodes[node];
+      worst = { froggerIndex: edge.froggerIndex, name: edge.name, lngLat: [(aLng + bLng) / 2, (aLat + bLat) / 2] };
+    }
+    coordinates.push(graph.nodes[from]);
+  }
+
+  coordinates.reverse();
+  return { coordinates, distanceMeters, worst };
+}
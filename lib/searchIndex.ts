@@ -0,0 +1,83 @@
+// Offline street search over the index emitted by query_snippets/search_index.sql.
+//
+// The index is a static JSON file served next to the sketchiness PMTiles, so search
+// works on GitHub Pages without a geocoding service.
+
+export type SearchEntry = {
+  name: string;
+  // 'street' entries point at the worst `streets` segment; 'crossing' entries at the
+  // worst `unmarked_crossings` point on a road that has no analyzed street segments.
+  kind: 'street' | 'crossing';
+  // [west, south, east, north]
+  bbox: [number, number, number, number];
+  lngLat: [number, number];
+  // Same property names as the tile features.
+  properties: Record<string, unknown>;
+};
+
+export type SearchIndex = {
+  version: number;
+  entries: SearchEntry[];
+};
+
+export function searchIndexFileFor(sketchinessFile: string): string {
+  return sketchinessFile.replace(/\.pmtiles$/, '') + '.search.json';
+}
+
+export async function loadSearchIndex(url: string): Promise<SearchIndex> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Search index request failed (${res.status})`);
+
+  const json = (await res.json()) as Partial<SearchIndex>;
+  if (!json || !Array.isArray(json.entries)) throw new Error('Search index is malformed');
+
+  return { version: Number(json.version) || 1, entries: json.entries };
+}
+
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function froggerIndexOf(entry: SearchEntry): number {
+  const raw = entry.properties.frogger_index;
+  const num = typeof raw === 'number' ? raw : Number(raw);
+  return Number.isFinite(num) ? num : 0;
+}
+
+// Lower is better: exact name, then prefix, then every query word starting a name word,
+// then plain substring. Ties go to the street with the worst segment.
+function matchRank(name: string, query: string, queryWords: string[]): number | null {
+  if (name === query) return 0;
+  if (name.startsWith(query)) return 1;
+
+  const nameWords = name.split(' ');
+  if (queryWords.every((q) => nameWords.some((w) => w.startsWith(q)))) return 2;
+  if (name.includes(query)) return 3;
+
+  return null;
+}
+
+export function searchEntries(entries: readonly SearchEntry[], query: string, limit = 8): SearchEntry[] {
+  const q = normalize(query);
+  if (!q) return [];
+
+  const queryWords = q.split(' ');
+  const ranked: Array<{ entry: SearchEntry; rank: number }> = [];
+
+  for (const entry of entries) {
+    const rank = matchRank(normalize(entry.name), q, queryWords);
+    if (rank === null) continue;
+    ranked.push({ entry, rank });
+  }
+
+  ranked.sort(
+    (a, b) => a.rank - b.rank || froggerIndexOf(b.entry) - froggerIndexOf(a.entry) || a.entry.name.localeCompare(b.entry.name),
+  );
+
+  return ranked.slice(0, limit).map((r) => r.entry);
+}
@@ -0,0 +1,259 @@
+import type { ExpressionSpecification, FilterSpecification } from 'maplibre-gl';
+
+import {
+  FROGGER_DIFFICULTY_BUCKETS,
+  HARD_ZERO_HIGHWAYS,
+  OFFICIAL_FROGGER_WEIGHTS,
+  UNKNOWN_VOLUME_SCORE,
+  froggerIndexFromScores,
+  isOfficialFroggerWeights,
+  type FroggerDifficulty,
+  type FroggerWeights,
+} from './frogger';
+
+// Color metrics and legend buckets for the street layer. Colors match the
+// `.legend-line--*` classes in app/globals.css.
+
+export type LegendBucketId = 'green' | 'yellow' | 'red' | 'darkred' | 'unknown';
+
+export type LegendBucket = {
+  id: LegendBucketId;
+  color: string;
+  // Inclusive lower bound, exclusive upper bound, in the metric's property units.
+  min: number;
+  max: number | null;
+  // Residential streets are always drawn green on the distance metric, whatever their distance.
+  includesResidential?: boolean;
+  // Streets where the property is missing from the tiles (untagged lanes/maxspeed).
+  isUnknown?: boolean;
+};
+
+export type StreetMetricId = 'distance' | 'frogger' | 'lanes' | 'speed';
+
+// Legend labels live in the message catalogs (lib/locales/), keyed by metric and bucket id.
+export type StreetMetric = {
+  id: StreetMetricId;
+  property: string;
+  buckets: readonly LegendBucket[];
+};
+
+const COLORS = {
+  green: '#4caf50',
+  yellow: '#fdd835',
+  red: '#e53935',
+  darkred: '#b71c1c',
+  unknown: '#9e9e9e',
+} as const;
+
+const UNKNOWN_BUCKET: LegendBucket = { id: 'unknown', color: COLORS.unknown, min: 0, max: null, isUnknown: true };
+
+const FROGGER_BUCKET_IDS: Record<FroggerDifficulty, LegendBucketId> = {
+  easy: 'green',
+  medium: 'yellow',
+  hard: 'red',
+  'Ft. Lauderdale': 'darkred',
+};
+
+export const STREET_METRICS: Record<StreetMetricId, StreetMetric> = {
+  distance: {
+    id: 'distance',
+    property: 'dist_to_crossing_meters',
+    buckets: [
+      { id: 'green', color: COLORS.green, min: 0, max: 100, includesResidential: true },
+      { id: 'yellow', color: COLORS.yellow, min: 100, max: 200 },
+      { id: 'red', color: COLORS.red, min: 200, max: 500 },
+      { id: 'darkred', color: COLORS.darkred, min: 500, max: null },
+    ],
+  },
+  frogger: {
+    id: 'frogger',
+    property: 'frogger_index',
+    // The difficulty bands from lib/frogger.ts, so the legend and info panels agree.
+    buckets: FROGGER_DIFFICULTY_BUCKETS.map(({ difficulty, min, max }) => {
+      const id = FROGGER_BUCKET_IDS[difficulty];
+      return { id, color: COLORS[id], min, max };
+    }),
+  },
+  lanes: {
+    id: 'lanes',
+    property: 'lanes',
+    buckets: [
+      { id: 'green', color: COLORS.green, min: 0, max: 3 },
+      { id: 'yellow', color: COLORS.yellow, min: 3, max: 4 },
+      { id: 'red', color: COLORS.red, min: 4, max: 6 },
+      { id: 'darkred', color: COLORS.darkred, min: 6, max: null },
+      UNKNOWN_BUCKET,
+    ],
+  },
+  speed: {
+    id: 'speed',
+    property: 'speed_mph',
+    buckets: [
+      { id: 'green', color: COLORS.green, min: 0, max: 30 },
+      { id: 'yellow', color: COLORS.yellow, min: 30, max: 40 },
+      { id: 'red', color: COLORS.red, min: 40, max: 50 },
+      { id: 'darkred', color: COLORS.darkred, min: 50, max: null },
+      UNKNOWN_BUCKET,
+    ],
+  },
+};
+
+export const STREET_METRIC_IDS = Object.keys(STREET_METRICS) as StreetMetricId[];
+
+// Unmarked crossings at or below this Frogger Index are not shown by default.
+export const DEFAULT_UNMARKED_FROGGER_THRESHOLD = 0.2;
+
+const IS_RESIDENTIAL: FilterSpecification = ['in', ['get', 'highway'], ['literal', ['residential', 'living_street']]];
+
+function score(property: string, fallback: number): ExpressionSpecification {
+  return ['to-number', ['coalesce', ['get', property], fallback], fallback];
+}
+
+// `froggerIndexFromScores` as a MapLibre expression over the component scores in the tiles,
+// so what-if weights recolor the map without a rebuild.
+export function buildFroggerIndexExpression(weights: FroggerWeights): ExpressionSpecification {
+  const total = weights.speed + weights.lanes + weights.volume;
+  const index: ExpressionSpecification =
+    total <= 0
+      ? ['literal', 0]
+      : [
+          '*',
+          [
+            '/',
+            [
+              '+',
+              ['*', weights.speed, score('speed_score', 0)],
+              ['*', weights.lanes, score('lanes_score', 0)],
+              ['*', weights.volume, score('volume_score', UNKNOWN_VOLUME_SCORE)],
+            ],
+            total,
+          ],
+          ['+', 1 - weights.distance, ['*', weights.distance, score('distance_from_crosswalk_score', 0)]],
+        ];
+  if (!weights.hardZero) return index;
+  return ['case', ['in', ['get', 'highway'], ['literal', HARD_ZERO_HIGHWAYS]], 0, index];
+}
+
+// Official weights read the exported `frogger_index` as is.
+function metricValue(metric: StreetMetric, weights: FroggerWeights): ExpressionSpecification {
+  if (metric.id === 'frogger' && !isOfficialFroggerWeights(weights)) return buildFroggerIndexExpression(weights);
+  return ['to-number', ['get', metric.property], 0];
+}
+
+export function buildLineColorExpression(
+  metric: StreetMetric,
+  weights: FroggerWeights = OFFICIAL_FROGGER_WEIGHTS,
+): ExpressionSpecification {
+  if (metric.id === 'distance') {
+    // Residential streets are always green; other roads scale by distance.
+    return [
+      'case',
+      IS_RESIDENTIAL as ExpressionSpecification,
+      COLORS.green,
+      ['interpolate', ['linear'], ['get', 'dist_to_crossing_meters'], 0, COLORS.green, 100, COLORS.yellow, 200, COLORS.red, 500, COLORS.darkred],
+    ];
+  }
+
+  // Other metrics use hard steps so the map matches the legend buckets exactly.
+  const ranged = metric.buckets.filter((b) => !b.isUnknown);
+  const stops = ranged.slice(1).flatMap((b) => [b.min, b.color]);
+  const stepped: ExpressionSpecification = ['step', metricValue(metric, weights), ranged[0].color, ...stops];
+
+  if (!metric.buckets.some((b) => b.isUnknown)) return stepped;
+  return ['case', ['has', metric.property], stepped, COLORS.unknown];
+}
+
+function bucketPredicate(metric: StreetMetric, bucket: LegendBucket, weights: FroggerWeights): FilterSpecification {
+  if (bucket.isUnknown) return ['!', ['has', metric.property]];
+
+  const value = metricValue(metric, weights);
+  const range: FilterSpecification[] = [['has', metric.property], ['>=', value, bucket.min]];
+  if (bucket.max !== null) range.push(['<', value, bucket.max]);
+
+  if (metric.id !== 'distance') return ['all', ...range] as FilterSpecification;
+  if (bucket.includesResidential) return ['any', IS_RESIDENTIAL, ['all', ...range]] as FilterSpecification;
+  return ['all', ['!', IS_RESIDENTIAL], ...range] as FilterSpecification;
+}
+
+function scoreProp(props: Record<string, unknown>, key: string): number | null {
+  const value = props[key] == null ? NaN : Number(props[key]);
+  return Number.isFinite(value) ? value : null;
+}
+
+// JS twin of `buildFroggerIndexExpression`.
+function froggerIndexFromProps(props: Record<string, unknown>, weights: FroggerWeights): number {
+  const highway = typeof props.highway === 'string' ? props.highway : null;
+  return froggerIndexFromScores(
+    highway,
+    {
+      speed: scoreProp(props, 'speed_score'),
+      lanes: scoreProp(props, 'lanes_score'),
+      volume: scoreProp(props, 'volume_score'),
+      distance: scoreProp(props, 'distance_from_crosswalk_score'),
+    },
+    weights,
+  );
+}
+
+// JS twin of `bucketPredicate`, for placing a single feature's properties in the legend.
+export function legendBucketFor(
+  metric: StreetMetric,
+  props: Record<string, unknown>,
+  weights: FroggerWeights = OFFICIAL_FROGGER_WEIGHTS,
+): LegendBucketId | null {
+  const raw =
+    metric.id === 'frogger' && !isOfficialFroggerWeights(weights) ? froggerIndexFromProps(props, weights) : props[metric.property];
+  if (raw === undefined || raw === null) return metric.buckets.find((b) => b.isUnknown)?.id ?? null;
+
+  if (metric.id === 'distance' && ['residential', 'living_street'].includes(String(props.highway))) {
+    return metric.buckets.find((b) => b.includesResidential)?.id ?? null;
+  }
+
+  const num = Number(raw);
+  const value = Number.isFinite(num) ? num : 0;
+  const bucket = metric.buckets.find((b) => !b.isUnknown && value >= b.min && (b.max === null || value < b.max));
+  return bucket?.id ?? null;
+}
+
+// Returns null when nothing is hidden so the layers render unfiltered.
+export function buildLegendBucketFilter(
+  metric: StreetMetric,
+  hidden: ReadonlySet<LegendBucketId>,
+  weights: FroggerWeights = OFFICIAL_FROGGER_WEIGHTS,
+): FilterSpecification | null {
+  if (hidden.size === 0) return null;
+
+  const visible = metric.buckets.filter((b) => !hidden.has(b.id));
+  return ['any', ...visible.map((b) => bucketPredicate(metric, b, weights))] as FilterSpecification;
+}
+
+export function buildUnmarkedCrossingFilter(threshold: number): FilterSpecification {
+  return ['>', ['get', 'frogger_index'], threshold];
+}
+
+// "What changed" overlay: the `changes` layer written by query_snippets/change_detection.sql.
+export type ChangeKind = 'improved' | 'worsened' | 'added' | 'removed';
+
+export const CHANGE_KINDS: ReadonlyArray<{ id: ChangeKind; color: string }> = [
+  { id: 'improved', color: '#2e7d32' },
+  { id: 'worsened', color: '#c62828' },
+  { id: 'added', color: '#1565c0' },
+  { id: 'removed', color: '#757575' },
+];
+
+export function buildChangeColorExpression(): ExpressionSpecification {
+  const color = (id: ChangeKind) => CHANGE_KINDS.find((k) => k.id === id)!.color;
+  return [
+    'match',
+    ['get', 'change'],
+    'improved',
+    color('improved'),
+    'worsened',
+    color('worsened'),
+    'added',
+    color('added'),
+    'removed',
+    color('removed'),
+    COLORS.unknown,
+  ];
+}
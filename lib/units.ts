@@ -0,0 +1,108 @@
+// Metric/imperial display preference. Data stays in meters and mph (as exported in the
+// tiles); only formatting changes. The `units` URL param wins over localStorage so shared
+// links open the way they were sent. Numbers are formatted for the UI language (lib/i18n.ts).
+
+import { formatNumber, messagesFor, type Locale } from './i18n';
+import { parseMaxspeed, type SpeedUnit } from './maxspeed';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEMS: readonly UnitSystem[] = ['metric', 'imperial'];
+
+// Until the visitor picks one; regions can set their own (`RegionConfig.units`).
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial';
+
+const STORAGE_KEY = 'units';
+
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_MILE = 1609.344;
+const KMH_PER_MPH = 1.609344;
+
+export function parseUnitSystem(value: string | null | undefined): UnitSystem | null {
+  return value === 'metric' || value === 'imperial' ? value : null;
+}
+
+// `fallback` applies when neither the URL nor storage has a choice.
+export function readUnitSystem(fallback: UnitSystem = DEFAULT_UNIT_SYSTEM): UnitSystem {
+  if (typeof window === 'undefined') return fallback;
+
+  const fromUrl = parseUnitSystem(new URLSearchParams(window.location.search).get('units'));
+  if (fromUrl) return fromUrl;
+
+  try {
+    return parseUnitSystem(window.localStorage.getItem(STORAGE_KEY)) ?? fallback;
+  } catch {
+    // Storage can throw in private browsing modes.
+    return fallback;
+  }
+}
+
+export function saveUnitSystem(units: UnitSystem) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, units);
+  } catch {
+    // Fall back to the URL only.
+  }
+
+  const url = new URL(window.location.href);
+  url.searchParams.set('units', units);
+  window.history.replaceState(null, '', url.toString());
+}
+
+export type DistanceUnit = {
+  metersPer: number;
+  digits: number;
+  // Appended directly ("120m"), so word units carry their own leading space.
+  suffix: string;
+};
+
+// Legend easter egg: "Change units" cycles 0: meters, 1: "No!", 2: "still no!",
+// 3: football fields (ok fine), 4: "welcome back", 5: bald eagles.
+const JOKE_DISTANCE_UNITS: Record<number, Omit<DistanceUnit, 'suffix'> & { suffix: Record<Locale, string> }> = {
+  3: { metersPer: 110, digits: 2, suffix: { en: ' football fields', es: ' campos de fútbol' } },
+  5: { metersPer: 2, digits: 0, suffix: { en: ' bald eagles', es: ' águilas calvas' } },
+};
+
+export function distanceUnitFor(units: UnitSystem, locale: Locale, jokeUnitIndex = 0): DistanceUnit {
+  const joke = JOKE_DISTANCE_UNITS[jokeUnitIndex];
+  if (joke) return { ...joke, suffix: joke.suffix[locale] };
+  return units === 'imperial' ? { metersPer: METERS_PER_FOOT, digits: 0, suffix: 'ft' } : { metersPer: 1, digits: 0, suffix: 'm' };
+}
+
+// Short distances in m/ft; long ones switch to km/mi (joke units never switch).
+export function formatDistance(meters: number, units: UnitSystem, locale: Locale, jokeUnitIndex = 0): string {
+  const unit = distanceUnitFor(units, locale, jokeUnitIndex);
+  if (!(jokeUnitIndex in JOKE_DISTANCE_UNITS)) {
+    if (units === 'metric' && meters >= 1000) return `${formatNumber(meters / 1000, locale, 2)}km`;
+    if (units === 'imperial' && meters >= METERS_PER_MILE / 10) return `${formatNumber(meters / METERS_PER_MILE, locale, 2)}mi`;
+  }
+  return `${formatNumber(meters / unit.metersPer, locale, unit.digits)}${unit.suffix}`;
+}
+
+// Road lengths, always in km/mi.
+export function formatLength(meters: number, units: UnitSystem, locale: Locale): string {
+  const value = units === 'imperial' ? meters / METERS_PER_MILE : meters / 1000;
+  return `${formatNumber(value, locale, value < 10 ? 2 : 1)}${units === 'imperial' ? 'mi' : 'km'}`;
+}
+
+export function speedUnitLabel(units: UnitSystem): string {
+  return units === 'imperial' ? 'mph' : 'km/h';
+}
+
+export function convertSpeed(mph: number, units: UnitSystem): number {
+  return units === 'imperial' ? mph : mph * KMH_PER_MPH;
+}
+
+export function formatSpeed(mph: number, units: UnitSystem, locale: Locale): string {
+  return `${formatNumber(convertSpeed(mph, units), locale)} ${speedUnitLabel(units)}`;
+}
+
+// A raw `maxspeed` tag in the chosen units; tags without a number (`signals`) are shown as-is.
+// `bareUnit` is the region's unit for unit-less numbers (`bareMaxspeedUnit`).
+export function formatMaxspeed(raw: string, units: UnitSystem, locale: Locale, bareUnit: SpeedUnit = 'km/h'): string {
+  const parsed = parseMaxspeed(raw, bareUnit);
+  if (!parsed) return raw;
+  return parsed.unlimited ? messagesFor(locale).common.noSpeedLimit : formatSpeed(parsed.mph, units, locale);
+}
@@ -0,0 +1,99 @@
+-- Changes between the current analysis run and the snapshot kept by snapshot_analysis.sql,
+-- for reporting progress after an OSM import. Exported as the `changes` tile layer.
+--
+-- Assumes:
+--   - streets_analyzed, unmarked_crosswalk_points_enriched (current run)
+--   - streets_analyzed_prev, unmarked_crosswalk_points_enriched_prev (snapshot)
+--
+-- Creates:
+--   - analysis_changes (feature_kind, road_osm_id, segment_no, point_osm_id, name, change,
+--                       frogger_index_before, frogger_index_after, frogger_index_delta, geom)
+--
+-- Notes:
+-- - Segments match on (road_osm_id, segment_no); crossings match on point_osm_id.
+-- - change is 'improved' | 'worsened' | 'added' | 'removed'. Index moves smaller than
+--   min_delta count as unchanged and are left out.
+-- - frogger_index_delta is after - before (negative = safer); NULL for added/removed.
+-- - An unmarked crossing that gets marked (or retagged) shows up as 'removed'.
+-- - Editing a way's geometry re-segments it, so an edited road can show a mix of
+--   changes along its length.
+
+DROP TABLE IF EXISTS analysis_changes;
+
+CREATE UNLOGGED TABLE analysis_changes AS
+WITH params AS (
+    SELECT 0.01::double precision AS min_delta
+),
+pairs AS (
+    SELECT
+        'segment'::text AS feature_kind,
+        COALESCE(cur.road_osm_id, prev.road_osm_id) AS road_osm_id,
+        COALESCE(cur.segment_no, prev.segment_no) AS segment_no,
+        NULL::bigint AS point_osm_id,
+        COALESCE(cur.name, prev.name) AS name,
+        prev.road_osm_id IS NOT NULL AS in_prev,
+        cur.road_osm_id IS NOT NULL AS in_cur,
+        prev.frogger_index AS frogger_index_before,
+        cur.frogger_index AS frogger_index_after,
+        COALESCE(cur.geom, prev.geom) AS geom
+    FROM streets_analyzed cur
+    FULL OUTER JOIN streets_analyzed_prev prev
+      ON prev.road_osm_id = cur.road_osm_id
+     AND prev.segment_no = cur.segment_no
+
+    UNION ALL
+
+    SELECT
+        'crossing'::text AS feature_kind,
+        NULL::bigint AS road_osm_id,
+        NULL::bigint AS segment_no,
+        COALESCE(cur.point_osm_id, prev.point_osm_id) AS point_osm_id,
+        COALESCE(cur.frogger_road_name, prev.frogger_road_name) AS name,
+        prev.point_osm_id IS NOT NULL AS in_prev,
+        cur.point_osm_id IS NOT NULL AS in_cur,
+        prev.frogger_index AS frogger_index_before,
+        cur.frogger_index AS frogger_index_after,
+        COALESCE(cur.geom, prev.geom) AS geom
+    FROM unmarked_crosswalk_points_enriched cur
+    FULL OUTER JOIN unmarked_crosswalk_points_enriched_prev prev
+      ON prev.point_osm_id = cur.point_osm_id
+),
+classified AS (
+    SELECT
+        p.*,
+        CASE
+            WHEN p.in_prev AND p.in_cur
+                THEN COALESCE(p.frogger_index_after, 0.0) - COALESCE(p.frogger_index_before, 0.0)
+            ELSE NULL::double precision
+        END AS frogger_index_delta
+    FROM pairs p
+)
+SELECT
+    c.feature_kind,
+    c.road_osm_id,
+    c.segment_no,
+    c.point_osm_id,
+    c.name,
+    CASE
+        WHEN NOT c.in_prev THEN 'added'
+        WHEN NOT c.in_cur THEN 'removed'
+        WHEN c.frogger_index_delta < 0 THEN 'improved'
+        ELSE 'worsened'
+    END AS change,
+    c.frogger_index_before,
+    c.frogger_index_after,
+    c.frogger_index_delta,
+    c.geom
+FROM classified c
+CROSS JOIN params
+WHERE c.geom IS NOT NULL
+  AND (NOT c.in_prev OR NOT c.in_cur OR abs(c.frogger_index_delta) >= params.min_delta);
+
+CREATE INDEX analysis_changes_geom_gist ON analysis_changes USING GIST (geom);
+ANALYZE analysis_changes;
+
+-- Summary for the progress report.
+SELECT feature_kind, change, count(*) AS features, round(sum(frogger_index_delta)::numeric, 2) AS total_delta
+FROM analysis_changes
+GROUP BY feature_kind, change
+ORDER BY feature_kind, change;
@@ -1,13 +1,19 @@
 
 -- Builds 20m road segments for display, each annotated with distance to the nearest
--- marked crosswalk POINT on any road with the same name (within 500m).
+-- marked crosswalk POINT on the same corridor or a road with the same name (within 500m).
 -- Also materializes `streets_analyzed` (the table used by the map/tiles) so you don't
 -- need the older analyze-sketchiness flow.
 --
+-- The Frogger Index formula lives in lib/frogger.ts, maxspeed parsing in lib/maxspeed.ts and
+-- the lanes/speed fallbacks in lib/roadInference.ts; `pnpm pipeline analyze` creates the
+-- frogger_*, osm_maxspeed_* and road_* SQL functions from them before running this file.
+--
 -- Assumes you've already run query_snippets/crosswalks.sql to create:
 --   - roads (road_osm_id, name, highway, geom)
 --   - road_crosswalks (road_osm_id, point_osm_id, ...)
 --   - crosswalk_raw_points (point_osm_id, marked, geom)
+-- and query_snippets/road_corridors.sql to create:
+--   - road_corridors (road_osm_id, corridor_id)
 --
 -- Notes:
 -- - Geometries are expected in EPSG:3857 so distances are ~meters.
@@ -96,7 +102,8 @@ CREATE INDEX road_segments_20m_geom_gist ON road_segments_20m USING GIST (geom);
 
 ANALYZE road_segments_20m;
 
--- Nearest marked crosswalk distance per segment, considering crosswalks on roads with the same name.
+-- Nearest marked crosswalk distance per segment, considering crosswalks on the segment's corridor
+-- (connected ways that continue the street; see road_corridors.sql) and on roads with the same name.
 -- Only searches within 500m; if none found, distance is set to 500m.
 CREATE UNLOGGED TABLE road_segments_20m_crosswalk_dist AS
 WITH seg_base AS (
@@ -106,22 +113,33 @@ WITH seg_base AS (
         s.highway,
         s.segment_no,
         s.geom,
+        rc.corridor_id,
         (r.tags->'maxspeed') AS maxspeed,
         (r.tags->'lanes') AS lanes_raw,
-        CASE
-            WHEN (r.tags->'lanes') ~ '^\d+$' THEN (r.tags->'lanes')::int
-            WHEN (r.tags->'lanes:forward') ~ '^\d+$' AND (r.tags->'lanes:backward') ~ '^\d+$'
-                THEN (r.tags->'lanes:forward')::int + (r.tags->'lanes:backward')::int
-            ELSE NULL::int
-        END AS lanes,
-        CASE
-            WHEN r.tags->'maxspeed' IS NULL OR btrim(r.tags->'maxspeed') = '' THEN NULL::double precision
-            -- Values like "30", "30 mph", "25;35" (take first). Assume mph.
-            ELSE NULLIF(regexp_replace(split_part(r.tags->'maxspeed', ';', 1), '[^0-9]+', '', 'g'), '')::double precision
-        END AS speed_mph
+        -- Untagged lanes/speed are estimated from the highway class, oneway, width and the
+        -- region's default limit (lib/roadInference.ts); the *_inferred flags say which. A value
+        -- that is neither tagged nor estimated stays NULL and is not flagged.
+        COALESCE(tagged.lanes, inferred.lanes) AS lanes,
+        (tagged.lanes IS NULL AND inferred.lanes IS NOT NULL) AS lanes_inferred,
+        COALESCE(tagged.speed_mph, inferred.speed_mph) AS speed_mph,
+        (tagged.speed_mph IS NULL AND inferred.speed_mph IS NOT NULL) AS speed_inferred
     FROM road_segments_20m s
     JOIN roads r
       ON r.road_osm_id = s.road_osm_id
+    LEFT JOIN road_corridors rc
+      ON rc.road_osm_id = s.road_osm_id
+    CROSS JOIN LATERAL (
+        SELECT
+            road_tagged_lanes(r.tags) AS lanes,
+            -- Units, multiple values and implicit limits ("US:urban", source:maxspeed); lib/maxspeed.ts.
+            -- Bare numbers are in the region's unit (mph in the US); lib/roadInference.ts.
+            road_maxspeed_mph(r.tags, r.geom) AS speed_mph
+    ) AS tagged
+    CROSS JOIN LATERAL (
+        SELECT
+            road_inferred_lanes(r.tags, r.highway, road_is_oneway(r.oneway, r.junction, r.highway), r.width) AS lanes,
+            road_inferred_speed_mph(r.highway, r.geom) AS speed_mph
+    ) AS inferred
 ),
 seg_dist AS (
     SELECT
@@ -136,9 +154,12 @@ seg_dist AS (
         FROM marked_crosswalk_road m
         JOIN roads r2
           ON r2.road_osm_id = m.road_osm_id
-        WHERE sb.name IS NOT NULL
-          AND btrim(sb.name) <> ''
-          AND r2.name = sb.name
+        LEFT JOIN road_corridors rc2
+          ON rc2.road_osm_id = m.road_osm_id
+        WHERE (
+                rc2.corridor_id = sb.corridor_id
+                OR (sb.name IS NOT NULL AND btrim(sb.name) <> '' AND r2.name = sb.name)
+            )
           AND ST_DWithin(sb.geom, m.geom, 500.0)
         ORDER BY sb.geom <-> m.geom
         LIMIT 1
@@ -157,73 +178,16 @@ SELECT
     sd.maxspeed,
     sd.lanes_raw,
     sd.lanes,
+    sd.lanes_inferred,
     sd.speed_mph,
+    sd.speed_inferred,
 
-    -- Frogger components
-    CASE
-        WHEN sd.speed_mph IS NULL THEN 0.0
-        ELSE sqrt(LEAST(1.0, GREATEST(0.0, ((sd.speed_mph - 20.0) / 50.0))))
-    END AS speed_score,
-    CASE
-        WHEN sd.lanes IS NULL THEN 0.0
-        WHEN sd.lanes <= 2 THEN 0.0
-        WHEN sd.lanes = 3 THEN 0.25
-        WHEN sd.lanes = 4 THEN 0.5
-        WHEN sd.lanes = 5 THEN 0.75
-        ELSE 1.0
-    END AS lanes_score,
-    CASE
-        WHEN sd.highway IN ('residential', 'living_street', 'service') THEN 0.0
-        WHEN sd.highway IN ('tertiary', 'tertiary_link') THEN 0.1
-        WHEN sd.highway IN ('secondary', 'secondary_link') THEN 0.25
-        WHEN sd.highway IN ('primary', 'primary_link') THEN 0.5
-        WHEN sd.highway IN ('trunk', 'trunk_link') THEN 0.75
-        WHEN sd.highway IN ('motorway', 'motorway_link') THEN 1.0
-        ELSE NULL::double precision
-    END AS volume_score,
-    LEAST(1.0, GREATEST(0.0, ((sd.dist_to_marked_crosswalk_m - 50.0) / 150.0))) AS distance_from_crosswalk_score,
-
-    -- Frogger Index (hard-zero on residential/local streets)
-    CASE
-        WHEN sd.highway IN ('residential', 'living_street', 'service') THEN 0.0
-        ELSE (
-            (
-                (
-                    (1.0 * COALESCE(
-                        CASE
-                            WHEN sd.speed_mph IS NULL THEN 0.0
-                            ELSE sqrt(LEAST(1.0, GREATEST(0.0, ((sd.speed_mph - 20.0) / 50.0))))
-                        END,
-                        0.0
-                    ))
-                    + (1.0 * COALESCE(
-                        CASE
-                            WHEN sd.lanes IS NULL THEN 0.0
-                            WHEN sd.lanes <= 2 THEN 0.0
-                            WHEN sd.lanes = 3 THEN 0.25
-                            WHEN sd.lanes = 4 THEN 0.5
-                            WHEN sd.lanes = 5 THEN 0.75
-                            ELSE 1.0
-                        END,
-                        0.0
-                    ))
-                    + (0.5 * COALESCE(
-                        CASE
-                            WHEN sd.highway IN ('residential', 'living_street', 'service') THEN 0.0
-                            WHEN sd.highway IN ('tertiary', 'tertiary_link') THEN 0.1
-                            WHEN sd.highway IN ('secondary', 'secondary_link') THEN 0.25
-                            WHEN sd.highway IN ('primary', 'primary_link') THEN 0.5
-                            WHEN sd.highway IN ('trunk', 'trunk_link') THEN 0.75
-                            WHEN sd.highway IN ('motorway', 'motorway_link') THEN 1.0
-                            ELSE NULL::double precision
-                        END,
-                        0.5
-                    ))
-                ) / 2.5
-            )
-            * LEAST(1.0, GREATEST(0.0, ((sd.dist_to_marked_crosswalk_m - 50.0) / 150.0)))
-        )
-    END AS frogger_index
+    -- Frogger components and index (functions generated from lib/frogger.ts)
+    frogger_speed_score(sd.speed_mph) AS speed_score,
+    frogger_lanes_score(sd.lanes) AS lanes_score,
+    frogger_volume_score(sd.highway) AS volume_score,
+    frogger_distance_score(sd.dist_to_marked_crosswalk_m) AS distance_from_crosswalk_score,
+    frogger_index(sd.highway, sd.speed_mph, sd.lanes, sd.dist_to_marked_crosswalk_m) AS frogger_index
 FROM seg_dist sd;
 
 CREATE INDEX road_segments_20m_crosswalk_dist_road_idx ON road_segments_20m_crosswalk_dist (road_osm_id);
@@ -241,6 +205,9 @@ SELECT
     best.highway AS frogger_road_highway,
     best.maxspeed AS frogger_maxspeed,
     best.lanes AS frogger_lanes,
+    best.lanes_inferred AS frogger_lanes_inferred,
+    best.speed_mph AS frogger_speed_mph,
+    best.speed_inferred AS frogger_speed_inferred,
     best.dist_to_marked_crosswalk_m AS frogger_dist_to_marked_crosswalk_m,
     best.speed_score AS frogger_speed_score,
     best.lanes_score AS frogger_lanes_score,
@@ -267,18 +234,30 @@ ANALYZE crosswalk_points_enriched;
 CREATE UNLOGGED TABLE streets_analyzed AS
 SELECT
     row_number() OVER (ORDER BY road_osm_id, segment_no)::bigint AS osm_id,
+    -- Stable segment identity across runs (osm_id is only a row number); see change_detection.sql.
+    road_osm_id,
+    segment_no,
     name,
     highway,
     dist_to_marked_crosswalk_m AS dist_to_crossing_meters,
     maxspeed,
+    speed_mph,
+    speed_inferred,
     lanes,
+    lanes_inferred,
+    speed_score,
+    lanes_score,
+    volume_score,
+    distance_from_crosswalk_score,
     frogger_index,
     (nearest_marked_crosswalk_id IS NOT NULL) AS nearest_crossing_marked,
+    nearest_marked_crosswalk_id,
     geom
 FROM road_segments_20m_crosswalk_dist;
 
 CREATE INDEX streets_analyzed_geom_gist ON streets_analyzed USING GIST (geom);
 CREATE INDEX streets_analyzed_osm_id_idx ON streets_analyzed (osm_id);
+CREATE INDEX streets_analyzed_segment_idx ON streets_analyzed (road_osm_id, segment_no);
 
 ANALYZE streets_analyzed;
 
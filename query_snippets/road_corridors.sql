@@ -0,0 +1,121 @@
+-- Groups roads into corridors: chains of connected ways that read as one street. The nearest
+-- marked crossing search in crosswalk_distances.sql looks along a segment's corridor, so
+-- unnamed roads, roads signed by `ref`, and streets that change name mid-way still find
+-- their crossings.
+--
+-- Two ways join when they share an end node, have the same highway class and the same
+-- direction (both one-way, in the same flow, or both two-way), and either
+--   - share a non-empty name or ref, or
+--   - are the only two ways of that class at the node, so one simply continues the other
+--     (a name change, or an unnamed stretch).
+--
+-- Assumes you've already run query_snippets/crosswalks.sql to create:
+--   - roads (road_osm_id, name, ref, highway, oneway, junction, geom)
+-- and `pnpm pipeline analyze` has created `road_is_oneway` (lib/roadInference.ts).
+--
+-- Creates:
+--   - road_corridors (road_osm_id, corridor_id)
+--
+-- Notes:
+-- - Geometries are expected in EPSG:3857 so distances are ~meters.
+-- - corridor_id is the smallest road_osm_id in the corridor.
+
+DROP TABLE IF EXISTS road_corridor_ends;
+DROP TABLE IF EXISTS road_corridor_links;
+DROP TABLE IF EXISTS road_corridors;
+
+-- Both end nodes of every road. `flows_out` is true where traffic leaves a one-way road
+-- (its last node, or its first for oneway=-1); two-way roads have NULL.
+CREATE UNLOGGED TABLE road_corridor_ends AS
+WITH road_attrs AS (
+    SELECT
+        r.road_osm_id,
+        r.highway,
+        NULLIF(btrim(r.name), '') AS name,
+        NULLIF(btrim(r.ref), '') AS ref,
+        road_is_oneway(r.oneway, r.junction, r.highway) AS is_oneway,
+        COALESCE(r.oneway, '') = '-1' AS reversed,
+        r.geom
+    FROM roads r
+    WHERE r.geom IS NOT NULL
+      AND GeometryType(r.geom) = 'LINESTRING'
+)
+SELECT
+    ra.road_osm_id,
+    ra.highway,
+    ra.name,
+    ra.ref,
+    ra.is_oneway,
+    CASE WHEN ra.is_oneway THEN e.is_end <> ra.reversed END AS flows_out,
+    e.geom
+FROM road_attrs ra
+CROSS JOIN LATERAL (
+    VALUES (false, ST_StartPoint(ra.geom)), (true, ST_EndPoint(ra.geom))
+) AS e(is_end, geom);
+
+CREATE INDEX road_corridor_ends_geom_gist ON road_corridor_ends USING GIST (geom);
+ANALYZE road_corridor_ends;
+
+-- Pairs of ways that continue each other, stored both ways round.
+CREATE UNLOGGED TABLE road_corridor_links AS
+SELECT DISTINCT
+    a.road_osm_id AS road_a,
+    b.road_osm_id AS road_b
+FROM road_corridor_ends a
+JOIN road_corridor_ends b
+  ON b.road_osm_id <> a.road_osm_id
+ AND b.highway = a.highway
+ AND b.is_oneway = a.is_oneway
+ AND ST_DWithin(a.geom, b.geom, 0.01)
+CROSS JOIN LATERAL (
+    -- Same-class ways through the node, including ones that pass it mid-way.
+    SELECT count(DISTINCT r.road_osm_id) AS ways
+    FROM roads r
+    WHERE r.highway = a.highway
+      AND ST_DWithin(r.geom, a.geom, 0.01)
+) AS node
+WHERE (NOT a.is_oneway OR a.flows_out <> b.flows_out)
+  AND (a.name = b.name OR a.ref = b.ref OR node.ways = 2);
+
+CREATE INDEX road_corridor_links_a_idx ON road_corridor_links (road_a);
+ANALYZE road_corridor_links;
+
+-- Connected components: every road starts as its own corridor and takes the smallest id
+-- among its links until nothing changes.
+CREATE UNLOGGED TABLE road_corridors AS
+SELECT DISTINCT
+    road_osm_id,
+    road_osm_id AS corridor_id
+FROM roads
+WHERE road_osm_id IS NOT NULL;
+
+CREATE UNIQUE INDEX road_corridors_road_idx ON road_corridors (road_osm_id);
+ANALYZE road_corridors;
+
+DO $$
+DECLARE
+    changed bigint;
+BEGIN
+    LOOP
+        UPDATE road_corridors c
+        SET corridor_id = smallest.corridor_id
+        FROM (
+            SELECT l.road_a AS road_osm_id, min(n.corridor_id) AS corridor_id
+            FROM road_corridor_links l
+            JOIN road_corridors n
+              ON n.road_osm_id = l.road_b
+            GROUP BY l.road_a
+        ) AS smallest
+        WHERE c.road_osm_id = smallest.road_osm_id
+          AND smallest.corridor_id < c.corridor_id;
+        GET DIAGNOSTICS changed = ROW_COUNT;
+        EXIT WHEN changed = 0;
+    END LOOP;
+END
+$$;
+
+CREATE INDEX road_corridors_corridor_idx ON road_corridors (corridor_id);
+ANALYZE road_corridors;
+
+DROP TABLE road_corridor_ends;
+DROP TABLE road_corridor_links;
@@ -0,0 +1,141 @@
+-- Builds the offline street search index that ships next to sketchiness-all.pmtiles
+-- (as sketchiness-all.search.json), so the static site can search streets without a
+-- geocoding service.
+--
+-- Reads the tile layers as they are exported, through two views that `pnpm pipeline export`
+-- creates from the layer queries in scripts/pipeline/steps.ts before running this file:
+--   - tile_streets (the `streets` layer: osm_id, road_osm_id, segment_no, name, frogger_index, ..., geom)
+--   - tile_unmarked_crossings (the `unmarked_crossings` layer: point_osm_id, frogger_*, geom)
+-- To run it by hand, create them first, e.g.
+--   CREATE TEMP VIEW tile_streets AS SELECT ... FROM streets_analyzed ...;
+--
+-- Output: a single JSON document
+--   { "version": 1, "entries": [{ name, kind, bbox, lngLat, properties }] }
+-- where `properties` are the entry's worst segment/crossing with every tile column but the
+-- geometry, so the map can open its info panel, share link and report form without
+-- querying tiles.
+--
+-- Notes:
+-- - Geometries are EPSG:3857; output coordinates are lng/lat (EPSG:4326).
+-- - The unified database holds several cities, so same-named streets are split into
+--   separate entries when they are more than 2km apart.
+
+WITH named_streets AS (
+    SELECT
+        btrim(t.name) AS name,
+        t.road_osm_id,
+        t.segment_no,
+        t.frogger_index,
+        to_jsonb(t) - 'geom' AS properties,
+        t.geom,
+        ST_ClusterDBSCAN(t.geom, eps := 2000.0, minpoints := 1)
+            OVER (PARTITION BY lower(btrim(t.name))) AS cluster_id
+    FROM tile_streets t
+    WHERE t.name IS NOT NULL
+      AND btrim(t.name) <> ''
+),
+street_groups AS (
+    SELECT
+        lower(name) AS name_key,
+        cluster_id,
+        ST_Transform(ST_SetSRID(ST_Extent(geom)::geometry, 3857), 4326) AS extent
+    FROM named_streets
+    GROUP BY lower(name), cluster_id
+),
+worst_streets AS (
+    SELECT DISTINCT ON (lower(name), cluster_id)
+        lower(name) AS name_key,
+        cluster_id,
+        name,
+        properties,
+        ST_Transform(ST_LineInterpolatePoint(geom, 0.5), 4326) AS pt
+    FROM named_streets
+    ORDER BY lower(name), cluster_id, frogger_index DESC NULLS LAST, road_osm_id, segment_no
+),
+street_entries AS (
+    SELECT
+        w.name,
+        json_build_object(
+            'name', w.name,
+            'kind', 'street',
+            'bbox', json_build_array(
+                round(ST_XMin(g.extent)::numeric, 6),
+                round(ST_YMin(g.extent)::numeric, 6),
+                round(ST_XMax(g.extent)::numeric, 6),
+                round(ST_YMax(g.extent)::numeric, 6)
+            ),
+            'lngLat', json_build_array(round(ST_X(w.pt)::numeric, 6), round(ST_Y(w.pt)::numeric, 6)),
+            'properties', w.properties
+        ) AS entry
+    FROM worst_streets w
+    JOIN street_groups g
+      ON g.name_key = w.name_key
+     AND g.cluster_id = w.cluster_id
+),
+-- Road names that only show up on unmarked crossings (e.g. roads outside the analyzed classes).
+named_crossings AS (
+    SELECT
+        btrim(u.frogger_road_name) AS name,
+        u.point_osm_id,
+        u.frogger_index,
+        to_jsonb(u) - 'geom' AS properties,
+        u.geom,
+        ST_ClusterDBSCAN(u.geom, eps := 2000.0, minpoints := 1)
+            OVER (PARTITION BY lower(btrim(u.frogger_road_name))) AS cluster_id
+    FROM tile_unmarked_crossings u
+    WHERE u.frogger_road_name IS NOT NULL
+      AND btrim(u.frogger_road_name) <> ''
+      AND NOT EXISTS (
+          SELECT 1
+          FROM named_streets s
+          WHERE lower(s.name) = lower(btrim(u.frogger_road_name))
+      )
+),
+crossing_groups AS (
+    SELECT
+        lower(name) AS name_key,
+        cluster_id,
+        ST_Transform(ST_SetSRID(ST_Extent(geom)::geometry, 3857), 4326) AS extent
+    FROM named_crossings
+    GROUP BY lower(name), cluster_id
+),
+worst_crossings AS (
+    SELECT DISTINCT ON (lower(name), cluster_id)
+        lower(name) AS name_key,
+        cluster_id,
+        name,
+        properties,
+        ST_Transform(geom, 4326) AS pt
+    FROM named_crossings
+    ORDER BY lower(name), cluster_id, frogger_index DESC NULLS LAST, point_osm_id
+),
+crossing_entries AS (
+    SELECT
+        w.name,
+        json_build_object(
+            'name', w.name,
+            'kind', 'crossing',
+            'bbox', json_build_array(
+                round(ST_XMin(g.extent)::numeric, 6),
+                round(ST_YMin(g.extent)::numeric, 6),
+                round(ST_XMax(g.extent)::numeric, 6),
+                round(ST_YMax(g.extent)::numeric, 6)
+            ),
+            'lngLat', json_build_array(round(ST_X(w.pt)::numeric, 6), round(ST_Y(w.pt)::numeric, 6)),
+            'properties', w.properties
+        ) AS entry
+    FROM worst_crossings w
+    JOIN crossing_groups g
+      ON g.name_key = w.name_key
+     AND g.cluster_id = w.cluster_id
+),
+all_entries AS (
+    SELECT name, entry FROM street_entries
+    UNION ALL
+    SELECT name, entry FROM crossing_entries
+)
+SELECT json_build_object(
+    'version', 1,
+    'entries', COALESCE(json_agg(entry ORDER BY lower(name)), '[]'::json)
+)
+FROM all_entries;
@@ -0,0 +1,41 @@
+-- Keeps the current analysis output as the baseline for change_detection.sql.
+-- Run it (pnpm pipeline snapshot) before importing new OSM data and re-running
+-- the analysis.
+--
+-- Assumes the analysis has run (crosswalk_distances.sql, unmarked_crosswalks.sql):
+--   - streets_analyzed (road_osm_id, segment_no, name, frogger_index, geom)
+--   - unmarked_crosswalk_points_enriched (point_osm_id, frogger_road_name, frogger_index, geom)
+--
+-- Notes:
+-- - Snapshots are regular (logged) tables so they survive a database restart, unlike the
+--   UNLOGGED analysis tables.
+-- - Only the columns change detection needs are kept.
+-- - `pnpm pipeline snapshot` also dumps both tables to data/.pipeline/baseline.sql, since
+--   the import recreates the database; `import:baseline` restores them.
+
+DROP TABLE IF EXISTS streets_analyzed_prev;
+DROP TABLE IF EXISTS unmarked_crosswalk_points_enriched_prev;
+
+CREATE TABLE streets_analyzed_prev AS
+SELECT
+    road_osm_id,
+    segment_no,
+    name,
+    highway,
+    frogger_index,
+    geom
+FROM streets_analyzed;
+
+CREATE INDEX streets_analyzed_prev_segment_idx ON streets_analyzed_prev (road_osm_id, segment_no);
+ANALYZE streets_analyzed_prev;
+
+CREATE TABLE unmarked_crosswalk_points_enriched_prev AS
+SELECT
+    point_osm_id,
+    frogger_road_name,
+    frogger_index,
+    geom
+FROM unmarked_crosswalk_points_enriched;
+
+CREATE INDEX unmarked_crosswalk_points_enriched_prev_point_idx ON unmarked_crosswalk_points_enriched_prev (point_osm_id);
+ANALYZE unmarked_crosswalk_points_enriched_prev;
@@ -10,7 +10,7 @@
 --   - crosswalk_raw_points (point_osm_id, marked, unmarked, geom)
 --   - road_segments_20m_crosswalk_dist (road_osm_id, segment_no, geom,
 --       nearest_marked_crosswalk_id, dist_to_marked_crosswalk_m,
---       maxspeed, lanes, speed_mph,
+--       maxspeed, lanes, lanes_inferred, speed_mph, speed_inferred,
 --       speed_score, lanes_score, volume_score, distance_from_crosswalk_score, frogger_index)
 --
 -- Notes:
@@ -76,7 +76,9 @@ base AS (
         -- Frogger inputs pulled from the snapped 20m segment (authoritative)
         seg.maxspeed AS frogger_maxspeed,
         seg.lanes AS frogger_lanes,
+        seg.lanes_inferred AS frogger_lanes_inferred,
         seg.speed_mph AS frogger_speed_mph,
+        seg.speed_inferred AS frogger_speed_inferred,
         seg.dist_to_marked_crosswalk_m AS frogger_dist_to_marked_crosswalk_m,
 
         -- Frogger component scores
@@ -85,7 +87,7 @@ base AS (
         seg.volume_score AS frogger_volume_score,
         seg.distance_from_crosswalk_score AS frogger_distance_from_crosswalk_score,
         CASE
-            WHEN r.highway IN ('residential', 'living_street', 'service') THEN 0.0
+            WHEN frogger_is_hard_zero(r.highway) THEN 0.0
             ELSE seg.frogger_index
         END AS frogger_index,
 
@@ -108,12 +110,7 @@ base AS (
       ON r.road_osm_id = ur.road_osm_id
     LEFT JOIN LATERAL (
         SELECT
-            CASE
-                WHEN (r.tags->'lanes') ~ '^\d+$' THEN (r.tags->'lanes')::int
-                WHEN (r.tags->'lanes:forward') ~ '^\d+$' AND (r.tags->'lanes:backward') ~ '^\d+$'
-                    THEN (r.tags->'lanes:forward')::int + (r.tags->'lanes:backward')::int
-                ELSE NULL::int
-            END AS lanes,
+            road_tagged_lanes(r.tags) AS lanes,
             NULL::double precision AS maxspeed_mph
     ) AS attrs ON true
     LEFT JOIN LATERAL (
@@ -124,7 +121,9 @@ base AS (
             s.maxspeed,
             s.lanes_raw,
             s.lanes,
+            s.lanes_inferred,
             s.speed_mph,
+            s.speed_inferred,
             s.speed_score,
             s.lanes_score,
             s.volume_score,
@@ -155,14 +154,16 @@ SELECT
         best.maxspeed AS frogger_maxspeed,
         best.lanes_raw AS frogger_lanes_raw,
         best.lanes AS frogger_lanes,
+        best.lanes_inferred AS frogger_lanes_inferred,
         best.speed_mph AS frogger_speed_mph,
+        best.speed_inferred AS frogger_speed_inferred,
         best.dist_to_marked_crosswalk_m AS frogger_dist_to_marked_crosswalk_m,
         best.speed_score AS frogger_speed_score,
         best.lanes_score AS frogger_lanes_score,
         best.volume_score AS frogger_volume_score,
         best.distance_from_crosswalk_score AS frogger_distance_from_crosswalk_score,
         CASE
-            WHEN best.highway IN ('residential', 'living_street', 'service') THEN 0.0
+            WHEN frogger_is_hard_zero(best.highway) THEN 0.0
             ELSE best.frogger_index
         END AS frogger_index
 FROM crosswalk_points cp
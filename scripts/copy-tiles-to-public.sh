@@ -7,16 +7,30 @@ PUBLIC_DIR="$ROOT_DIR/public"
 
 mkdir -p "$PUBLIC_DIR"
 
-# Ensure the San Antonio PMTiles exist
-PMTILES="$DATA_DIR"/basemap-san-antonio.pmtiles"
-if [[ ! -f "$PMTILES" ]]; then
-  echo "Error: missing $PMTILES" >&2
-  echo "Run the tile build first (see README)." >&2
+# Every basemap, sketchiness file and search index the regions in lib/regions.ts load
+mapfile -t FILES < <(cd "$ROOT_DIR" && pnpm exec tsx scripts/list-region-tiles.ts)
+if [[ ${#FILES[@]} -eq 0 ]]; then
+  echo "Error: could not list the region tiles (run pnpm install first)" >&2
   exit 1
 fi
 
+for FILE in "${FILES[@]}"; do
+  if [[ ! -f "$DATA_DIR/$FILE" ]]; then
+    echo "Error: missing $DATA_DIR/$FILE" >&2
+    echo "Run the tile build first (see README)." >&2
+    exit 1
+  fi
+done
+
 # Copy to public/
-cp -f "$PMTILES" "$PUBLIC_DIR/basemap-san-antonio.pmtiles"
+for FILE in "${FILES[@]}"; do
+  cp -f "$DATA_DIR/$FILE" "$PUBLIC_DIR/$FILE"
+done
+
+# Dated snapshots for compare mode are optional.
+for FILE in "$DATA_DIR"/sketchiness-[0-9]*.pmtiles; do
+  [[ -f "$FILE" ]] && cp -f "$FILE" "$PUBLIC_DIR/$(basename "$FILE")"
+done
 
 echo "Copied PMTiles into $PUBLIC_DIR"
 ls -lah "$PUBLIC_DIR" | head -n 20
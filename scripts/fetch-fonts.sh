@@ -0,0 +1,33 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Downloads the glyph ranges the map style uses into public/fonts so labels render without
+# a third-party font server. Commit the output; it is served with the site.
+
+ROOT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")/.." && pwd)"
+FONTS_DIR="$ROOT_DIR/public/fonts"
+FONTS_ZIP_URL="${FONTS_ZIP_URL:-https://github.com/openmaptiles/fonts/releases/download/v2.0/v2.0.zip}"
+
+# Keep in sync with the `text-font` values in components/Map.tsx.
+FONTSTACKS=("Noto Sans Regular")
+
+for CMD in curl unzip; do
+  if ! command -v "$CMD" >/dev/null 2>&1; then
+    echo "Error: $CMD is required." >&2
+    exit 1
+  fi
+done
+
+TMP_DIR="$(mktemp -d)"
+trap 'rm -rf "$TMP_DIR"' EXIT
+
+echo "Downloading glyphs from $FONTS_ZIP_URL…"
+curl -fL "$FONTS_ZIP_URL" -o "$TMP_DIR/fonts.zip"
+
+mkdir -p "$FONTS_DIR"
+for FONTSTACK in "${FONTSTACKS[@]}"; do
+  unzip -q -o "$TMP_DIR/fonts.zip" "$FONTSTACK/*" -d "$TMP_DIR"
+  rm -rf "${FONTS_DIR:?}/$FONTSTACK"
+  cp -R "$TMP_DIR/$FONTSTACK" "$FONTS_DIR/"
+  echo "Wrote: $FONTS_DIR/$FONTSTACK ($(ls "$FONTS_DIR/$FONTSTACK" | wc -l | tr -d ' ') ranges)"
+done
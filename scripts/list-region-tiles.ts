@@ -0,0 +1,6 @@
+// Prints the tile files lib/regions.ts loads, one per line, for copy-tiles-to-public.sh and
+// the Pages workflow. Usage: `pnpm exec tsx scripts/list-region-tiles.ts`
+
+import { regionTileFiles } from '../lib/regions';
+
+for (const file of regionTileFiles()) console.log(file);
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+// Local stand-in for NEXT_PUBLIC_REPORT_ENDPOINT: accepts the app's issue-report
+// FeatureCollections and appends one line per report to data/reports.ndjson.
+import { appendFile, mkdir } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..');
+const OUT_FILE = join(ROOT_DIR, 'data', 'reports.ndjson');
+const PORT = Number(process.argv[2] ?? 8787);
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function reply(res, status, body) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error('Body too large');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    reply(res, 405, { error: 'POST a GeoJSON FeatureCollection' });
+    return;
+  }
+
+  let collection;
+  try {
+    collection = JSON.parse(await readBody(req));
+  } catch (err) {
+    reply(res, 400, { error: err instanceof Error ? err.message : 'Invalid JSON' });
+    return;
+  }
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    reply(res, 400, { error: 'Expected a GeoJSON FeatureCollection' });
+    return;
+  }
+
+  const receivedAt = new Date().toISOString();
+  const lines = collection.features.map((feature) => JSON.stringify({ ...feature, received_at: receivedAt }) + '\n');
+  await mkdir(dirname(OUT_FILE), { recursive: true });
+  await appendFile(OUT_FILE, lines.join(''));
+
+  console.log(`${receivedAt}: received ${lines.length} report${lines.length === 1 ? '' : 's'}`);
+  reply(res, 200, { received: lines.length });
+});
+
+server.listen(PORT, () => {
+  console.log(`Accepting issue reports on http://localhost:${PORT}/reports (writing ${OUT_FILE})`);
+});
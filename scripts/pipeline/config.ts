@@ -0,0 +1,120 @@
+// Settings for `pnpm pipeline`. Defaults match docker-compose.yml; environment variables
+// override them so CI and one-off runs don't need code changes.
+
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { PipelineError } from './errors';
+
+export type PipelineConfig = {
+  rootDir: string;
+  dataDir: string;
+  // Intermediate GeoJSONSeq files and the resume state live here, under the ignored data/.
+  workDir: string;
+  stateFile: string;
+  // Dump of the change-detection baseline written by `snapshot`; `import` restores it into
+  // the recreated database.
+  baselineFile: string;
+  queryDir: string;
+  db: {
+    // docker compose service that runs PostGIS; psql runs inside it.
+    service: string;
+    name: string;
+    host: string;
+    port: number;
+    user: string;
+    password: string;
+    // Seconds to wait for `pg_isready` after starting the container.
+    readyTimeoutSec: number;
+  };
+  import: {
+    osm2pgsqlProcesses: number;
+  };
+  export: {
+    tileset: string;
+    minZoom: number;
+    maxZoom: number;
+    readParallel: boolean;
+    // Dated copy of the PMTiles for compare mode (`tiles.builds` in lib/regions.ts).
+    snapshot: string | null;
+    pmtilesImage: string;
+  };
+  // Fail a step when a table it builds has fewer rows than this. The previous run's counts
+  // are also compared, and a drop of more than `shrinkWarnRatio` is reported.
+  minRows: Record<string, number>;
+  shrinkWarnRatio: number;
+};
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+function readInt(env: NodeJS.ProcessEnv, key: string, fallback: number): number {
+  const raw = env[key];
+  if (raw === undefined || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new PipelineError(`${key} must be a non-negative integer (got "${raw}")`);
+  }
+  return value;
+}
+
+function readFlag(env: NodeJS.ProcessEnv, key: string, fallback: boolean): boolean {
+  const raw = env[key];
+  if (raw === undefined || raw === '') return fallback;
+  if (raw === '1' || raw === 'true') return true;
+  if (raw === '0' || raw === 'false') return false;
+  throw new PipelineError(`${key} must be 1/0 or true/false (got "${raw}")`);
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): PipelineConfig {
+  const dataDir = join(ROOT_DIR, 'data');
+  const workDir = join(dataDir, '.pipeline');
+
+  const snapshot = env.SNAPSHOT?.trim() || null;
+  if (snapshot && !/^[\w.-]+$/.test(snapshot)) {
+    throw new PipelineError(`SNAPSHOT may only contain letters, digits, ".", "_" and "-" (got "${snapshot}")`);
+  }
+
+  return {
+    rootDir: ROOT_DIR,
+    dataDir,
+    workDir,
+    stateFile: join(workDir, 'state.json'),
+    baselineFile: join(workDir, 'baseline.sql'),
+    queryDir: join(ROOT_DIR, 'query_snippets'),
+    db: {
+      service: env.PIPELINE_DB_SERVICE || 'db',
+      name: env.PIPELINE_DB || 'pedestrians_all',
+      host: env.PGHOST || 'localhost',
+      port: readInt(env, 'PGPORT', 5432),
+      user: env.PGUSER || 'postgres',
+      password: env.PGPASSWORD || 'postgres',
+      readyTimeoutSec: readInt(env, 'PIPELINE_DB_TIMEOUT', 60),
+    },
+    import: {
+      osm2pgsqlProcesses: readInt(env, 'OSM2PGSQL_PROCESSES', 1),
+    },
+    export: {
+      tileset: 'sketchiness-all',
+      minZoom: 10,
+      maxZoom: 16,
+      readParallel: readFlag(env, 'TIPPECANOE_READ_PARALLEL', true),
+      snapshot,
+      pmtilesImage: 'ghcr.io/protomaps/go-pmtiles:latest',
+    },
+    minRows: {
+      planet_osm_line: 1,
+      planet_osm_point: 1,
+      roads: 1,
+      crosswalk_points: 1,
+      streets_analyzed: 1,
+      crosswalk_points_enriched: 1,
+      // A small extract can legitimately have no unmarked crossings.
+      unmarked_crosswalk_points_enriched: 0,
+      analysis_changes: 0,
+      streets_analyzed_prev: 1,
+      unmarked_crosswalk_points_enriched_prev: 0,
+    },
+    shrinkWarnRatio: 0.5,
+  };
+}
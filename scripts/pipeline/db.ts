@@ -0,0 +1,118 @@
+// psql runs inside the docker compose PostGIS container, so the host only needs Docker.
+
+import type { PipelineConfig } from './config';
+import { PipelineError } from './errors';
+import { commandExists, run } from './shell';
+
+function composeExec(config: PipelineConfig, args: readonly string[]): string[] {
+  return ['compose', 'exec', '-T', config.db.service, ...args];
+}
+
+function psqlArgs(config: PipelineConfig, database: string, extra: readonly string[]): string[] {
+  return composeExec(config, ['psql', '-U', config.db.user, '-d', database, '-X', '-v', 'ON_ERROR_STOP=1', ...extra]);
+}
+
+async function isServiceRunning(config: PipelineConfig): Promise<boolean> {
+  const services = await run('docker', ['compose', 'ps', '--status', 'running', '--services'], {
+    cwd: config.rootDir,
+    capture: true,
+    echoStderr: false,
+  });
+  return services.split('\n').some((line) => line.trim() === config.db.service);
+}
+
+// Starts the compose service if needed and waits until Postgres accepts connections.
+export async function ensureDatabaseService(config: PipelineConfig) {
+  if (!commandExists('docker')) {
+    throw new PipelineError('docker is required (PostGIS runs in docker compose)', 'Install Docker, then run: pnpm db:up');
+  }
+
+  if (!(await isServiceRunning(config))) {
+    console.log(`Starting docker compose service "${config.db.service}"...`);
+    await run('docker', ['compose', 'up', '-d', config.db.service], { cwd: config.rootDir });
+  }
+
+  const deadline = Date.now() + config.db.readyTimeoutSec * 1000;
+  for (;;) {
+    try {
+      await run('docker', composeExec(config, ['pg_isready', '-U', config.db.user]), {
+        cwd: config.rootDir,
+        capture: true,
+        echoStderr: false,
+      });
+      return;
+    } catch {
+      if (Date.now() > deadline) {
+        throw new PipelineError(
+          `Database did not become ready within ${config.db.readyTimeoutSec}s`,
+          'Check `docker compose logs db`, or raise PIPELINE_DB_TIMEOUT.',
+        );
+      }
+      await new Promise((r) => setTimeout(r, 1000));
+    }
+  }
+}
+
+// Runs SQL against the maintenance database, for statements like DROP/CREATE DATABASE.
+export async function adminSql(config: PipelineConfig, sql: string) {
+  await run('docker', psqlArgs(config, 'postgres', ['-c', sql]), { cwd: config.rootDir, capture: true, echoStderr: false });
+}
+
+export async function execSql(config: PipelineConfig, sql: string) {
+  await run('docker', psqlArgs(config, config.db.name, ['-c', sql]), { cwd: config.rootDir, capture: true, echoStderr: false });
+}
+
+export async function runSqlFile(config: PipelineConfig, file: string) {
+  await run('docker', psqlArgs(config, config.db.name, ['--echo-errors']), { cwd: config.rootDir, stdinFile: file });
+}
+
+export async function runSqlFileToFile(config: PipelineConfig, file: string, outFile: string) {
+  await run('docker', psqlArgs(config, config.db.name, ['-At']), {
+    cwd: config.rootDir,
+    stdinFile: file,
+    stdoutFile: outFile,
+    echoStderr: false,
+  });
+}
+
+// Plain-SQL dump of `tables`, for keeping them across `import:database` recreating the database.
+export async function dumpTables(config: PipelineConfig, tables: readonly string[], outFile: string) {
+  const tableArgs = tables.flatMap((table) => ['-t', `public.${table}`]);
+  await run('docker', composeExec(config, ['pg_dump', '-U', config.db.user, '-d', config.db.name, '--no-owner', ...tableArgs]), {
+    cwd: config.rootDir,
+    stdoutFile: outFile,
+    echoStderr: false,
+  });
+}
+
+export async function queryValue(config: PipelineConfig, sql: string): Promise<string> {
+  const out = await run('docker', psqlArgs(config, config.db.name, ['-At', '-c', sql]), {
+    cwd: config.rootDir,
+    capture: true,
+    echoStderr: false,
+  });
+  return out.trim();
+}
+
+export async function databaseExists(config: PipelineConfig): Promise<boolean> {
+  const out = await run(
+    'docker',
+    psqlArgs(config, 'postgres', ['-At', '-c', `SELECT 1 FROM pg_database WHERE datname = '${config.db.name.replace(/'/g, "''")}'`]),
+    { cwd: config.rootDir, capture: true, echoStderr: false },
+  );
+  return out.trim() === '1';
+}
+
+// Table names here are fixed identifiers from the pipeline, never user input.
+export async function tableExists(config: PipelineConfig, table: string): Promise<boolean> {
+  return (await queryValue(config, `SELECT to_regclass('public.${table}') IS NOT NULL;`)) === 't';
+}
+
+export async function countRows(config: PipelineConfig, table: string): Promise<number> {
+  return Number(await queryValue(config, `SELECT count(*) FROM public.${table};`));
+}
+
+export function pgConnectionString(config: PipelineConfig): string {
+  const { host, port, name, user, password } = config.db;
+  return `PG:host=${host} port=${port} dbname=${name} user=${user} password=${password}`;
+}
@@ -0,0 +1,11 @@
+// Expected failures (missing tools, empty tables, a bad SQL run). The CLI prints these
+// without a stack trace; `hint` says what to do next.
+export class PipelineError extends Error {
+  readonly hint: string | null;
+
+  constructor(message: string, hint: string | null = null) {
+    super(message);
+    this.name = 'PipelineError';
+    this.hint = hint;
+  }
+}
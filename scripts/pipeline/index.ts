@@ -0,0 +1,229 @@
+// pnpm pipeline <import|analyze|export|all|snapshot> [--resume] [--from <step>]
+//
+// Builds the sketchiness tiles from OSM extracts in data/: import into the docker compose
+// PostGIS, run query_snippets/*.sql, then export PMTiles and the search index.
+
+import { loadConfig, type PipelineConfig } from './config';
+import { countRows, databaseExists, ensureDatabaseService, tableExists } from './db';
+import { PipelineError } from './errors';
+import { fingerprintInputs, loadState, saveState, type PipelineState } from './state';
+import { STEPS, producerOf, type Phase, type Step } from './steps';
+
+type Command = 'import' | 'analyze' | 'export' | 'all' | 'snapshot';
+
+const COMMAND_PHASES: Record<Command, readonly Phase[]> = {
+  import: ['import'],
+  analyze: ['analyze'],
+  export: ['export'],
+  all: ['import', 'analyze', 'export'],
+  snapshot: ['snapshot'],
+};
+
+type Options = {
+  command: Command;
+  resume: boolean;
+  from: string | null;
+};
+
+type Outcome = { step: Step; status: 'ran' | 'skipped' | 'resumed'; durationMs: number };
+
+const USAGE = `Usage: pnpm pipeline <command> [--resume] [--from <step>]
+
+Commands:
+  import     recreate the database, restore the snapshot and load data/*.osm.pbf
+  analyze    run the query_snippets analysis
+  export     write data/sketchiness-all.pmtiles and the search index
+  all        import, analyze and export
+  snapshot   keep the current analysis as the baseline for change detection
+
+Options:
+  --resume       skip steps that already finished, unless their input files changed
+  --from <step>  start at this step, e.g. --from analyze:unmarked
+
+Steps:
+${STEPS.map((s) => `  ${s.id.padEnd(20)} ${s.title}`).join('\n')}
+
+Environment: PIPELINE_DB (default pedestrians_all), PGHOST, PGPORT, PGUSER, PGPASSWORD,
+OSM2PGSQL_PROCESSES, TIPPECANOE_READ_PARALLEL, SNAPSHOT (dated PMTiles copy for compare mode).`;
+
+function parseArgs(argv: readonly string[]): Options | null {
+  let command: Command | null = null;
+  let resume = false;
+  let from: string | null = null;
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') return null;
+    if (arg === '--resume') {
+      resume = true;
+    } else if (arg === '--from') {
+      from = argv[i + 1] ?? null;
+      if (!from) throw new PipelineError('--from needs a step id', USAGE);
+      i += 1;
+    } else if (arg in COMMAND_PHASES && !command) {
+      command = arg as Command;
+    } else {
+      throw new PipelineError(`Unknown argument "${arg}"`, USAGE);
+    }
+  }
+
+  if (!command) return null;
+  return { command, resume, from };
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const sec = ms / 1000;
+  if (sec < 60) return `${sec.toFixed(1)}s`;
+  const min = Math.floor(sec / 60);
+  return `${min}m ${String(Math.floor(sec % 60)).padStart(2, '0')}s`;
+}
+
+function selectSteps(options: Options): Step[] {
+  const phases = COMMAND_PHASES[options.command];
+  const steps = STEPS.filter((s) => phases.includes(s.phase));
+  if (!options.from) return steps;
+
+  const start = steps.findIndex((s) => s.id === options.from);
+  if (start === -1) {
+    throw new PipelineError(
+      `"${options.from}" is not a step of \`${options.command}\``,
+      `Steps: ${steps.map((s) => s.id).join(', ')}`,
+    );
+  }
+  return steps.slice(start);
+}
+
+async function checkRequirements(config: PipelineConfig, step: Step) {
+  for (const table of step.requires ?? []) {
+    if (await tableExists(config, table)) continue;
+    const producer = producerOf(table);
+    throw new PipelineError(
+      `${step.id} needs table ${table}, which is missing from ${config.db.name}`,
+      producer ? `Run \`pnpm pipeline ${producer.phase}\` first.` : null,
+    );
+  }
+}
+
+// Row counts for the tables a step built: too few fails the step; a big drop from the last
+// run is only reported, since a smaller extract is a legitimate reason.
+async function checkOutputs(config: PipelineConfig, state: PipelineState, step: Step): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const table of step.outputs ?? []) {
+    const rows = await countRows(config, table);
+    const min = config.minRows[table] ?? 1;
+    if (rows < min) {
+      throw new PipelineError(
+        `${table} has ${rows} rows after ${step.id} (expected at least ${min})`,
+        'Check the step output above and the OSM extracts in data/.',
+      );
+    }
+    counts[table] = rows;
+  }
+  Object.assign(counts, (await step.verify?.(config)) ?? {});
+
+  for (const [key, value] of Object.entries(counts)) {
+    const previous = state.counts[key];
+    if (previous && value < previous * (1 - config.shrinkWarnRatio)) {
+      console.warn(`  ! ${key}: ${value.toLocaleString('en-US')} (was ${previous.toLocaleString('en-US')} last run)`);
+    } else {
+      console.log(`  ${key}: ${value.toLocaleString('en-US')}`);
+    }
+  }
+  return counts;
+}
+
+async function runSteps(config: PipelineConfig, options: Options, steps: readonly Step[]): Promise<Outcome[]> {
+  const state = await loadState(config.stateFile, config.db.name);
+  const outcomes: Outcome[] = [];
+
+  for (const [i, step] of steps.entries()) {
+    const label = `[${i + 1}/${steps.length}] ${step.id}`;
+
+    const done = state.steps[step.id];
+    if (options.resume && done) {
+      if (done.inputsFingerprint === (await fingerprintInputs((await step.inputs?.(config)) ?? []))) {
+        console.log(`${label}: already done (${done.finishedAt})`);
+        outcomes.push({ step, status: 'resumed', durationMs: 0 });
+        continue;
+      }
+      console.log(`${label}: inputs changed since ${done.finishedAt}, running again`);
+    }
+
+    await checkRequirements(config, step);
+    const skipReason = (await step.skipReason?.(config)) ?? null;
+    if (skipReason) {
+      console.log(`${label}: skipped, ${skipReason}`);
+      outcomes.push({ step, status: 'skipped', durationMs: 0 });
+      continue;
+    }
+
+    console.log(`${label}: ${step.title}`);
+    const started = performance.now();
+    try {
+      await step.run(config);
+    } catch (err) {
+      throw new PipelineError(
+        `${step.id} failed: ${err instanceof Error ? err.message : String(err)}`,
+        err instanceof PipelineError && err.hint
+          ? err.hint
+          : `Fix the problem and re-run \`pnpm pipeline ${options.command} --resume\` to continue from this step.`,
+      );
+    }
+    const counts = await checkOutputs(config, state, step);
+    const durationMs = performance.now() - started;
+    console.log(`  done in ${formatDuration(durationMs)}`);
+    const inputsFingerprint = await fingerprintInputs((await step.inputs?.(config)) ?? []);
+
+    // Later steps were built from this step's old output.
+    const index = STEPS.indexOf(step);
+    for (const later of STEPS.slice(index + 1)) delete state.steps[later.id];
+    state.steps[step.id] = { finishedAt: new Date().toISOString(), durationMs: Math.round(durationMs), counts, inputsFingerprint };
+    Object.assign(state.counts, counts);
+    await saveState(config.stateFile, state);
+
+    outcomes.push({ step, status: 'ran', durationMs });
+  }
+  return outcomes;
+}
+
+function printSummary(outcomes: readonly Outcome[], totalMs: number) {
+  console.log('\nStep                  Time      Status');
+  for (const { step, status, durationMs } of outcomes) {
+    const time = status === 'ran' ? formatDuration(durationMs) : '—';
+    console.log(`${step.id.padEnd(22)}${time.padEnd(10)}${status}`);
+  }
+  console.log(`${'total'.padEnd(22)}${formatDuration(totalMs)}`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = loadConfig();
+  const started = performance.now();
+
+  const steps = selectSteps(options);
+
+  await ensureDatabaseService(config);
+  const createsDatabase = steps.some((s) => s.id === 'import:database');
+  if (!createsDatabase && !(await databaseExists(config))) {
+    throw new PipelineError(`Database ${config.db.name} does not exist`, 'Run `pnpm pipeline import` first.');
+  }
+
+  const outcomes = await runSteps(config, options, steps);
+  printSummary(outcomes, performance.now() - started);
+}
+
+main().catch((err: unknown) => {
+  if (err instanceof PipelineError) {
+    console.error(`\nError: ${err.message}`);
+    if (err.hint) console.error(err.hint);
+  } else {
+    console.error(err);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,85 @@
+import { spawn, spawnSync } from 'node:child_process';
+import { once } from 'node:events';
+import { createReadStream, createWriteStream } from 'node:fs';
+
+import { PipelineError } from './errors';
+
+type RunOptions = {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  // File piped to stdin (psql < file.sql).
+  stdinFile?: string;
+  // File that receives stdout instead of the terminal.
+  stdoutFile?: string;
+  // Return stdout instead of streaming it.
+  capture?: boolean;
+  // Stream stderr to the terminal (default). When false, its tail goes into the error instead.
+  echoStderr?: boolean;
+};
+
+const STDERR_TAIL_CHARS = 4000;
+
+export function commandExists(command: string): boolean {
+  return spawnSync('sh', ['-c', `command -v ${command}`], { stdio: 'ignore' }).status === 0;
+}
+
+export function requireCommand(command: string, hint: string) {
+  if (!commandExists(command)) throw new PipelineError(`${command} is not installed or not on PATH`, hint);
+}
+
+export function run(command: string, args: readonly string[], options: RunOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      stdio: 'pipe',
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let failed = false;
+    const fail = (err: Error) => {
+      if (failed) return;
+      failed = true;
+      child.kill();
+      reject(err);
+    };
+
+    if (options.stdinFile) {
+      const input = createReadStream(options.stdinFile);
+      input.on('error', (err) => fail(new PipelineError(`Could not read ${options.stdinFile}: ${err.message}`)));
+      input.pipe(child.stdin);
+    } else {
+      child.stdin.end();
+    }
+
+    // Resolve only after the output file is flushed, so the next step sees all of it.
+    const output = options.stdoutFile ? createWriteStream(options.stdoutFile) : null;
+    const outputDone = output ? once(output, 'finish') : Promise.resolve();
+    if (output) {
+      output.on('error', (err) => fail(new PipelineError(`Could not write ${options.stdoutFile}: ${err.message}`)));
+      child.stdout.pipe(output);
+    } else if (options.capture) {
+      child.stdout.on('data', (chunk: Buffer) => (stdout += chunk.toString('utf8')));
+    } else {
+      child.stdout.pipe(process.stdout, { end: false });
+    }
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (options.echoStderr !== false) process.stderr.write(chunk);
+      stderr = (stderr + chunk.toString('utf8')).slice(-STDERR_TAIL_CHARS);
+    });
+
+    child.on('error', (err) => fail(new PipelineError(`Could not start ${command}: ${err.message}`)));
+    child.on('close', (code, signal) => {
+      if (failed) return;
+      if (code === 0) {
+        outputDone.then(() => resolve(stdout), fail);
+        return;
+      }
+      const status = signal ? `was stopped by ${signal}` : `exited with code ${code}`;
+      const detail = stderr.trim() && options.echoStderr === false ? `\n${stderr.trim()}` : '';
+      fail(new PipelineError(`${[command, ...args.slice(0, 3)].join(' ')} ${status}${detail}`));
+    });
+  });
+}
@@ -0,0 +1,56 @@
+// Which steps have finished, so `--resume` can pick up after the one that failed. Re-running
+// a step forgets every step after it, since those were built from the old output. A step
+// whose input files changed since it finished counts as not finished.
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export type StepRecord = {
+  finishedAt: string;
+  durationMs: number;
+  // Row counts (tables) or line counts (export files) checked after the step.
+  counts: Record<string, number>;
+  // `fingerprintInputs` of the step's input files when it ran.
+  inputsFingerprint?: string;
+};
+
+export type PipelineState = {
+  version: 1;
+  database: string;
+  steps: Record<string, StepRecord>;
+  // Latest count per table or file, kept across re-runs to spot outputs that shrank.
+  counts: Record<string, number>;
+};
+
+export async function loadState(file: string, database: string): Promise<PipelineState> {
+  try {
+    const parsed = JSON.parse(await readFile(file, 'utf8')) as PipelineState;
+    // A different database means none of the recorded work applies.
+    if (parsed?.version === 1 && parsed.database === database && parsed.steps) return { ...parsed, counts: parsed.counts ?? {} };
+  } catch {
+    // Missing or unreadable: start fresh.
+  }
+  return { version: 1, database, steps: {}, counts: {} };
+}
+
+// One hash over the path, size and modification time of each of `files`, so multi-GB
+// extracts aren't read; a missing file counts as missing.
+export async function fingerprintInputs(files: readonly string[]): Promise<string> {
+  const hash = createHash('sha256');
+  for (const file of files) {
+    try {
+      const { size, mtimeMs } = await stat(file);
+      hash.update(`${file}\0${size}\0${mtimeMs}\0`);
+    } catch {
+      hash.update(`${file}\0missing\0`);
+    }
+  }
+  return hash.digest('hex');
+}
+
+export async function saveState(file: string, state: PipelineState) {
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(state, null, 2) + '\n');
+}
+
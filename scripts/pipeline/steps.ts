@@ -0,0 +1,398 @@
+// The pipeline in run order. Each phase (`import`, `analyze`, `export`) is a CLI command;
+// `all` runs the three in sequence. `snapshot` is separate: run it before importing new
+// OSM data so the next analysis can report what changed. It keeps a dump of the baseline
+// because the import recreates the database; `import:baseline` loads it back.
+
+import { createReadStream } from 'node:fs';
+import { copyFile, mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { createInterface } from 'node:readline';
+
+import { froggerScoringSql } from '../../lib/frogger';
+import { maxspeedSql } from '../../lib/maxspeed';
+import { REGIONS } from '../../lib/regions';
+import { roadInferenceSql } from '../../lib/roadInference';
+import type { PipelineConfig } from './config';
+import {
+  adminSql,
+  dumpTables,
+  execSql,
+  pgConnectionString,
+  queryValue,
+  runSqlFile,
+  runSqlFileToFile,
+  tableExists,
+} from './db';
+import { PipelineError } from './errors';
+import { requireCommand, run } from './shell';
+
+export type Phase = 'import' | 'analyze' | 'export' | 'snapshot';
+
+export type Step = {
+  id: string;
+  phase: Phase;
+  title: string;
+  // Tables an earlier step must have built; checked before running.
+  requires?: readonly string[];
+  // Tables this step builds. Their row counts are checked against `minRows` afterwards.
+  outputs?: readonly string[];
+  // Files the step reads besides the database (SQL, extracts); `--resume` re-runs the step
+  // when their contents changed since it finished.
+  inputs?: (config: PipelineConfig) => Promise<readonly string[]>;
+  // Returns why this step doesn't apply to this run, or null to run it.
+  skipReason?: (config: PipelineConfig) => Promise<string | null>;
+  run: (config: PipelineConfig) => Promise<void>;
+  // Extra counts to record (e.g. exported lines); throws when they fail a sanity check.
+  verify?: (config: PipelineConfig) => Promise<Record<string, number>>;
+};
+
+type ExportLayer = {
+  name: string;
+  table: string;
+  sql: string;
+  // Layers whose table is missing are left out of the tiles instead of failing.
+  optional?: boolean;
+};
+
+const EXPORT_LAYERS: readonly ExportLayer[] = [
+  {
+    name: 'streets',
+    table: 'streets_analyzed',
+    sql: 'SELECT osm_id, road_osm_id, segment_no, name, highway, COALESCE(LEAST(dist_to_crossing_meters, 500.0), 500.0) AS dist_to_crossing_meters, nearest_crossing_marked, nearest_marked_crosswalk_id, maxspeed, speed_mph, speed_inferred, lanes, lanes_inferred, speed_score, lanes_score, volume_score, distance_from_crosswalk_score, frogger_index, geom FROM streets_analyzed WHERE geom IS NOT NULL',
+  },
+  {
+    name: 'unmarked_crossings',
+    table: 'unmarked_crosswalk_points_enriched',
+    sql: 'SELECT point_osm_id, frogger_index, frogger_dist_to_marked_crosswalk_m, frogger_road_osm_id, frogger_road_name, frogger_road_highway, frogger_lanes, frogger_lanes_inferred, frogger_maxspeed, frogger_speed_mph, frogger_speed_inferred, frogger_speed_score, frogger_lanes_score, frogger_volume_score, frogger_distance_from_crosswalk_score, geom FROM unmarked_crosswalk_points_enriched WHERE geom IS NOT NULL',
+  },
+  // Marked crosswalks, the points street distances are measured to (the map's "nearest safe crossing").
+  {
+    name: 'marked_crossings',
+    table: 'crosswalk_points_enriched',
+    sql: 'SELECT point_osm_id, crossing_type, geom FROM crosswalk_points_enriched WHERE marked IS TRUE AND geom IS NOT NULL',
+  },
+  // Changes since the last snapshot (query_snippets/change_detection.sql).
+  {
+    name: 'changes',
+    table: 'analysis_changes',
+    sql: 'SELECT feature_kind, road_osm_id, segment_no, point_osm_id, name, change, frogger_index_before, frogger_index_after, frogger_index_delta, geom FROM analysis_changes',
+    optional: true,
+  },
+];
+
+// Tile layers search_index.sql reads, as `tile_<name>` views.
+const SEARCH_INDEX_LAYERS: readonly string[] = ['streets', 'unmarked_crossings'];
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function layerFile(config: PipelineConfig, layer: ExportLayer): string {
+  return join(config.workDir, `${layer.name}.geojsonseq`);
+}
+
+function tilesPath(config: PipelineConfig, ext: 'mbtiles' | 'pmtiles' | 'search.json'): string {
+  return join(config.dataDir, `${config.export.tileset}.${ext}`);
+}
+
+async function fileExists(file: string): Promise<boolean> {
+  try {
+    await stat(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function countLines(file: string): Promise<number> {
+  let lines = 0;
+  const reader = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  for await (const line of reader) if (line.trim()) lines += 1;
+  return lines;
+}
+
+// Written by snapshot_analysis.sql and compared against by change_detection.sql.
+const BASELINE_TABLES: readonly string[] = ['streets_analyzed_prev', 'unmarked_crosswalk_points_enriched_prev'];
+
+function sqlFile(config: PipelineConfig, name: string): string {
+  return join(config.queryDir, name);
+}
+
+async function osmExtracts(config: PipelineConfig): Promise<string[]> {
+  return (await readdir(config.dataDir)).filter((f) => f.endsWith('.osm.pbf')).sort();
+}
+
+export const STEPS: readonly Step[] = [
+  {
+    id: 'import:database',
+    phase: 'import',
+    title: 'Recreate the database with PostGIS and hstore',
+    run: async (config) => {
+      await adminSql(config, `DROP DATABASE IF EXISTS ${quoteIdent(config.db.name)};`);
+      await adminSql(config, `CREATE DATABASE ${quoteIdent(config.db.name)};`);
+      await execSql(config, 'CREATE EXTENSION IF NOT EXISTS postgis;');
+      await execSql(config, 'CREATE EXTENSION IF NOT EXISTS hstore;');
+    },
+  },
+  {
+    id: 'import:baseline',
+    phase: 'import',
+    title: 'Restore the change-detection baseline saved by `pnpm pipeline snapshot`',
+    inputs: async (config) => [config.baselineFile],
+    skipReason: async (config) => ((await fileExists(config.baselineFile)) ? null : 'no saved snapshot'),
+    run: (config) => runSqlFile(config, config.baselineFile),
+  },
+  {
+    id: 'import:osm',
+    phase: 'import',
+    title: 'Load data/*.osm.pbf with osm2pgsql',
+    outputs: ['planet_osm_line', 'planet_osm_point'],
+    inputs: async (config) => (await osmExtracts(config)).map((extract) => join(config.dataDir, extract)),
+    run: async (config) => {
+      requireCommand('osm2pgsql', 'Install it from https://osm2pgsql.org/doc/install.html (e.g. `apt install osm2pgsql`).');
+
+      const extracts = await osmExtracts(config);
+      if (extracts.length === 0) {
+        throw new PipelineError(
+          `No .osm.pbf files in ${config.dataDir}`,
+          'Download an extract first, e.g. ./scripts/get-san-antonio-osm-pbf.sh',
+        );
+      }
+
+      // One osm2pgsql process by default: more exhausts the container's connections.
+      for (const [i, extract] of extracts.entries()) {
+        const mode = i === 0 ? '--create' : '--append';
+        console.log(`  ${extract} (${mode})`);
+        await run(
+          'osm2pgsql',
+          [
+            mode,
+            '--slim',
+            '--hstore',
+            '--number-processes',
+            String(config.import.osm2pgsqlProcesses),
+            '-d',
+            config.db.name,
+            '-U',
+            config.db.user,
+            '-H',
+            config.db.host,
+            '-P',
+            String(config.db.port),
+            join(config.dataDir, extract),
+          ],
+          { env: { ...process.env, PGPASSWORD: config.db.password } },
+        );
+      }
+    },
+  },
+  {
+    id: 'analyze:scoring',
+    phase: 'analyze',
+    title: 'Create the scoring SQL functions from lib/frogger.ts, lib/maxspeed.ts and lib/roadInference.ts',
+    inputs: async (config) =>
+      ['frogger.ts', 'maxspeed.ts', 'roadInference.ts', 'regions.ts'].map((file) => join(config.rootDir, 'lib', file)),
+    run: async (config) => {
+      await mkdir(config.workDir, { recursive: true });
+      const file = join(config.workDir, 'scoring_functions.sql');
+      await writeFile(file, `${maxspeedSql()}\n${roadInferenceSql(REGIONS)}\n${froggerScoringSql()}`);
+      await runSqlFile(config, file);
+    },
+  },
+  {
+    id: 'analyze:crosswalks',
+    phase: 'analyze',
+    title: 'Build crosswalk/road linkage tables (crosswalks.sql)',
+    requires: ['planet_osm_line', 'planet_osm_point'],
+    outputs: ['roads', 'crosswalk_points'],
+    inputs: async (config) => [sqlFile(config, 'crosswalks.sql')],
+    run: (config) => runSqlFile(config, sqlFile(config, 'crosswalks.sql')),
+  },
+  {
+    id: 'analyze:corridors',
+    phase: 'analyze',
+    title: 'Group connected ways into street corridors (road_corridors.sql)',
+    requires: ['roads'],
+    outputs: ['road_corridors'],
+    inputs: async (config) => [sqlFile(config, 'road_corridors.sql')],
+    run: (config) => runSqlFile(config, sqlFile(config, 'road_corridors.sql')),
+  },
+  {
+    id: 'analyze:distances',
+    phase: 'analyze',
+    title: 'Build 20m segments and crosswalk distances (crosswalk_distances.sql)',
+    requires: ['roads', 'crosswalk_points', 'road_corridors'],
+    outputs: ['streets_analyzed', 'crosswalk_points_enriched'],
+    inputs: async (config) => [sqlFile(config, 'crosswalk_distances.sql')],
+    run: (config) => runSqlFile(config, sqlFile(config, 'crosswalk_distances.sql')),
+    // Unit-less limits are read in the region's unit (lib/roadInference.ts); a jump here means
+    // a region's unit or bounds are off, or a tagging import changed the data.
+    verify: async (config) => ({
+      'roads with unit-less maxspeed': Number(
+        await queryValue(config, "SELECT count(*) FROM roads WHERE btrim(tags->'maxspeed') ~ '^[0-9]+$'"),
+      ),
+    }),
+  },
+  {
+    id: 'analyze:unmarked',
+    phase: 'analyze',
+    title: 'Build unmarked crossings (unmarked_crosswalks.sql)',
+    requires: ['streets_analyzed', 'crosswalk_points_enriched'],
+    outputs: ['unmarked_crosswalk_points_enriched'],
+    inputs: async (config) => [sqlFile(config, 'unmarked_crosswalks.sql')],
+    run: (config) => runSqlFile(config, sqlFile(config, 'unmarked_crosswalks.sql')),
+  },
+  {
+    id: 'analyze:changes',
+    phase: 'analyze',
+    title: 'Detect changes since the last snapshot (change_detection.sql)',
+    requires: ['streets_analyzed', 'unmarked_crosswalk_points_enriched'],
+    outputs: ['analysis_changes'],
+    inputs: async (config) => [sqlFile(config, 'change_detection.sql')],
+    skipReason: async (config) => {
+      const hasBaseline = (await Promise.all(BASELINE_TABLES.map((table) => tableExists(config, table)))).every(Boolean);
+      return hasBaseline ? null : 'no snapshot to compare against (see `pnpm pipeline snapshot`)';
+    },
+    run: (config) => runSqlFile(config, sqlFile(config, 'change_detection.sql')),
+  },
+  {
+    id: 'export:geojson',
+    phase: 'export',
+    title: 'Export tile layers to GeoJSONSeq with ogr2ogr',
+    requires: ['streets_analyzed', 'unmarked_crosswalk_points_enriched', 'crosswalk_points_enriched'],
+    run: async (config) => {
+      requireCommand('ogr2ogr', 'Install GDAL (e.g. `apt install gdal-bin`).');
+      await mkdir(config.workDir, { recursive: true });
+
+      for (const layer of EXPORT_LAYERS) {
+        const out = layerFile(config, layer);
+        await rm(out, { force: true });
+        if (layer.optional && !(await tableExists(config, layer.table))) {
+          console.log(`  ${layer.name}: no ${layer.table} table, leaving the layer out`);
+          continue;
+        }
+        await run('ogr2ogr', ['-f', 'GeoJSONSeq', out, pgConnectionString(config), '-sql', layer.sql]);
+      }
+    },
+    verify: async (config) => {
+      const counts: Record<string, number> = {};
+      for (const layer of EXPORT_LAYERS) {
+        const file = layerFile(config, layer);
+        if (await fileExists(file)) counts[basename(file)] = await countLines(file);
+      }
+      if (!counts['streets.geojsonseq']) {
+        throw new PipelineError('The exported streets layer is empty; not generating tiles from it.');
+      }
+      return counts;
+    },
+  },
+  {
+    id: 'export:tiles',
+    phase: 'export',
+    title: 'Build PMTiles with tippecanoe and go-pmtiles',
+    run: async (config) => {
+      requireCommand('tippecanoe', 'Install it from https://github.com/felt/tippecanoe (e.g. `brew install tippecanoe`).');
+
+      const layerArgs: string[] = [];
+      for (const layer of EXPORT_LAYERS) {
+        const file = layerFile(config, layer);
+        if (await fileExists(file)) {
+          layerArgs.push('-L', `${layer.name}:${file}`);
+        } else if (!layer.optional) {
+          throw new PipelineError(`${file} is missing`, 'Run `pnpm pipeline export` without --resume.');
+        }
+      }
+
+      const mbtiles = tilesPath(config, 'mbtiles');
+      const pmtiles = tilesPath(config, 'pmtiles');
+      await rm(mbtiles, { force: true });
+      await rm(pmtiles, { force: true });
+
+      await run('tippecanoe', [
+        '-o',
+        mbtiles,
+        '--force',
+        `--minimum-zoom=${config.export.minZoom}`,
+        `--maximum-zoom=${config.export.maxZoom}`,
+        ...(config.export.readParallel ? ['--read-parallel'] : []),
+        '--drop-densest-as-needed',
+        ...layerArgs,
+      ]);
+
+      const uid = process.getuid?.();
+      const gid = process.getgid?.();
+      await run('docker', [
+        'run',
+        '--rm',
+        ...(uid !== undefined && gid !== undefined ? ['--user', `${uid}:${gid}`] : []),
+        '-v',
+        `${config.dataDir}:/data`,
+        config.export.pmtilesImage,
+        'convert',
+        `/data/${basename(mbtiles)}`,
+        `/data/${basename(pmtiles)}`,
+      ]);
+
+      if (config.export.snapshot) {
+        const copy = join(config.dataDir, `sketchiness-${config.export.snapshot}.pmtiles`);
+        await copyFile(pmtiles, copy);
+        console.log(`  Snapshot copied to ${copy}`);
+      }
+    },
+    verify: async (config) => {
+      const { size } = await stat(tilesPath(config, 'pmtiles'));
+      if (size === 0) throw new PipelineError('go-pmtiles wrote an empty PMTiles file');
+      return { [`${config.export.tileset}.pmtiles bytes`]: size };
+    },
+  },
+  {
+    id: 'export:search-index',
+    phase: 'export',
+    title: 'Build the street search index (search_index.sql)',
+    requires: ['streets_analyzed', 'unmarked_crosswalk_points_enriched'],
+    // The layer queries above live in this file, so it is an input too.
+    inputs: async (config) => [sqlFile(config, 'search_index.sql'), join(config.rootDir, 'scripts', 'pipeline', 'steps.ts')],
+    // search_index.sql reads the layers through views, so entries carry the tiles' columns.
+    run: async (config) => {
+      await mkdir(config.workDir, { recursive: true });
+      const file = join(config.workDir, 'search_index.sql');
+      const views = EXPORT_LAYERS.filter((layer) => SEARCH_INDEX_LAYERS.includes(layer.name)).map(
+        (layer) => `CREATE TEMP VIEW tile_${layer.name} AS ${layer.sql};`,
+      );
+      // QUIET keeps psql's "CREATE VIEW" out of the JSON.
+      const sql = await readFile(sqlFile(config, 'search_index.sql'), 'utf8');
+      await writeFile(file, `\\set QUIET on\n${views.join('\n')}\n${sql}`);
+      await runSqlFileToFile(config, file, tilesPath(config, 'search.json'));
+    },
+    verify: async (config) => {
+      const file = tilesPath(config, 'search.json');
+      let entries: unknown;
+      try {
+        entries = JSON.parse(await readFile(file, 'utf8'))?.entries;
+      } catch (err) {
+        throw new PipelineError(`${file} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      if (!Array.isArray(entries)) throw new PipelineError(`${file} has no "entries" array`);
+      return { 'search index entries': entries.length };
+    },
+  },
+  {
+    id: 'snapshot:baseline',
+    phase: 'snapshot',
+    title: 'Save the current analysis as the change-detection baseline (snapshot_analysis.sql)',
+    requires: ['streets_analyzed', 'unmarked_crosswalk_points_enriched'],
+    outputs: BASELINE_TABLES,
+    inputs: async (config) => [sqlFile(config, 'snapshot_analysis.sql')],
+    // The tables are also dumped to a file: `import:database` drops the whole database.
+    run: async (config) => {
+      await runSqlFile(config, sqlFile(config, 'snapshot_analysis.sql'));
+      await mkdir(config.workDir, { recursive: true });
+      await dumpTables(config, BASELINE_TABLES, config.baselineFile);
+    },
+  },
+];
+
+// The step that builds `table`, for "run this first" hints.
+export function producerOf(table: string): Step | null {
+  return STEPS.find((step) => step.outputs?.includes(table)) ?? null;
+}